@@ -0,0 +1,124 @@
+/**
+ * Operation Arguments
+ *
+ * The JSON types every operation accepts, one validator per argument.
+ * Typed against the RPC signatures in src/lib/database.types.ts, so an
+ * operation whose arguments change doesn't compile until its entry
+ * here does. The backend checks the values (lengths, permissions, ...).
+ */
+
+import type { Json, SessionMode } from '../../src/lib/database.types';
+import type { MutationName, OperationArgs } from '../../src/lib/backend/types';
+
+type Validator<T> = (value: unknown) => value is T;
+
+// Every argument needs a validator - optional ones accept undefined as well
+export type ArgsSpec<T> = { [K in keyof Required<T>]: Validator<T[K]> };
+
+type ValidatedOperation = MutationName | 'create_session' | 'join_session';
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isStringOrNull = (value: unknown): value is string | null => value === null || isString(value);
+const isOptionalString = (value: unknown): value is string | null | undefined =>
+  value === undefined || isStringOrNull(value);
+const isInteger = (value: unknown): value is number => Number.isInteger(value);
+const isOptionalInteger = (value: unknown): value is number | undefined =>
+  value === undefined || isInteger(value);
+const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+const isOptionalBoolean = (value: unknown): value is boolean | undefined =>
+  value === undefined || isBoolean(value);
+const isMode = (value: unknown): value is SessionMode => value === 'INVITE' || value === 'SPLIT';
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// p_items of create_session/update_session
+const ITEM_FIELDS: Record<string, Validator<unknown>> = {
+  id: isOptionalString,
+  name: isOptionalString,
+  emoji: isOptionalString,
+  unit: isOptionalString,
+  kind: (value): value is unknown => value === undefined || ['WURST', 'PRETZEL', 'EXTRA'].includes(value as string),
+  price: (value): value is unknown => value === undefined || isStringOrNull(value) || typeof value === 'number',
+};
+
+const isItems = (value: unknown): value is Json =>
+  Array.isArray(value) &&
+  value.every(
+    (item) =>
+      isPlainObject(item) &&
+      Object.entries(item).every(([key, field]) => Object.hasOwn(ITEM_FIELDS, key) && ITEM_FIELDS[key](field))
+  );
+
+const actorArgs = {
+  p_actor: isOptionalString,
+  p_actor_entry_id: isOptionalString,
+};
+
+const entryArgs = {
+  p_entry_id: isString,
+  p_edit_token: isOptionalString,
+  p_admin_secret: isOptionalString,
+  ...actorArgs,
+};
+
+const adminArgs = {
+  p_session_id: isString,
+  p_admin_secret: isString,
+};
+
+export const OPERATION_ARGS: { [K in ValidatedOperation]: ArgsSpec<OperationArgs<K>> } = {
+  create_session: { p_title: isStringOrNull, p_mode: isMode, p_admin_secret: isString, p_items: isItems },
+  join_session: { p_session_id: isString, p_display_name: isString, p_edit_token: isString },
+  increment_entry: { ...entryArgs, p_item: isString, p_delta: isInteger, p_op_id: isOptionalString },
+  reset_entry: entryArgs,
+  rename_entry: { ...entryArgs, p_display_name: isString },
+  delete_entry: entryArgs,
+  get_session_events: { ...adminArgs, p_limit: isOptionalInteger },
+  revert_event: { ...adminArgs, p_event_id: isString },
+  close_session: adminArgs,
+  delete_session: adminArgs,
+  reopen_session: adminArgs,
+  update_session: { ...adminArgs, p_title: isStringOrNull, p_mode: isMode, p_items: isItems },
+  set_entry_count: { p_entry_id: isString, p_item: isString, p_count: isInteger, p_admin_secret: isString },
+  admin_add_entry: { ...adminArgs, p_display_name: isString },
+  merge_entries: { ...adminArgs, p_source_entry_id: isString, p_target_entry_id: isString },
+  clone_session: {
+    ...adminArgs,
+    p_new_admin_secret: isString,
+    p_title: isStringOrNull,
+    p_copy_participants: isOptionalBoolean,
+  },
+  restore_session: adminArgs,
+  rotate_admin_secret: { ...adminArgs, p_new_admin_secret: isString },
+  request_entry_claim: { p_entry_id: isString, p_edit_token: isString },
+  get_claim_status: { p_entry_id: isString, p_edit_token: isString },
+  get_claim_requests: { p_session_id: isString, p_edit_token: isOptionalString, p_admin_secret: isOptionalString },
+  resolve_claim_request: {
+    p_request_id: isString,
+    p_approve: isBoolean,
+    p_edit_token: isOptionalString,
+    p_admin_secret: isOptionalString,
+  },
+  create_claim_code: { p_entry_id: isString, p_edit_token: isString },
+  redeem_claim_code: { p_session_id: isString, p_code: isString, p_edit_token: isString },
+  set_cohost_secret: { ...adminArgs, p_cohost_secret: isString },
+  revoke_cohost_secret: adminArgs,
+};
+
+export const isMutationName = (name: string): name is MutationName =>
+  name !== 'create_session' && name !== 'join_session' && Object.hasOwn(OPERATION_ARGS, name);
+
+/**
+ * Name of the first argument that is unknown or doesn't have the JSON
+ * type the operation expects ('args' if it isn't an object at all)
+ */
+export function findInvalidArg<T>(value: unknown, spec: ArgsSpec<T>): string | null {
+  if (!isPlainObject(value)) return 'args';
+
+  const unknownKey = Object.keys(value).find((key) => !Object.hasOwn(spec, key));
+  if (unknownKey) return unknownKey;
+
+  const validators = Object.entries(spec) as [string, Validator<unknown>][];
+  return validators.find(([key, isValid]) => !isValid(value[key]))?.[0] ?? null;
+}
@@ -0,0 +1,348 @@
+/**
+ * Self-hosted Einstand Server
+ *
+ * Runs the in-memory backend (src/lib/backend/memoryBackend.ts) with
+ * a SQLite file as storage, so it keeps the exact session, entry and
+ * admin-secret semantics of the SQL functions. The frontend talks to
+ * it with VITE_BACKEND=server (src/lib/backend/serverBackend.ts):
+ *
+ *   POST /api/<method>  JSON body, answers { data, error }
+ *   GET  /ws            WebSocket with live changes, presence and scene animations
+ *
+ * Sessions deleted longer than the retention window ago are purged
+ * every hour, and new sessions are limited per client like on the SQL
+ * side (015_limits.sql).
+ *
+ * Environment: PORT (8787), DATABASE_PATH (./einstand.db), CORS_ORIGIN (*),
+ * TRUST_PROXY (unset; 1 = take the client IP from the last X-Forwarded-For hop)
+ */
+
+import { createHash } from 'node:crypto';
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { WebSocketServer, type WebSocket } from 'ws';
+import { createMemoryBackend } from '../../src/lib/backend/memoryBackend';
+import {
+  SESSION_LISTENER_EVENTS,
+  isSceneAnimation,
+  type AnimationChannel,
+  type BackendResult,
+  type MutationName,
+  type OperationArgs,
+  type SessionListener,
+  type Viewer,
+} from '../../src/lib/backend/types';
+import { OPERATION_ARGS, findInvalidArg, isMutationName, type ArgsSpec } from './args';
+import { createSqliteStorage } from './storage';
+
+const PORT = Number(process.env.PORT) || 8787;
+const DATABASE_PATH = process.env.DATABASE_PATH || './einstand.db';
+const CORS_ORIGIN = process.env.CORS_ORIGIN || '*';
+const TRUST_PROXY = process.env.TRUST_PROXY === '1';
+
+// Security constants
+const MAX_BODY_BYTES = 64 * 1024;
+const MAX_SUBSCRIPTIONS_PER_SOCKET = 10;
+const MAX_NAME_LENGTH = 50;
+const MIN_ANIMATION_INTERVAL_MS = 100;
+const SESSION_RATE_PER_MINUTE = 5;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+class RequestError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const storage = createSqliteStorage(DATABASE_PATH);
+const backend = createMemoryBackend({
+  storage,
+  hashSecret: (secret) => createHash('sha256').update(secret).digest('hex'),
+});
+
+type Args = Record<string, unknown>;
+
+// Same answer as the WW003 of check_rate_limit()
+const RATE_LIMITED: BackendResult<never> = {
+  data: null,
+  error: { message: 'Rate limit exceeded', code: 'WW003' },
+};
+
+// Client key -> times of its new sessions (create and clone) in the last minute
+const sessionHits = new Map<string, number[]>();
+
+const recentSessionHits = (clientKey: string) =>
+  (sessionHits.get(clientKey) ?? []).filter((at) => at > Date.now() - 60 * 1000);
+
+// Counts the attempt unless the client is over the limit already
+function isSessionRateLimited(clientKey: string): boolean {
+  const hits = recentSessionHits(clientKey);
+  const limited = hits.length >= SESSION_RATE_PER_MINUTE;
+  if (!limited) hits.push(Date.now());
+  sessionHits.set(clientKey, hits);
+  return limited;
+}
+
+// The proxy appends the address it saw - earlier entries come from the client
+function getClientKey(req: IncomingMessage): string {
+  const forwarded = TRUST_PROXY ? String(req.headers['x-forwarded-for'] ?? '').split(',').at(-1)?.trim() : '';
+  return forwarded || req.socket.remoteAddress || 'unknown';
+}
+
+function validateArgs<T>(value: unknown, spec: ArgsSpec<T>): T {
+  const invalid = findInvalidArg(value, spec);
+  if (invalid) throw new RequestError(400, `Invalid argument ${invalid}`);
+  return value as T;
+}
+
+function requireString(body: Args, key: string): string {
+  const value = body[key];
+  if (typeof value !== 'string') throw new RequestError(400, `Missing ${key}`);
+  return value;
+}
+
+// Generic, so the validator is the one of this very operation
+function runMutation<K extends MutationName>(name: K, args: unknown) {
+  const spec: ArgsSpec<OperationArgs<K>> = OPERATION_ARGS[name];
+  return backend.mutate(name, validateArgs(args, spec));
+}
+
+async function mutate(body: Args, clientKey: string) {
+  const name = requireString(body, 'name');
+  if (!isMutationName(name)) throw new RequestError(404, `Unknown operation: ${name}`);
+  if (name === 'clone_session' && isSessionRateLimited(clientKey)) return RATE_LIMITED;
+  return runMutation(name, body.args);
+}
+
+// Arguments are checked for their JSON types here, the operations check the rest
+const methods: Record<string, (body: Args, clientKey: string) => Promise<BackendResult<unknown>>> = {
+  createSession: async (body, clientKey) => {
+    const args = validateArgs(body.args, OPERATION_ARGS.create_session);
+    return isSessionRateLimited(clientKey) ? RATE_LIMITED : backend.createSession(args);
+  },
+  getSession: (body) => backend.getSession(requireString(body, 'sessionId')),
+  getAdminSession: (body) =>
+    backend.getAdminSession(requireString(body, 'sessionId'), requireString(body, 'adminSecret')),
+  listEntries: (body) => backend.listEntries(requireString(body, 'sessionId')),
+  listItems: (body) => backend.listItems(requireString(body, 'sessionId')),
+  join: (body) => backend.join(validateArgs(body.args, OPERATION_ARGS.join_session)),
+  mutate,
+};
+
+async function readBody(req: IncomingMessage): Promise<Args> {
+  let size = 0;
+  const chunks: Buffer[] = [];
+  for await (const chunk of req as AsyncIterable<Buffer>) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new RequestError(413, 'Request too large');
+    chunks.push(chunk);
+  }
+
+  try {
+    const body: unknown = JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+    if (typeof body !== 'object' || body === null) throw new Error();
+    return body as Args;
+  } catch {
+    throw new RequestError(400, 'Invalid JSON');
+  }
+}
+
+function send(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json; charset=utf-8',
+    'Access-Control-Allow-Origin': CORS_ORIGIN,
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+  });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+}
+
+// Request errors carry a code like the database's errors (SQLSTATE),
+// so the client doesn't take them for a lost connection and retry
+const ERROR_CODES: Record<number, string> = {
+  400: '22023', // invalid_parameter_value
+  404: '42883', // undefined_function
+  405: '42883',
+  413: '54000', // program_limit_exceeded
+  500: 'XX000', // internal_error
+};
+
+function sendError(res: ServerResponse, status: number, message: string) {
+  send(res, status, { data: null, error: { message, code: ERROR_CODES[status] } });
+}
+
+async function handleRequest(req: IncomingMessage, res: ServerResponse) {
+  if (req.method === 'OPTIONS') {
+    send(res, 204, undefined);
+    return;
+  }
+
+  const match = /^\/api\/(\w+)$/.exec(req.url ?? '');
+  const method = match && Object.hasOwn(methods, match[1]) ? methods[match[1]] : null;
+  if (!method) {
+    sendError(res, 404, 'Not found');
+    return;
+  }
+  if (req.method !== 'POST') {
+    sendError(res, 405, 'Method not allowed');
+    return;
+  }
+
+  try {
+    // Operation errors (wrong secret, limits, ...) are part of the result
+    send(res, 200, await method(await readBody(req), getClientKey(req)));
+  } catch (err) {
+    if (err instanceof RequestError) {
+      sendError(res, err.status, err.message);
+    } else {
+      console.error('Request failed:', err);
+      sendError(res, 500, 'Internal error');
+    }
+  }
+}
+
+const server = createServer((req, res) => {
+  void handleRequest(req, res);
+});
+
+// Live changes: { type: 'subscribe' | 'unsubscribe', sessionId } in,
+// { sessionId, event, payload } out (event = SessionListener method).
+// Presence: { type: 'join_presence', id, sessionId, viewer } and
+// { type: 'leave_presence', id } in, event 'presence' with all viewers out.
+// Animations: { type: 'join_animations', id, sessionId },
+// { type: 'animation', id, animation } and { type: 'leave_animations', id }
+// in, event 'animation' with the animations of the others out.
+const wss = new WebSocketServer({ server, path: '/ws', maxPayload: 1024 });
+
+function parseViewer(value: unknown): Viewer | null {
+  const viewer = value as Partial<Viewer> | null;
+  if (!viewer || typeof viewer !== 'object') return null;
+  const isShortStringOrNull = (v: unknown) => v === null || (typeof v === 'string' && v.length <= MAX_NAME_LENGTH);
+  if (!isShortStringOrNull(viewer.entryId) || !isShortStringOrNull(viewer.displayName)) return null;
+  return { entryId: viewer.entryId ?? null, displayName: viewer.displayName ?? null };
+}
+
+wss.on('connection', (socket: WebSocket) => {
+  const subscriptions = new Map<string, () => void>();
+  // Presence id (chosen by the client) -> leave function
+  const presences = new Map<string, () => void>();
+  const animationChannels = new Map<string, AnimationChannel>();
+  let lastAnimationAt = 0;
+
+  const sendEvent = (sessionId: string, event: string, payload?: unknown) => {
+    if (socket.readyState === socket.OPEN) {
+      socket.send(JSON.stringify({ sessionId, event, payload }));
+    }
+  };
+
+  const listenerFor = (sessionId: string): SessionListener =>
+    Object.fromEntries(
+      SESSION_LISTENER_EVENTS.map((event) => [
+        event,
+        (payload?: unknown) => sendEvent(sessionId, event, payload),
+      ])
+    );
+
+  const leavePresence = (id: string) => {
+    presences.get(id)?.();
+    presences.delete(id);
+  };
+
+  socket.on('message', (raw) => {
+    let message: { type?: unknown; sessionId?: unknown; id?: unknown; viewer?: unknown; animation?: unknown };
+    try {
+      message = JSON.parse(raw.toString());
+    } catch {
+      return;
+    }
+    const { type, sessionId, id } = message;
+
+    if (type === 'leave_presence' && typeof id === 'string') {
+      leavePresence(id);
+      return;
+    }
+    if (type === 'leave_animations' && typeof id === 'string') {
+      animationChannels.get(id)?.leave();
+      animationChannels.delete(id);
+      return;
+    }
+    if (type === 'animation' && typeof id === 'string') {
+      // Bursts are cut down here, the clients queue what's left
+      const now = Date.now();
+      if (now - lastAnimationAt < MIN_ANIMATION_INTERVAL_MS || !isSceneAnimation(message.animation)) return;
+      lastAnimationAt = now;
+      const { kind, displayName } = message.animation;
+      animationChannels.get(id)?.send({ kind, displayName });
+      return;
+    }
+    if (typeof sessionId !== 'string') return;
+
+    if (type === 'subscribe' && !subscriptions.has(sessionId)) {
+      if (subscriptions.size >= MAX_SUBSCRIPTIONS_PER_SOCKET) return;
+      subscriptions.set(sessionId, backend.subscribe(sessionId, listenerFor(sessionId)));
+    } else if (type === 'unsubscribe') {
+      subscriptions.get(sessionId)?.();
+      subscriptions.delete(sessionId);
+    } else if (type === 'join_presence' && typeof id === 'string') {
+      // Joining again (reconnect) replaces the earlier registration
+      leavePresence(id);
+      if (presences.size >= MAX_SUBSCRIPTIONS_PER_SOCKET) return;
+      const viewer = message.viewer === null ? null : parseViewer(message.viewer);
+      if (message.viewer !== null && !viewer) return;
+      presences.set(
+        id,
+        backend.joinPresence(sessionId, viewer, (viewers) => sendEvent(sessionId, 'presence', viewers))
+      );
+    } else if (type === 'join_animations' && typeof id === 'string') {
+      animationChannels.get(id)?.leave();
+      animationChannels.delete(id);
+      if (animationChannels.size >= MAX_SUBSCRIPTIONS_PER_SOCKET) return;
+      animationChannels.set(
+        id,
+        backend.joinAnimations(sessionId, (animation) => sendEvent(sessionId, 'animation', animation))
+      );
+    }
+  });
+
+  socket.on('close', () => {
+    for (const unsubscribe of subscriptions.values()) unsubscribe();
+    subscriptions.clear();
+    for (const leave of presences.values()) leave();
+    presences.clear();
+    for (const channel of animationChannels.values()) channel.leave();
+    animationChannels.clear();
+  });
+});
+
+async function purgeDeletedSessions() {
+  const { data, error } = await backend.purgeDeletedSessions();
+  if (error) console.error('Purge failed:', error.message);
+  else if (data) console.log(`Purged ${data} deleted session(s)`);
+
+  // Forget clients without recent sessions
+  for (const clientKey of sessionHits.keys()) {
+    if (recentSessionHits(clientKey).length === 0) sessionHits.delete(clientKey);
+  }
+}
+
+void purgeDeletedSessions();
+const purgeTimer = setInterval(() => void purgeDeletedSessions(), PURGE_INTERVAL_MS);
+
+server.listen(PORT, () => {
+  console.log(`Einstand server listening on http://localhost:${PORT} (database: ${DATABASE_PATH})`);
+});
+
+function shutdown() {
+  clearInterval(purgeTimer);
+  wss.close();
+  server.close(() => {
+    storage.close();
+    process.exit(0);
+  });
+  server.closeAllConnections();
+}
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
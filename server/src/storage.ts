@@ -0,0 +1,277 @@
+/**
+ * SQLite Storage
+ *
+ * Persists the state of the in-memory backend. The whole state is
+ * loaded once at startup; every committed change writes the rows it
+ * inserted, updated or deleted in one transaction, so the file is
+ * never half updated.
+ */
+
+import Database from 'better-sqlite3';
+import type { AdminRole, Json } from '../../src/lib/database.types';
+import type { MemoryState, MemoryStorage, StoredSessionChange } from '../../src/lib/backend/memoryBackend';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS sessions (
+    id TEXT PRIMARY KEY,
+    title TEXT,
+    mode TEXT NOT NULL,
+    status TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    deleted_at TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS session_secrets (
+    session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+    role TEXT NOT NULL,
+    secret_hash TEXT NOT NULL,
+    PRIMARY KEY (session_id, role)
+  );
+
+  CREATE TABLE IF NOT EXISTS entries (
+    id TEXT PRIMARY KEY,
+    session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+    display_name TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS entry_tokens (
+    entry_id TEXT NOT NULL REFERENCES entries(id) ON DELETE CASCADE,
+    token_hash TEXT NOT NULL,
+    PRIMARY KEY (entry_id, token_hash)
+  );
+
+  CREATE TABLE IF NOT EXISTS items (
+    id TEXT PRIMARY KEY,
+    session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    emoji TEXT NOT NULL,
+    unit TEXT NOT NULL,
+    price REAL,
+    kind TEXT NOT NULL,
+    sort_order INTEGER NOT NULL,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS entry_items (
+    entry_id TEXT NOT NULL REFERENCES entries(id) ON DELETE CASCADE,
+    item_id TEXT NOT NULL REFERENCES items(id) ON DELETE CASCADE,
+    session_id TEXT NOT NULL,
+    count INTEGER NOT NULL,
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (entry_id, item_id)
+  );
+
+  CREATE TABLE IF NOT EXISTS events (
+    id TEXT PRIMARY KEY,
+    session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+    entry_id TEXT,
+    event_type TEXT NOT NULL,
+    item_id TEXT,
+    delta INTEGER,
+    payload TEXT NOT NULL,
+    actor TEXT,
+    actor_entry_id TEXT,
+    reverts_event_id TEXT,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS claim_requests (
+    id TEXT PRIMARY KEY,
+    entry_id TEXT NOT NULL,
+    session_id TEXT NOT NULL,
+    token_hash TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS claim_codes (
+    code_hash TEXT PRIMARY KEY,
+    entry_id TEXT NOT NULL,
+    session_id TEXT NOT NULL,
+    expires_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS applied_operations (
+    op_id TEXT PRIMARY KEY,
+    entry_id TEXT NOT NULL REFERENCES entries(id) ON DELETE CASCADE
+  );
+`;
+
+type Row = Record<string, unknown>;
+
+interface Table {
+  name: string;
+  key: string[];
+  columns: string[];
+  rows(state: MemoryState): object[];
+}
+
+const pick = (row: object, columns: string[]): Row =>
+  Object.fromEntries(columns.map((column) => [column, (row as Row)[column] ?? null]));
+
+// Parents first: rows are written in this order and deleted in reverse
+const TABLES: Table[] = [
+  {
+    name: 'sessions',
+    key: ['id'],
+    columns: ['id', 'title', 'mode', 'status', 'created_at', 'deleted_at'],
+    rows: (state) => state.sessions,
+  },
+  {
+    name: 'session_secrets',
+    key: ['session_id', 'role'],
+    columns: ['session_id', 'role', 'secret_hash'],
+    rows: (state) =>
+      state.sessions.flatMap((session) =>
+        Object.entries(session.secret_hashes).map(([role, secret_hash]) => ({
+          session_id: session.id,
+          role,
+          secret_hash,
+        }))
+      ),
+  },
+  {
+    name: 'entries',
+    key: ['id'],
+    columns: ['id', 'session_id', 'display_name', 'created_at', 'updated_at'],
+    rows: (state) => state.entries,
+  },
+  {
+    name: 'entry_tokens',
+    key: ['entry_id', 'token_hash'],
+    columns: ['entry_id', 'token_hash'],
+    rows: (state) => state.tokens,
+  },
+  {
+    name: 'items',
+    key: ['id'],
+    columns: ['id', 'session_id', 'name', 'emoji', 'unit', 'price', 'kind', 'sort_order', 'created_at'],
+    rows: (state) => state.items,
+  },
+  {
+    name: 'entry_items',
+    key: ['entry_id', 'item_id'],
+    columns: ['entry_id', 'item_id', 'session_id', 'count', 'updated_at'],
+    rows: (state) => state.entryItems,
+  },
+  {
+    name: 'events',
+    key: ['id'],
+    columns: [
+      'id', 'session_id', 'entry_id', 'event_type', 'item_id', 'delta',
+      'payload', 'actor', 'actor_entry_id', 'reverts_event_id', 'created_at',
+    ],
+    rows: (state) => state.events.map((event) => ({ ...event, payload: JSON.stringify(event.payload) })),
+  },
+  {
+    name: 'claim_requests',
+    key: ['id'],
+    columns: ['id', 'entry_id', 'session_id', 'token_hash', 'created_at'],
+    rows: (state) => state.claimRequests,
+  },
+  {
+    name: 'claim_codes',
+    key: ['code_hash'],
+    columns: ['code_hash', 'entry_id', 'session_id', 'expires_at'],
+    rows: (state) => state.claimCodes,
+  },
+  {
+    name: 'applied_operations',
+    key: ['op_id'],
+    columns: ['op_id', 'entry_id'],
+    rows: (state) => state.appliedOperations,
+  },
+];
+
+// Rows of one table that are gone or new/changed between two states
+function diffRows(table: Table, before: MemoryState, after: MemoryState) {
+  const keyOf = (row: Row) => JSON.stringify(pick(row, table.key));
+  const previous = new Map(table.rows(before).map((row) => {
+    const picked = pick(row, table.columns);
+    return [keyOf(picked), JSON.stringify(picked)];
+  }));
+  const current = table.rows(after).map((row) => pick(row, table.columns));
+  const currentKeys = new Set(current.map(keyOf));
+
+  return {
+    deleted: [...previous.keys()].filter((key) => !currentKeys.has(key)).map((key) => JSON.parse(key) as Row),
+    written: current.filter((row) => previous.get(keyOf(row)) !== JSON.stringify(row)),
+  };
+}
+
+export function createSqliteStorage(path: string): MemoryStorage & { close(): void } {
+  const db = new Database(path);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  db.exec(SCHEMA);
+
+  // Rows come back in the order they were first written
+  const all = <T>(table: string) => db.prepare(`SELECT * FROM ${table} ORDER BY rowid`).all() as T[];
+
+  const statements = TABLES.map((table) => {
+    const { name, key, columns } = table;
+    const values = columns.filter((c) => !key.includes(c));
+    const onConflict = values.length > 0
+      ? `DO UPDATE SET ${values.map((c) => `${c} = excluded.${c}`).join(', ')}`
+      : 'DO NOTHING';
+    return {
+      table,
+      upsert: db.prepare(
+        `INSERT INTO ${name} (${columns.join(', ')}) VALUES (${columns.map((c) => '@' + c).join(', ')})
+         ON CONFLICT (${key.join(', ')}) ${onConflict}`
+      ),
+      remove: db.prepare(`DELETE FROM ${name} WHERE ${key.map((c) => `${c} = @${c}`).join(' AND ')}`),
+    };
+  });
+
+  // Only the rows that changed, so a click costs the same however full the file is
+  const save = db.transaction((changes: StoredSessionChange[]) => {
+    for (const { before, after } of changes) {
+      const diffs = statements.map((s) => ({ ...s, ...diffRows(s.table, before, after) }));
+      for (const { remove, deleted } of [...diffs].reverse()) {
+        for (const row of deleted) remove.run(row);
+      }
+      for (const { upsert, written } of diffs) {
+        for (const row of written) upsert.run(row);
+      }
+    }
+  });
+
+  return {
+    load() {
+      const sessions = all<MemoryState['sessions'][number]>('sessions');
+      if (sessions.length === 0) return null;
+
+      const secrets = all<{ session_id: string; role: AdminRole; secret_hash: string }>('session_secrets');
+      for (const session of sessions) {
+        session.secret_hashes = Object.fromEntries(
+          secrets.filter((s) => s.session_id === session.id).map((s) => [s.role, s.secret_hash])
+        );
+      }
+
+      return {
+        sessions,
+        entries: all('entries'),
+        tokens: all('entry_tokens'),
+        items: all('items'),
+        entryItems: all('entry_items'),
+        events: all<Row>('events').map((event) => ({
+          ...event,
+          payload: JSON.parse(event.payload as string) as Json,
+        })) as MemoryState['events'],
+        claimRequests: all('claim_requests'),
+        claimCodes: all('claim_codes'),
+        appliedOperations: all('applied_operations'),
+      };
+    },
+
+    save(changes) {
+      save(changes);
+    },
+
+    close() {
+      db.close();
+    },
+  };
+}
@@ -1,8 +1,27 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useMemo } from 'react';
 import { v4 as uuidv4 } from 'uuid';
-import type { AppState, Toast } from './types';
-import { DEFAULT_PRICE, DEFAULT_BREZEL_PRICE, STORAGE_KEY, SCHEMA_VERSION } from './types';
+import type { AppState, OfflineEvent, Toast, ToastAction } from './types';
+import { DEFAULT_BREZEL_PRICE, STORAGE_KEY, SCHEMA_VERSION } from './types';
 import { useLocalStorageState } from './hooks/useLocalStorageState';
+import { useUndoHistory } from './hooks/useUndoHistory';
+import { getDefaultItems, resetItemCounts } from './utils/items';
+import {
+  MAX_EVENTS,
+  createOfflineEvent,
+  ensureActiveEvent,
+  getActiveEvent,
+  hasContentChanged,
+  isStateTooLarge,
+  keepNavigation,
+  restoreColleague,
+  restoreCounts,
+  restoreEvent,
+} from './utils/offlineEvents';
+import { createBackup, getBackupFileName, mergeImportedState, type ImportMode } from './utils/backup';
+import { downloadFile } from './utils/download';
+import { createCostsCsv, getCsvFileName } from './utils/csvExport';
+import { EventManager } from './components/EventManager';
+import { BackupControls } from './components/BackupControls';
 import { ColleagueList } from './components/ColleagueList';
 import { Summary } from './components/Summary';
 import { ModeToggle } from './components/ModeToggle';
@@ -12,60 +31,216 @@ import { SceneErrorBoundary } from './components/SceneErrorBoundary';
 import { ToastContainer } from './components/ToastContainer';
 import styles from './App.module.css';
 
+// The first event is created on load (ensureActiveEvent)
 const initialState: AppState = {
-  colleagues: [],
-  activeColleagueId: null,
-  mode: 'invite',
-  pricePerWurst: DEFAULT_PRICE,
-  pricePerBrezel: DEFAULT_BREZEL_PRICE,
+  events: [],
+  activeEventId: null,
   sortMode: 'alphabetical',
   schemaVersion: SCHEMA_VERSION,
 };
 
 function App() {
-  const [state, setState] = useLocalStorageState<AppState>(STORAGE_KEY, initialState);
   const [toasts, setToasts] = useState<Toast[]>([]);
   const [isColleaguesCollapsed, setIsColleaguesCollapsed] = useState(false);
 
-  const showToast = useCallback((message: string, type: Toast['type'] = 'info') => {
+  const showToast = useCallback((message: string, type: Toast['type'] = 'info', action?: ToastAction) => {
     const id = uuidv4();
-    setToasts((prev) => [...prev, { id, message, type }]);
+    setToasts((prev) => [...prev, { id, message, type, action }]);
+    // Give a bit more time to reach the action button
     setTimeout(() => {
       setToasts((prev) => prev.filter((t) => t.id !== id));
-    }, 3000);
+    }, action ? 5000 : 3000);
   }, []);
 
+  const [state, setState] = useLocalStorageState<AppState>(STORAGE_KEY, initialState, {
+    onTooLarge: () => showToast('Speicher voll - bitte alte Einstände exportieren und löschen', 'error'),
+  });
+  const { undo, redo, canUndo, canRedo } = useUndoHistory(state, setState, {
+    shouldRecord: hasContentChanged,
+    applyStep: keepNavigation,
+  });
+
+  // After destructive changes: one click takes back that change only -
+  // not the latest step, and not what was done since
+  const showUndoToast = useCallback((message: string, restore: (current: AppState) => AppState) => {
+    showToast(message, 'success', { label: 'Rückgängig', onClick: () => setState(restore) });
+  }, [showToast, setState]);
+
   const dismissToast = useCallback((id: string) => {
     setToasts((prev) => prev.filter((t) => t.id !== id));
   }, []);
 
-  const activeColleague = state.colleagues.find((c) => c.id === state.activeColleagueId);
+  const event = getActiveEvent(state);
+  const activeColleague = event.colleagues.find((c) => c.id === event.activeColleagueId);
 
-  const handleDipComplete = useCallback(() => {
-    if (!state.activeColleagueId) return;
-    
+  // Everything below the event switcher changes the active event only
+  const updateEvent = useCallback((update: (event: OfflineEvent) => Partial<OfflineEvent>) => {
     setState((prev) => ({
       ...prev,
-      colleagues: prev.colleagues.map((c) =>
-        c.id === prev.activeColleagueId ? { ...c, count: c.count + 1 } : c
+      events: prev.events.map((e) => (e.id === prev.activeEventId ? { ...e, ...update(e) } : e)),
+    }));
+  }, [setState]);
+
+  // Offline mode always offers the two scene items
+  const items = useMemo(
+    () => getDefaultItems(event.pricePerWurst, event.pricePerBrezel || DEFAULT_BREZEL_PRICE),
+    [event.pricePerWurst, event.pricePerBrezel]
+  );
+
+  const handleDipComplete = useCallback(() => {
+    if (!event.activeColleagueId) return;
+    
+    updateEvent((e) => ({
+      colleagues: e.colleagues.map((c) =>
+        c.id === e.activeColleagueId ? { ...c, count: c.count + 1 } : c
       ),
     }));
     
     showToast(`+1 Wurst für ${activeColleague?.name}`, 'success');
-  }, [state.activeColleagueId, activeColleague?.name, setState, showToast]);
+  }, [event.activeColleagueId, activeColleague?.name, updateEvent, showToast]);
 
   const handleBrezelComplete = useCallback(() => {
-    if (!state.activeColleagueId) return;
+    if (!event.activeColleagueId) return;
     
-    setState((prev) => ({
-      ...prev,
-      colleagues: prev.colleagues.map((c) =>
-        c.id === prev.activeColleagueId ? { ...c, brezelCount: (c.brezelCount || 0) + 1 } : c
+    updateEvent((e) => ({
+      colleagues: e.colleagues.map((c) =>
+        c.id === e.activeColleagueId ? { ...c, brezelCount: (c.brezelCount || 0) + 1 } : c
       ),
     }));
     
     showToast(`+1 Brezel für ${activeColleague?.name}`, 'success');
-  }, [state.activeColleagueId, activeColleague?.name, setState, showToast]);
+  }, [event.activeColleagueId, activeColleague?.name, updateEvent, showToast]);
+
+  // ============================================================
+  // Events
+  // ============================================================
+
+  const handleSelectEvent = useCallback((activeEventId: string) => {
+    setState((prev) => ensureActiveEvent({ ...prev, activeEventId }));
+  }, [setState]);
+
+  const handleCreateEvent = useCallback(() => {
+    if (state.events.length >= MAX_EVENTS) {
+      showToast(`Höchstens ${MAX_EVENTS} Einstände - bitte alte löschen`, 'warning');
+      return;
+    }
+    // Mode and prices carry over, the names start empty
+    const created = createOfflineEvent({
+      mode: event.mode,
+      pricePerWurst: event.pricePerWurst,
+      pricePerBrezel: event.pricePerBrezel,
+    });
+    setState((prev) => ({ ...prev, events: [...prev.events, created], activeEventId: created.id }));
+    showToast(`„${created.name}“ angelegt`, 'success');
+  }, [state.events.length, event.mode, event.pricePerWurst, event.pricePerBrezel, setState, showToast]);
+
+  const handleRenameEvent = useCallback((id: string, name: string) => {
+    setState((prev) => ({
+      ...prev,
+      events: prev.events.map((e) => (e.id === id ? { ...e, name } : e)),
+    }));
+  }, [setState]);
+
+  const handleSetEventArchived = useCallback((id: string, archived: boolean) => {
+    setState((prev) => ensureActiveEvent({
+      ...prev,
+      events: prev.events.map((e) => (e.id === id ? { ...e, archived } : e)),
+      // A restored event is opened right away
+      activeEventId: archived ? prev.activeEventId : id,
+    }));
+    showToast(archived ? 'Einstand archiviert' : 'Einstand wiederhergestellt', 'success');
+  }, [setState, showToast]);
+
+  const handleDeleteEvent = useCallback((id: string) => {
+    const index = state.events.findIndex((e) => e.id === id);
+    if (index === -1) return;
+    const deleted = state.events[index];
+    setState((prev) => ensureActiveEvent({ ...prev, events: prev.events.filter((e) => e.id !== id) }));
+    showUndoToast('Einstand gelöscht', (current) => restoreEvent(current, deleted, index));
+  }, [state.events, setState, showUndoToast]);
+
+  // ============================================================
+  // Colleagues
+  // ============================================================
+
+  const handleDeleteColleague = useCallback((id: string) => {
+    const index = event.colleagues.findIndex((c) => c.id === id);
+    if (index === -1) return;
+    const colleague = event.colleagues[index];
+    updateEvent((e) => ({
+      colleagues: e.colleagues.filter((c) => c.id !== id),
+      activeColleagueId: e.activeColleagueId === id ? null : e.activeColleagueId,
+    }));
+    showUndoToast(`${colleague.name} gelöscht`, (current) => restoreColleague(current, event.id, colleague, index));
+  }, [event.id, event.colleagues, updateEvent, showUndoToast]);
+
+  const handleResetColleague = useCallback((id: string) => {
+    const colleague = event.colleagues.find((c) => c.id === id);
+    if (!colleague) return;
+    updateEvent((e) => ({
+      colleagues: e.colleagues.map((c) => (c.id === id ? resetItemCounts(c) : c)),
+    }));
+    showUndoToast(`${colleague.name} zurückgesetzt`, (current) => restoreCounts(current, event.id, colleague));
+  }, [event.id, event.colleagues, updateEvent, showUndoToast]);
+
+  // ============================================================
+  // Backup
+  // ============================================================
+
+  const handleExport = useCallback(() => {
+    downloadFile(createBackup(state), getBackupFileName(), 'application/json');
+    showToast('Sicherung heruntergeladen', 'success');
+  }, [state, showToast]);
+
+  const handleImport = useCallback((imported: AppState, mode: ImportMode) => {
+    if (mode === 'replace') {
+      if (isStateTooLarge(imported)) {
+        showToast('Zu groß für den Speicher - bitte alte Einstände aus der Datei entfernen', 'error');
+        return;
+      }
+      const previous = state;
+      setState(imported);
+      // The whole state was replaced - only while nothing changed since
+      showUndoToast('Sicherung importiert', (current) =>
+        hasContentChanged(imported, current) ? current : keepNavigation(current, previous)
+      );
+      return;
+    }
+
+    const { state: merged, added } = mergeImportedState(state, imported);
+    if (merged.events.length > MAX_EVENTS) {
+      showToast(`Höchstens ${MAX_EVENTS} Einstände - bitte ersetzen oder alte löschen`, 'error');
+      return;
+    }
+    if (isStateTooLarge(merged)) {
+      showToast('Zusammen zu groß für den Speicher - bitte ersetzen oder alte löschen', 'error');
+      return;
+    }
+    setState(merged);
+    const skipped = imported.events.length - added;
+    showToast(
+      skipped > 0
+        ? `${added} Einstände hinzugefügt, ${skipped} waren schon vorhanden`
+        : `${added} ${added === 1 ? 'Einstand' : 'Einstände'} hinzugefügt`,
+      'success'
+    );
+  }, [state, setState, showToast, showUndoToast]);
+
+  const handleExportCsv = useCallback(() => {
+    const csv = createCostsCsv({
+      title: event.name,
+      mode: event.mode,
+      createdAt: event.createdAt,
+      items,
+      colleagues: event.colleagues,
+    });
+    downloadFile(csv, getCsvFileName(event.name), 'text/csv;charset=utf-8');
+    showToast('CSV heruntergeladen', 'success');
+  }, [event, items, showToast]);
+
+  const handleImportError = useCallback((message: string) => {
+    showToast(`Import fehlgeschlagen: ${message}`, 'error');
+  }, [showToast]);
 
   const handleNoSelection = useCallback(() => {
     showToast('Erst einen Namen auswählen!', 'warning');
@@ -79,9 +254,9 @@ function App() {
     const target = e.target as HTMLElement;
     // Deselektiere nur wenn außerhalb des Kollegen-Bereichs UND der Szene geklickt wird
     if (!target.closest('[data-colleague-area]') && !target.closest('[data-scene-area]')) {
-      setState((prev) => ({ ...prev, activeColleagueId: null }));
+      updateEvent(() => ({ activeColleagueId: null }));
     }
-  }, [setState]);
+  }, [updateEvent]);
 
   return (
     <>
@@ -99,6 +274,29 @@ function App() {
             <div className={styles.titleCenter}>
               <h1 className={styles.title}>Weißwurst Einstand</h1>
             </div>
+
+            <div className={styles.headerActions}>
+              <button
+                type="button"
+                className={styles.historyButton}
+                onClick={undo}
+                disabled={!canUndo}
+                title="Rückgängig (Strg+Z)"
+                aria-label="Rückgängig"
+              >
+                ↶
+              </button>
+              <button
+                type="button"
+                className={styles.historyButton}
+                onClick={redo}
+                disabled={!canRedo}
+                title="Wiederholen (Strg+Umschalt+Z)"
+                aria-label="Wiederholen"
+              >
+                ↷
+              </button>
+            </div>
           </div>
         </div>
       </header>
@@ -109,12 +307,30 @@ function App() {
           
           {/* Left Column */}
           <div className={styles.leftColumn}>
+            {/* Event Switcher Card */}
+            <div className={styles.controlsCard} data-colleague-area>
+              <EventManager
+                events={state.events}
+                activeEventId={state.activeEventId}
+                onSelect={handleSelectEvent}
+                onCreate={handleCreateEvent}
+                onRename={handleRenameEvent}
+                onSetArchived={handleSetEventArchived}
+                onDelete={handleDeleteEvent}
+              />
+              <BackupControls
+                onExport={handleExport}
+                onImport={handleImport}
+                onError={handleImportError}
+              />
+            </div>
+
             {/* 3D Scene Card */}
             <div className={styles.sceneCard} data-scene-area>
               <div className={styles.sceneContainer}>
                 <SceneErrorBoundary>
                   <WurstScene 
-                    hasActiveColleague={!!state.activeColleagueId}
+                    hasActiveColleague={!!event.activeColleagueId}
                     activeColleagueName={activeColleague?.name}
                     wurstCount={activeColleague?.count ?? 0}
                     brezelCount={activeColleague?.brezelCount ?? 0}
@@ -131,19 +347,19 @@ function App() {
             <div className={styles.controlsCard}>
               <div className={styles.controlsInner}>
                 <ModeToggle 
-                  mode={state.mode}
-                  onChange={(mode) => setState((prev) => ({ ...prev, mode }))}
+                  mode={event.mode}
+                  onChange={(mode) => updateEvent(() => ({ mode }))}
                 />
-                {state.mode === 'split' && (
+                {event.mode === 'split' && (
                   <div className={styles.priceInputs}>
                     <PriceInput 
-                      price={state.pricePerWurst}
-                      onChange={(pricePerWurst) => setState((prev) => ({ ...prev, pricePerWurst }))}
+                      price={event.pricePerWurst}
+                      onChange={(pricePerWurst) => updateEvent(() => ({ pricePerWurst }))}
                       label="Preis pro Wurst"
                     />
                     <PriceInput 
-                      price={state.pricePerBrezel || DEFAULT_BREZEL_PRICE}
-                      onChange={(pricePerBrezel) => setState((prev) => ({ ...prev, pricePerBrezel }))}
+                      price={event.pricePerBrezel || DEFAULT_BREZEL_PRICE}
+                      onChange={(pricePerBrezel) => updateEvent(() => ({ pricePerBrezel }))}
                       label="Preis pro Brezel"
                     />
                   </div>
@@ -153,10 +369,10 @@ function App() {
 
             {/* Summary Card */}
             <Summary 
-              colleagues={state.colleagues}
-              mode={state.mode}
-              pricePerWurst={state.pricePerWurst}
-              pricePerBrezel={state.pricePerBrezel}
+              colleagues={event.colleagues}
+              mode={event.mode}
+              items={items}
+              onExport={handleExportCsv}
             />
           </div>
 
@@ -173,7 +389,7 @@ function App() {
                 </h2>
                 <div className={styles.colleagueHeaderRight}>
                   <span className={styles.colleagueCount}>
-                    {state.colleagues.length}
+                    {event.colleagues.length}
                   </span>
                   <span className={`${styles.collapseIcon} ${isColleaguesCollapsed ? styles.collapsed : ''}`}>
                     ▼
@@ -184,15 +400,16 @@ function App() {
               {!isColleaguesCollapsed && (
                 <div className={styles.colleagueList} onClick={(e) => e.stopPropagation()}>
                 <ColleagueList 
-                  colleagues={state.colleagues}
-                  activeColleagueId={state.activeColleagueId}
-                  mode={state.mode}
-                  pricePerWurst={state.pricePerWurst}
-                  pricePerBrezel={state.pricePerBrezel || DEFAULT_BREZEL_PRICE}
+                  colleagues={event.colleagues}
+                  activeColleagueId={event.activeColleagueId}
+                  mode={event.mode}
+                  items={items}
                   sortMode={state.sortMode}
-                  onColleaguesChange={(colleagues) => setState((prev) => ({ ...prev, colleagues }))}
-                  onActiveChange={(activeColleagueId) => setState((prev) => ({ ...prev, activeColleagueId }))}
+                  onColleaguesChange={(colleagues) => updateEvent(() => ({ colleagues }))}
+                  onActiveChange={(activeColleagueId) => updateEvent(() => ({ activeColleagueId }))}
                   onSortModeChange={(sortMode) => setState((prev) => ({ ...prev, sortMode }))}
+                  onDelete={handleDeleteColleague}
+                  onReset={handleResetColleague}
                 />
               </div>
               )}
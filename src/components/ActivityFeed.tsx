@@ -0,0 +1,54 @@
+/**
+ * Activity Feed
+ *
+ * Collapsible card with what just happened in a shared session
+ * ("Anna hat sich eine Brezel genommen"), newest first.
+ */
+
+import { useState } from 'react';
+import type { Activity } from '../hooks/useActivityFeed';
+import styles from './ActivityFeed.module.css';
+
+interface ActivityFeedProps {
+  activities: Activity[];
+  // Card styling of the page, defaults to the Summary look
+  className?: string;
+}
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleTimeString('de-DE', { hour: '2-digit', minute: '2-digit' });
+
+export function ActivityFeed({ activities, className }: ActivityFeedProps) {
+  const [isCollapsed, setIsCollapsed] = useState(false);
+
+  return (
+    <div className={className ?? styles.card}>
+      <button
+        type="button"
+        className={styles.header}
+        onClick={() => setIsCollapsed((prev) => !prev)}
+        aria-expanded={!isCollapsed}
+      >
+        <h3 className={styles.title}>
+          <span className="truncate">Was gerade passiert</span>
+        </h3>
+        <span className={`${styles.collapseIcon} ${isCollapsed ? styles.collapsed : ''}`}>▼</span>
+      </button>
+
+      {!isCollapsed && (
+        activities.length === 0 ? (
+          <p className={styles.empty}>Noch nichts passiert - Änderungen erscheinen hier live</p>
+        ) : (
+          <ul className={styles.list} aria-live="polite">
+            {activities.map((activity) => (
+              <li key={activity.id} className={styles.activity}>
+                <span className={styles.text}>{activity.text}</span>
+                {activity.at && <span className={styles.time}>{formatTime(activity.at)}</span>}
+              </li>
+            ))}
+          </ul>
+        )
+      )}
+    </div>
+  );
+}
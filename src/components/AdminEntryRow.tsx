@@ -0,0 +1,181 @@
+/**
+ * Admin Entry Row
+ *
+ * One participant in the AdminPage table. In edit mode the admin can
+ * fix the name and counts, merge the entry into another one or delete it.
+ */
+
+import { useState } from 'react';
+import type { CatalogItem } from '../types';
+import type { Entry } from '../lib/database.types';
+import styles from './AdminEntryRow.module.css';
+
+// Security constants
+const MAX_NAME_LENGTH = 50;
+const MAX_COUNT = 999;
+
+interface AdminEntryRowProps {
+  entry: Entry;
+  items: CatalogItem[];
+  counts: Record<string, number>;
+  // null in INVITE mode (no cost column)
+  cost: number | null;
+  otherEntries: Entry[];
+  isBusy: boolean;
+  onSave: (name: string, counts: Record<string, number>) => Promise<boolean>;
+  onMerge: (targetEntryId: string) => Promise<boolean>;
+  onDelete: () => void;
+}
+
+export function AdminEntryRow({
+  entry,
+  items,
+  counts,
+  cost,
+  otherEntries,
+  isBusy,
+  onSave,
+  onMerge,
+  onDelete,
+}: AdminEntryRowProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [editName, setEditName] = useState(entry.display_name);
+  const [editCounts, setEditCounts] = useState<Record<string, number>>(counts);
+  const [mergeTargetId, setMergeTargetId] = useState('');
+
+  const startEditing = () => {
+    setEditName(entry.display_name);
+    setEditCounts(counts);
+    setMergeTargetId('');
+    setIsEditing(true);
+  };
+
+  const handleSave = async () => {
+    if (await onSave(editName.trim(), editCounts)) {
+      setIsEditing(false);
+    }
+  };
+
+  const handleMerge = async () => {
+    if (mergeTargetId && await onMerge(mergeTargetId)) {
+      setIsEditing(false);
+    }
+  };
+
+  const columnCount = items.length + (cost !== null ? 3 : 2);
+
+  if (!isEditing) {
+    return (
+      <tr>
+        <td>{entry.display_name}</td>
+        {items.map((item) => (
+          <td key={item.id}>{counts[item.id] ?? 0}</td>
+        ))}
+        {cost !== null && <td className={styles.costCell}>{cost.toFixed(2)} €</td>}
+        <td className={styles.actionCell}>
+          <button
+            type="button"
+            onClick={startEditing}
+            className={styles.iconButton}
+            title="Bearbeiten"
+            aria-label={`${entry.display_name} bearbeiten`}
+          >
+            ✏️
+          </button>
+        </td>
+      </tr>
+    );
+  }
+
+  return (
+    <>
+      <tr className={styles.editRow}>
+        <td>
+          <input
+            type="text"
+            value={editName}
+            onChange={(e) => setEditName(e.target.value.slice(0, MAX_NAME_LENGTH))}
+            maxLength={MAX_NAME_LENGTH}
+            className={styles.nameInput}
+            aria-label="Name"
+          />
+        </td>
+        {items.map((item) => (
+          <td key={item.id}>
+            <input
+              type="number"
+              min={0}
+              max={MAX_COUNT}
+              value={editCounts[item.id] ?? 0}
+              onChange={(e) => {
+                const value = Math.min(MAX_COUNT, Math.max(0, parseInt(e.target.value, 10) || 0));
+                setEditCounts((prev) => ({ ...prev, [item.id]: value }));
+              }}
+              className={styles.countInput}
+              aria-label={item.name}
+            />
+          </td>
+        ))}
+        {cost !== null && <td className={styles.costCell}>–</td>}
+        <td className={styles.actionCell}>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={isBusy || !editName.trim()}
+            className={styles.iconButton}
+            title="Speichern"
+          >
+            ✓
+          </button>
+          <button
+            type="button"
+            onClick={() => setIsEditing(false)}
+            disabled={isBusy}
+            className={styles.iconButton}
+            title="Abbrechen"
+          >
+            ✕
+          </button>
+        </td>
+      </tr>
+      <tr className={styles.editRow}>
+        <td colSpan={columnCount}>
+          <div className={styles.extraActions}>
+            {otherEntries.length > 0 && (
+              <div className={styles.mergeGroup}>
+                <select
+                  value={mergeTargetId}
+                  onChange={(e) => setMergeTargetId(e.target.value)}
+                  className={styles.select}
+                  aria-label="Zusammenführen mit"
+                >
+                  <option value="">Zusammenführen mit...</option>
+                  {otherEntries.map((other) => (
+                    <option key={other.id} value={other.id}>{other.display_name}</option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={handleMerge}
+                  disabled={isBusy || !mergeTargetId}
+                  className={styles.textButton}
+                  title="Zähler übertragen und diesen Eintrag entfernen"
+                >
+                  Zusammenführen
+                </button>
+              </div>
+            )}
+            <button
+              type="button"
+              onClick={onDelete}
+              disabled={isBusy}
+              className={styles.deleteButton}
+            >
+              Entfernen
+            </button>
+          </div>
+        </td>
+      </tr>
+    </>
+  );
+}
@@ -0,0 +1,99 @@
+/**
+ * Backup Controls
+ *
+ * Export of the whole offline state as a JSON file and import of such
+ * a file (from another browser or an older version), merged into the
+ * local Einstände or replacing them.
+ */
+
+import { useRef, useState } from 'react';
+import type { AppState } from '../types';
+import { MAX_BACKUP_BYTES, parseBackup, type ImportMode } from '../utils/backup';
+import styles from './BackupControls.module.css';
+
+interface BackupControlsProps {
+  onExport: () => void;
+  onImport: (state: AppState, mode: ImportMode) => void;
+  onError: (message: string) => void;
+}
+
+export function BackupControls({ onExport, onImport, onError }: BackupControlsProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pendingImport, setPendingImport] = useState<AppState | null>(null);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow picking the same file again
+    e.target.value = '';
+    if (!file) return;
+
+    if (file.size > MAX_BACKUP_BYTES) {
+      onError('Die Datei ist zu groß');
+      return;
+    }
+
+    let text: string;
+    try {
+      text = await file.text();
+    } catch {
+      onError('Die Datei konnte nicht gelesen werden');
+      return;
+    }
+
+    const { state, error } = parseBackup(text);
+    if (error || !state) {
+      onError(error ?? 'Die Datei konnte nicht gelesen werden');
+      return;
+    }
+    setPendingImport(state);
+  };
+
+  const handleChoice = (mode: ImportMode) => {
+    if (pendingImport) onImport(pendingImport, mode);
+    setPendingImport(null);
+  };
+
+  const eventCount = pendingImport?.events.length ?? 0;
+
+  return (
+    <div className={styles.container}>
+      <div className={styles.row}>
+        <button type="button" className={styles.linkButton} onClick={onExport}>
+          ⬇️ Sicherung exportieren
+        </button>
+        <button type="button" className={styles.linkButton} onClick={() => fileInputRef.current?.click()}>
+          ⬆️ Sicherung importieren
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className={styles.fileInput}
+          onChange={handleFileChange}
+          aria-hidden="true"
+          tabIndex={-1}
+        />
+      </div>
+
+      {pendingImport && (
+        <div className={styles.choice}>
+          <span>
+            {eventCount === 1 ? '1 Einstand' : `${eventCount} Einstände`} in der Datei. Zu den vorhandenen
+            hinzufügen oder alles hier ersetzen?
+          </span>
+          <div className={styles.choiceButtons}>
+            <button type="button" className={styles.button} onClick={() => handleChoice('merge')}>
+              Hinzufügen
+            </button>
+            <button type="button" className={`${styles.button} ${styles.dangerButton}`} onClick={() => handleChoice('replace')}>
+              Ersetzen
+            </button>
+            <button type="button" className={styles.button} onClick={() => setPendingImport(null)}>
+              Abbrechen
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
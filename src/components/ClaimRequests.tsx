@@ -0,0 +1,49 @@
+/**
+ * Claim Requests
+ *
+ * Open "Das bin ich" requests for existing entries. Shown to the device
+ * that owns the entry (SessionPage) and to the admin (AdminPage).
+ */
+
+import type { ClaimRequest } from '../lib/database.types';
+import styles from './ClaimRequests.module.css';
+
+interface ClaimRequestsProps {
+  requests: ClaimRequest[];
+  busyId: string | null;
+  onResolve: (requestId: string, approve: boolean) => void;
+}
+
+export function ClaimRequests({ requests, busyId, onResolve }: ClaimRequestsProps) {
+  if (requests.length === 0) return null;
+
+  return (
+    <ul className={styles.list}>
+      {requests.map((request) => (
+        <li key={request.id} className={styles.request}>
+          <span className={styles.message}>
+            Ein anderes Gerät möchte als <strong>{request.display_name}</strong> mitmachen.
+          </span>
+          <div className={styles.actions}>
+            <button
+              type="button"
+              onClick={() => onResolve(request.id, true)}
+              disabled={busyId === request.id}
+              className={styles.approveButton}
+            >
+              Bestätigen
+            </button>
+            <button
+              type="button"
+              onClick={() => onResolve(request.id, false)}
+              disabled={busyId === request.id}
+              className={styles.rejectButton}
+            >
+              Ablehnen
+            </button>
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -1,41 +1,53 @@
 import { useState } from 'react';
-import type { Colleague, AppMode } from '../types';
+import type { Colleague, AppMode, CatalogItem } from '../types';
 import { formatEuro } from '../utils/format';
+import { getItemCount, getColleagueCost } from '../utils/items';
+import { TransferCodePanel } from './TransferCodePanel';
+import type { TransferCode } from './TransferCodePanel';
 import styles from './ColleagueCard.module.css';
 
 interface ColleagueCardProps {
   colleague: Colleague;
   isActive: boolean;
   mode: AppMode;
-  pricePerWurst: number;
-  pricePerBrezel: number;
+  items: CatalogItem[];
   onSelect: () => void;
   onEdit: (name: string) => void;
   onDelete: () => void;
-  onDecrementWurst: () => void;
-  onDecrementBrezel: () => void;
+  onIncrement?: (itemId: string) => void;
+  onDecrement: (itemId: string) => void;
   onReset: () => void;
   readOnly?: boolean;
   highlighted?: boolean;
+  // Own entry in a shared session: create a code to move it to another device
+  onTransfer?: () => Promise<TransferCode | null>;
+  // Queued changes that haven't reached the server yet
+  pendingCount?: number;
+  // Has the shared session open right now
+  isOnline?: boolean;
 }
 
 export function ColleagueCard({
   colleague,
   isActive,
   mode,
-  pricePerWurst,
-  pricePerBrezel,
+  items,
   onSelect,
   onEdit,
   onDelete,
-  onDecrementWurst,
-  onDecrementBrezel,
+  onIncrement,
+  onDecrement,
   onReset,
   readOnly = false,
   highlighted = false,
+  onTransfer,
+  pendingCount = 0,
+  isOnline = false,
 }: ColleagueCardProps) {
   const [isEditing, setIsEditing] = useState(false);
   const [editName, setEditName] = useState(colleague.name);
+  const [transfer, setTransfer] = useState<TransferCode | null>(null);
+  const [isCreatingTransfer, setIsCreatingTransfer] = useState(false);
 
   const handleSave = () => {
     if (editName.trim()) {
@@ -60,7 +72,18 @@ export function ColleagueCard({
     }
   };
 
-  const totalPrice = (colleague.count * pricePerWurst) + ((colleague.brezelCount || 0) * pricePerBrezel);
+  const handleTransfer = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (!onTransfer) return;
+    setIsCreatingTransfer(true);
+    setTransfer(await onTransfer());
+    setIsCreatingTransfer(false);
+  };
+
+  const totalPrice = getColleagueCost(colleague, items);
+  const hasCounts = items.some((item) => getItemCount(colleague, item) > 0);
+  // Extras aren't clickable in the 3D scene, so they get their own + buttons
+  const extraItems = onIncrement ? items.filter((item) => item.kind === 'extra') : [];
 
   return (
     <div
@@ -98,21 +121,28 @@ export function ColleagueCard({
                 }}
                 title={readOnly ? undefined : "Doppelklick zum Bearbeiten"}
               >
+                {isOnline && <span className={styles.onlineDot} title="Schaut gerade zu" />}
                 {colleague.name}
+                {pendingCount > 0 && (
+                  <span
+                    className={styles.pendingBadge}
+                    title={`${pendingCount} ${pendingCount === 1 ? 'Änderung wartet' : 'Änderungen warten'} auf die Verbindung`}
+                  >
+                    ⏳ {pendingCount}
+                  </span>
+                )}
               </h3>
             )}
 
             <div className={styles.stats}>
-              <span className={styles.count}>{colleague.count}</span>
-              <span className={styles.label}>
-                {colleague.count === 1 ? 'Wurst' : 'Würste'}
-              </span>
-              <span className={styles.separator}>•</span>
-              <span className={styles.count}>{colleague.brezelCount || 0}</span>
-              <span className={styles.label}>
-                {(colleague.brezelCount || 0) === 1 ? 'Brezel' : 'Brezeln'}
-              </span>
-              {mode === 'split' && colleague.count > 0 && (
+              {items.map((item, index) => (
+                <span key={item.id} className={styles.stat} title={item.name}>
+                  {index > 0 && <span className={styles.separator}>•</span>}
+                  <span className={styles.count}>{getItemCount(colleague, item)}</span>
+                  <span className={styles.label} aria-label={item.name}>{item.emoji}</span>
+                </span>
+              ))}
+              {mode === 'split' && hasCounts && (
                 <span className={styles.price}>({formatEuro(totalPrice)})</span>
               )}
             </div>
@@ -132,47 +162,65 @@ export function ColleagueCard({
           )}
         </div>
 
-        {!readOnly && isActive && (colleague.count > 0 || (colleague.brezelCount || 0) > 0) && (
+        {!readOnly && isActive && (hasCounts || extraItems.length > 0) && (
           <div className={styles.actionRow}>
-            {colleague.count > 0 && (
+            {extraItems.map((item) => (
               <button
+                key={`inc-${item.id}`}
                 type="button"
                 onClick={(e) => {
                   e.stopPropagation();
-                  onDecrementWurst();
+                  onIncrement?.(item.id);
                 }}
-                className={`${styles.smallButton} ${styles.decrementButton}`}
-                title="Wurst entfernen"
+                className={`${styles.smallButton} ${styles.incrementButton}`}
+                title={`${item.name} hinzufügen`}
               >
-                - 🌭
+                + {item.emoji}
               </button>
-            )}
-            {(colleague.brezelCount || 0) > 0 && (
+            ))}
+            {items.filter((item) => getItemCount(colleague, item) > 0).map((item) => (
               <button
+                key={`dec-${item.id}`}
                 type="button"
                 onClick={(e) => {
                   e.stopPropagation();
-                  onDecrementBrezel();
+                  onDecrement(item.id);
                 }}
                 className={`${styles.smallButton} ${styles.decrementButton}`}
-                title="Brezel entfernen"
+                title={`${item.name} entfernen`}
               >
-                - 🥨
+                - {item.emoji}
+              </button>
+            ))}
+            {hasCounts && (
+              <button
+                type="button"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onReset();
+                }}
+                className={`${styles.smallButton} ${styles.resetButton}`}
+                title="Auf 0 setzen"
+              >
+                ↺
               </button>
             )}
-            <button
-              type="button"
-              onClick={(e) => {
-                e.stopPropagation();
-                onReset();
-              }}
-              className={`${styles.smallButton} ${styles.resetButton}`}
-              title="Auf 0 setzen"
-            >
-              ↺
-            </button>
           </div>
         )}
+
+        {onTransfer && (transfer ? (
+          <TransferCodePanel transfer={transfer} onClose={() => setTransfer(null)} />
+        ) : (
+          <button
+            type="button"
+            onClick={handleTransfer}
+            disabled={isCreatingTransfer}
+            className={`${styles.smallButton} ${styles.transferButton}`}
+            title="Code für ein anderes Gerät erstellen"
+          >
+            {isCreatingTransfer ? '...' : '📱 Auf anderes Gerät übertragen'}
+          </button>
+        ))}
       </div>
     </div>
   );
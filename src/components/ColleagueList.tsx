@@ -1,6 +1,8 @@
 import { useState, useMemo } from 'react';
-import type { Colleague, AppMode, SortMode } from '../types';
+import type { Colleague, AppMode, SortMode, CatalogItem } from '../types';
 import { ColleagueCard } from './ColleagueCard';
+import type { TransferCode } from './TransferCodePanel';
+import { adjustItemCount, resetItemCounts } from '../utils/items';
 import { v4 as uuidv4 } from 'uuid';
 import styles from './ColleagueList.module.css';
 
@@ -11,14 +13,17 @@ interface ColleagueListProps {
   colleagues: Colleague[];
   activeColleagueId: string | null;
   mode: AppMode;
-  pricePerWurst: number;
-  pricePerBrezel: number;
+  items: CatalogItem[];
   sortMode: SortMode;
   onColleaguesChange: (colleagues: Colleague[]) => void;
   onActiveChange: (id: string | null) => void;
   onSortModeChange: (mode: SortMode) => void;
   readOnly?: boolean;
+  // Per-card write access (e.g. only the own entry in a shared session)
+  canEdit?: (id: string) => boolean;
   highlightId?: string;
+  // Offered on the highlighted (own) card only
+  onTransfer?: (id: string) => Promise<TransferCode | null>;
   showJoinForm?: boolean;
   joinFormProps?: {
     inputValue: string;
@@ -26,28 +31,37 @@ interface ColleagueListProps {
     onJoin: () => void;
     isJoining: boolean;
   };
-  onDecrementWurst?: (id: string) => void;
-  onDecrementBrezel?: (id: string) => void;
+  onIncrement?: (id: string, itemId: string) => void;
+  onDecrement?: (id: string, itemId: string) => void;
   onReset?: (id: string) => void;
+  onDelete?: (id: string) => void;
+  // Changes per card that haven't reached the server yet
+  pendingCount?: (id: string) => number;
+  // Shared session: who has it open right now
+  isOnline?: (id: string) => boolean;
 }
 
 export function ColleagueList({
   colleagues,
   activeColleagueId,
   mode,
-  pricePerWurst,
-  pricePerBrezel,
+  items,
   sortMode,
   onColleaguesChange,
   onActiveChange,
   onSortModeChange,
   readOnly = false,
+  canEdit,
   highlightId,
+  onTransfer,
   showJoinForm = false,
   joinFormProps,
-  onDecrementWurst,
-  onDecrementBrezel,
+  onIncrement,
+  onDecrement,
   onReset,
+  onDelete,
+  pendingCount,
+  isOnline,
 }: ColleagueListProps) {
   const [newName, setNewName] = useState('');
 
@@ -96,34 +110,16 @@ export function ColleagueList({
     }
   };
 
-  const handleDecrementWurst = (id: string) => {
+  const handleAdjust = (id: string, itemId: string, delta: number) => {
+    const item = items.find((i) => i.id === itemId);
+    if (!item) return;
     onColleaguesChange(
-      colleagues.map((c) => {
-        if (c.id === id) {
-          const newCount = Math.max(0, c.count - 1);
-          return { ...c, count: newCount };
-        }
-        return c;
-      })
-    );
-  };
-
-  const handleDecrementBrezel = (id: string) => {
-    onColleaguesChange(
-      colleagues.map((c) => {
-        if (c.id === id) {
-          const newBrezelCount = Math.max(0, (c.brezelCount || 0) - 1);
-          return { ...c, brezelCount: newBrezelCount };
-        }
-        return c;
-      })
+      colleagues.map((c) => (c.id === id ? adjustItemCount(c, item, delta) : c))
     );
   };
 
   const handleReset = (id: string) => {
-    onColleaguesChange(
-      colleagues.map((c) => (c.id === id ? { ...c, count: 0, brezelCount: 0 } : c))
-    );
+    onColleaguesChange(colleagues.map((c) => (c.id === id ? resetItemCounts(c) : c)));
   };
 
   return (
@@ -219,16 +215,18 @@ export function ColleagueList({
               colleague={colleague}
               isActive={colleague.id === activeColleagueId}
               mode={mode}
-              pricePerWurst={pricePerWurst}
-              pricePerBrezel={pricePerBrezel}
+              items={items}
               onSelect={() => onActiveChange(colleague.id)}
               onEdit={(name) => handleEdit(colleague.id, name)}
-              onDelete={() => handleDelete(colleague.id)}
-              onDecrementWurst={() => onDecrementWurst ? onDecrementWurst(colleague.id) : handleDecrementWurst(colleague.id)}
-              onDecrementBrezel={() => onDecrementBrezel ? onDecrementBrezel(colleague.id) : handleDecrementBrezel(colleague.id)}
+              onDelete={() => onDelete ? onDelete(colleague.id) : handleDelete(colleague.id)}
+              onIncrement={(itemId) => onIncrement ? onIncrement(colleague.id, itemId) : handleAdjust(colleague.id, itemId, 1)}
+              onDecrement={(itemId) => onDecrement ? onDecrement(colleague.id, itemId) : handleAdjust(colleague.id, itemId, -1)}
               onReset={() => onReset ? onReset(colleague.id) : handleReset(colleague.id)}
-              readOnly={readOnly}
+              readOnly={readOnly || (canEdit ? !canEdit(colleague.id) : false)}
               highlighted={colleague.id === highlightId}
+              onTransfer={onTransfer && colleague.id === highlightId ? () => onTransfer(colleague.id) : undefined}
+              pendingCount={pendingCount?.(colleague.id)}
+              isOnline={isOnline?.(colleague.id)}
             />
           ))
         )}
@@ -0,0 +1,33 @@
+/**
+ * Connection Indicator
+ *
+ * Small live/offline badge for the header of shared session pages.
+ */
+
+import type { ConnectionStatus } from '../lib/backend';
+import styles from './ConnectionIndicator.module.css';
+
+const LABELS: Record<ConnectionStatus, string> = {
+  connected: 'Live',
+  connecting: 'Verbinde...',
+  disconnected: 'Offline',
+};
+
+const TITLES: Record<ConnectionStatus, string> = {
+  connected: 'Änderungen erscheinen sofort',
+  connecting: 'Live-Verbindung wird aufgebaut',
+  disconnected: 'Keine Live-Verbindung - wird automatisch neu verbunden',
+};
+
+interface ConnectionIndicatorProps {
+  status: ConnectionStatus;
+}
+
+export function ConnectionIndicator({ status }: ConnectionIndicatorProps) {
+  return (
+    <span className={`${styles.indicator} ${styles[status]}`} title={TITLES[status]} role="status">
+      <span className={styles.dot} aria-hidden="true" />
+      {LABELS[status]}
+    </span>
+  );
+}
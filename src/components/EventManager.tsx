@@ -0,0 +1,173 @@
+/**
+ * Event Manager
+ *
+ * Local Einstände of the offline mode: switch between them, start a
+ * new one, rename, archive (and restore) or delete.
+ */
+
+import { useState } from 'react';
+import type { OfflineEvent } from '../types';
+import { MAX_EVENT_NAME_LENGTH } from '../utils/offlineEvents';
+import styles from './EventManager.module.css';
+
+interface EventManagerProps {
+  events: OfflineEvent[];
+  activeEventId: string | null;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, name: string) => void;
+  onSetArchived: (id: string, archived: boolean) => void;
+  onDelete: (id: string) => void;
+}
+
+const formatDate = (iso: string) => new Date(iso).toLocaleDateString('de-DE');
+
+const byNewest = (a: OfflineEvent, b: OfflineEvent) => b.createdAt.localeCompare(a.createdAt);
+
+export function EventManager({
+  events,
+  activeEventId,
+  onSelect,
+  onCreate,
+  onRename,
+  onSetArchived,
+  onDelete,
+}: EventManagerProps) {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [nameInput, setNameInput] = useState('');
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+  const [showArchive, setShowArchive] = useState(false);
+
+  const openEvents = events.filter((e) => !e.archived).sort(byNewest);
+  const archivedEvents = events.filter((e) => e.archived).sort(byNewest);
+  const activeEvent = events.find((e) => e.id === activeEventId);
+
+  const startRename = () => {
+    if (!activeEvent) return;
+    setNameInput(activeEvent.name);
+    setIsRenaming(true);
+  };
+
+  const saveRename = () => {
+    const trimmedName = nameInput.trim().slice(0, MAX_EVENT_NAME_LENGTH);
+    if (activeEvent && trimmedName) onRename(activeEvent.id, trimmedName);
+    setIsRenaming(false);
+  };
+
+  const renderDeleteConfirm = (event: OfflineEvent) => (
+    <div className={styles.confirm}>
+      <span>„{event.name}“ mit allen Zählern löschen?</span>
+      <div className={styles.confirmButtons}>
+        <button
+          type="button"
+          className={`${styles.button} ${styles.dangerButton}`}
+          onClick={() => {
+            onDelete(event.id);
+            setConfirmDeleteId(null);
+          }}
+        >
+          Löschen
+        </button>
+        <button type="button" className={styles.button} onClick={() => setConfirmDeleteId(null)}>
+          Abbrechen
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className={styles.container}>
+      {isRenaming ? (
+        <div className={styles.row}>
+          <input
+            type="text"
+            className={styles.input}
+            value={nameInput}
+            onChange={(e) => setNameInput(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') saveRename();
+              if (e.key === 'Escape') setIsRenaming(false);
+            }}
+            maxLength={MAX_EVENT_NAME_LENGTH}
+            aria-label="Name des Einstands"
+            autoFocus
+          />
+          <button type="button" className={styles.button} onClick={saveRename}>
+            Speichern
+          </button>
+        </div>
+      ) : (
+        <div className={styles.row}>
+          <select
+            className={styles.select}
+            value={activeEventId ?? ''}
+            onChange={(e) => {
+              onSelect(e.target.value);
+              setConfirmDeleteId(null);
+            }}
+            aria-label="Einstand auswählen"
+          >
+            {openEvents.map((event) => (
+              <option key={event.id} value={event.id}>
+                {event.name} ({formatDate(event.createdAt)})
+              </option>
+            ))}
+          </select>
+          <button type="button" className={styles.button} onClick={onCreate} title="Neuen Einstand anlegen">
+            + Neu
+          </button>
+        </div>
+      )}
+
+      {activeEvent && !isRenaming && (
+        <div className={styles.actions}>
+          <button type="button" className={styles.linkButton} onClick={startRename}>
+            ✏️ Umbenennen
+          </button>
+          <button type="button" className={styles.linkButton} onClick={() => onSetArchived(activeEvent.id, true)}>
+            📦 Archivieren
+          </button>
+          <button type="button" className={styles.linkButton} onClick={() => setConfirmDeleteId(activeEvent.id)}>
+            🗑️ Löschen
+          </button>
+        </div>
+      )}
+
+      {activeEvent && confirmDeleteId === activeEvent.id && renderDeleteConfirm(activeEvent)}
+
+      {archivedEvents.length > 0 && (
+        <div className={styles.archive}>
+          <button
+            type="button"
+            className={styles.linkButton}
+            onClick={() => setShowArchive((prev) => !prev)}
+            aria-expanded={showArchive}
+          >
+            {showArchive ? '▾' : '▸'} Archiv ({archivedEvents.length})
+          </button>
+
+          {showArchive && (
+            <ul className={styles.archiveList}>
+              {archivedEvents.map((event) => (
+                <li key={event.id} className={styles.archiveItem}>
+                  <div className={styles.archiveRow}>
+                    <span className={styles.archiveName}>
+                      {event.name} <span className={styles.date}>{formatDate(event.createdAt)}</span>
+                    </span>
+                    <button type="button" className={styles.linkButton} onClick={() => onSetArchived(event.id, false)}>
+                      Wiederherstellen
+                    </button>
+                    <button type="button" className={styles.linkButton} onClick={() => setConfirmDeleteId(event.id)}>
+                      Löschen
+                    </button>
+                  </div>
+                  {confirmDeleteId === event.id && renderDeleteConfirm(event)}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
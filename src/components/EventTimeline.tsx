@@ -0,0 +1,166 @@
+/**
+ * Event Timeline
+ *
+ * Admin view of the audit log (einstand_events):
+ * - Newest first, filterable by event type and participant
+ * - Single events can be reverted
+ */
+
+import { useState, useMemo } from 'react';
+import type { CatalogItem } from '../types';
+import type { EinstandEvent, EventType } from '../lib/database.types';
+import styles from './EventTimeline.module.css';
+
+interface EventTimelineProps {
+  events: EinstandEvent[];
+  items: CatalogItem[];
+  onRevert: (eventId: string) => void;
+  revertingId: string | null;
+}
+
+interface EventPayload {
+  display_name?: string;
+  before?: string;
+  after?: string;
+  reverted_type?: EventType;
+  merged_into?: string;
+  merged_from?: string;
+}
+
+const EVENT_LABELS: Record<EventType, string> = {
+  JOIN: 'Beigetreten',
+  INCREMENT: 'Hinzugefügt',
+  DECREMENT: 'Entfernt',
+  RESET: 'Zurückgesetzt',
+  RENAME: 'Umbenannt',
+  DELETE: 'Gelöscht',
+  REVERT: 'Rückgängig',
+};
+
+const getPayload = (event: EinstandEvent) => (event.payload ?? {}) as EventPayload;
+
+function describeEvent(event: EinstandEvent, items: CatalogItem[]): string {
+  const payload = getPayload(event);
+  const name = payload.display_name ?? 'Unbekannt';
+  const item = items.find((i) => i.id === event.item_id);
+  const itemLabel = item ? `${item.emoji} ${item.name}` : 'Artikel';
+  const delta = event.delta ?? 0;
+
+  switch (event.event_type) {
+    case 'JOIN':
+      return `${name} ist beigetreten`;
+    case 'INCREMENT':
+      return payload.merged_from
+        ? `+${delta} ${itemLabel} für ${name} (von ${payload.merged_from})`
+        : `+${delta} ${itemLabel} für ${name}`;
+    case 'DECREMENT':
+      return `${delta} ${itemLabel} für ${name}`;
+    case 'RESET':
+      return `${name} zurückgesetzt`;
+    case 'RENAME':
+      return `${payload.before ?? '?'} → ${payload.after ?? '?'}`;
+    case 'DELETE':
+      return payload.merged_into
+        ? `${name} mit ${payload.merged_into} zusammengeführt`
+        : `${name} entfernt`;
+    case 'REVERT':
+      return `${payload.reverted_type ? EVENT_LABELS[payload.reverted_type] : 'Änderung'} bei ${name} rückgängig gemacht`;
+  }
+}
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleTimeString('de-DE', { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+export function EventTimeline({ events, items, onRevert, revertingId }: EventTimelineProps) {
+  const [typeFilter, setTypeFilter] = useState<EventType | 'ALL'>('ALL');
+  const [entryFilter, setEntryFilter] = useState<string>('ALL');
+
+  const revertedIds = useMemo(
+    () => new Set(events.map((e) => e.reverts_event_id).filter((id): id is string => !!id)),
+    [events]
+  );
+
+  // Participants seen in the log (latest name wins - events are newest first)
+  const participants = useMemo(() => {
+    const names = new Map<string, string>();
+    for (const event of events) {
+      const name = getPayload(event).display_name;
+      if (event.entry_id && name && !names.has(event.entry_id)) {
+        names.set(event.entry_id, name);
+      }
+    }
+    return [...names.entries()].sort((a, b) => a[1].localeCompare(b[1], 'de'));
+  }, [events]);
+
+  const filteredEvents = events.filter(
+    (e) =>
+      (typeFilter === 'ALL' || e.event_type === typeFilter) &&
+      (entryFilter === 'ALL' || e.entry_id === entryFilter)
+  );
+
+  return (
+    <div className={styles.container}>
+      <div className={styles.filters}>
+        <select
+          value={typeFilter}
+          onChange={(e) => setTypeFilter(e.target.value as EventType | 'ALL')}
+          className={styles.select}
+          aria-label="Nach Aktion filtern"
+        >
+          <option value="ALL">Alle Aktionen</option>
+          {(Object.keys(EVENT_LABELS) as EventType[]).map((type) => (
+            <option key={type} value={type}>{EVENT_LABELS[type]}</option>
+          ))}
+        </select>
+        <select
+          value={entryFilter}
+          onChange={(e) => setEntryFilter(e.target.value)}
+          className={styles.select}
+          aria-label="Nach Teilnehmer filtern"
+        >
+          <option value="ALL">Alle Teilnehmer</option>
+          {participants.map(([id, name]) => (
+            <option key={id} value={id}>{name}</option>
+          ))}
+        </select>
+      </div>
+
+      {filteredEvents.length === 0 ? (
+        <p className={styles.empty}>Keine Einträge</p>
+      ) : (
+        <ul className={styles.list}>
+          {filteredEvents.map((event) => {
+            const isReverted = revertedIds.has(event.id);
+            const canRevert = event.event_type !== 'REVERT' && !isReverted;
+            return (
+              <li key={event.id} className={`${styles.event} ${isReverted ? styles.eventReverted : ''}`}>
+                <span className={styles.time}>{formatTime(event.created_at)}</span>
+                <div className={styles.body}>
+                  <span className={styles.description}>{describeEvent(event, items)}</span>
+                  <span className={styles.meta}>
+                    von {event.actor || 'Unbekannt'}
+                    {event.actor_entry_id && (
+                      <span title={event.actor_entry_id}> · Gerät {event.actor_entry_id.slice(0, 8)}</span>
+                    )}
+                    {isReverted && <span className={styles.revertedBadge}>rückgängig gemacht</span>}
+                  </span>
+                </div>
+                {canRevert && (
+                  <button
+                    type="button"
+                    onClick={() => onRevert(event.id)}
+                    disabled={revertingId !== null}
+                    className={styles.revertButton}
+                    title="Diese Änderung rückgängig machen"
+                  >
+                    {revertingId === event.id ? '...' : '↶'}
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { CatalogItem } from '../types';
+import { PriceInput } from './PriceInput';
+import {
+  ITEM_PRESETS,
+  MAX_ITEMS,
+  MAX_ITEM_NAME_LENGTH,
+  MAX_ITEM_UNIT_LENGTH,
+} from '../utils/items';
+import styles from './ItemCatalogEditor.module.css';
+
+interface ItemCatalogEditorProps {
+  items: CatalogItem[];
+  onChange: (items: CatalogItem[]) => void;
+  showPrices: boolean;
+}
+
+export function ItemCatalogEditor({ items, onChange, showPrices }: ItemCatalogEditorProps) {
+  const updateItem = (id: string, changes: Partial<CatalogItem>) => {
+    onChange(items.map((item) => (item.id === id ? { ...item, ...changes } : item)));
+  };
+
+  const removeItem = (id: string) => {
+    onChange(items.filter((item) => item.id !== id));
+  };
+
+  const addItem = (template: Omit<CatalogItem, 'id'>) => {
+    if (items.length >= MAX_ITEMS) return;
+    onChange([...items, { ...template, id: uuidv4() }]);
+  };
+
+  const availablePresets = ITEM_PRESETS.filter(
+    (preset) => !items.some((item) => item.name.toLowerCase() === preset.name.toLowerCase())
+  );
+
+  return (
+    <div className={styles.container}>
+      {items.map((item) => (
+        <div key={item.id} className={styles.row}>
+          <div className={styles.fields}>
+            <input
+              type="text"
+              value={item.emoji}
+              onChange={(e) => updateItem(item.id, { emoji: e.target.value.slice(0, 4) })}
+              className={`${styles.input} ${styles.emojiInput}`}
+              aria-label="Emoji"
+            />
+            <input
+              type="text"
+              value={item.name}
+              onChange={(e) => updateItem(item.id, { name: e.target.value.slice(0, MAX_ITEM_NAME_LENGTH) })}
+              placeholder="Name"
+              maxLength={MAX_ITEM_NAME_LENGTH}
+              className={`${styles.input} ${styles.nameInput}`}
+              aria-label="Name"
+            />
+            <input
+              type="text"
+              value={item.unit}
+              onChange={(e) => updateItem(item.id, { unit: e.target.value.slice(0, MAX_ITEM_UNIT_LENGTH) })}
+              placeholder="Einheit"
+              maxLength={MAX_ITEM_UNIT_LENGTH}
+              className={`${styles.input} ${styles.unitInput}`}
+              aria-label="Einheit"
+            />
+            <button
+              type="button"
+              onClick={() => removeItem(item.id)}
+              disabled={items.length <= 1}
+              className={styles.removeButton}
+              title="Entfernen"
+            >
+              ✕
+            </button>
+          </div>
+          {showPrices && (
+            <PriceInput
+              price={item.price}
+              onChange={(price) => updateItem(item.id, { price })}
+              label={`Preis pro ${item.unit || 'Stück'}`}
+            />
+          )}
+        </div>
+      ))}
+
+      {items.length < MAX_ITEMS && (
+        <div className={styles.addRow}>
+          {availablePresets.map((preset) => (
+            <button
+              key={preset.name}
+              type="button"
+              onClick={() => addItem(preset)}
+              className={styles.presetButton}
+            >
+              + {preset.emoji} {preset.name}
+            </button>
+          ))}
+          <button
+            type="button"
+            onClick={() => addItem({ name: '', emoji: '🍽️', unit: 'Stück', price: 0, kind: 'extra' })}
+            className={styles.presetButton}
+          >
+            + Eigener Artikel
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+/**
+ * Presence
+ *
+ * Who has a shared session open right now: the "N schauen zu" counter
+ * for the header and the list for the admin, which also shows how many
+ * are looking without having joined yet.
+ */
+
+import type { Viewer } from '../lib/backend';
+import styles from './PresenceList.module.css';
+
+interface ViewerCountProps {
+  viewers: Viewer[];
+}
+
+export function ViewerCount({ viewers }: ViewerCountProps) {
+  if (viewers.length === 0) return null;
+
+  return (
+    <span className={styles.count} title="Haben den Einstand gerade offen">
+      👀 {viewers.length} {viewers.length === 1 ? 'schaut' : 'schauen'} zu
+    </span>
+  );
+}
+
+interface PresenceListProps {
+  viewers: Viewer[];
+}
+
+export function PresenceList({ viewers }: PresenceListProps) {
+  const named = viewers
+    .filter((v) => v.entryId)
+    .sort((a, b) => (a.displayName ?? '').localeCompare(b.displayName ?? '', 'de'));
+  const anonymous = viewers.length - named.length;
+
+  if (viewers.length === 0) {
+    return <p className={styles.empty}>Gerade schaut niemand zu</p>;
+  }
+
+  return (
+    <div>
+      {named.length > 0 && (
+        <ul className={styles.list}>
+          {named.map((viewer) => (
+            <li key={viewer.entryId} className={styles.viewer}>
+              <span className={styles.dot} aria-hidden="true" />
+              {viewer.displayName}
+            </li>
+          ))}
+        </ul>
+      )}
+      {anonymous > 0 && (
+        <p className={styles.anonymous}>
+          {anonymous === 1
+            ? '1 weitere Person schaut zu, ist aber noch nicht beigetreten'
+            : `${anonymous} weitere schauen zu, sind aber noch nicht beigetreten`}
+        </p>
+      )}
+    </div>
+  );
+}
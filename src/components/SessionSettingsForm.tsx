@@ -0,0 +1,81 @@
+/**
+ * Session Settings Form
+ *
+ * Edits title, mode and item catalog of an existing shared session (AdminPage).
+ */
+
+import { useState } from 'react';
+import type { CatalogItem } from '../types';
+import type { SessionMode } from '../lib/database.types';
+import { ModeToggle } from './ModeToggle';
+import { ItemCatalogEditor } from './ItemCatalogEditor';
+import styles from './SessionSettingsForm.module.css';
+
+// Security constants
+const MAX_TITLE_LENGTH = 100;
+
+export interface SessionSettings {
+  title: string;
+  mode: SessionMode;
+  items: CatalogItem[];
+}
+
+interface SessionSettingsFormProps {
+  initial: SessionSettings;
+  isSaving: boolean;
+  onSave: (settings: SessionSettings) => void;
+  onCancel: () => void;
+}
+
+export function SessionSettingsForm({ initial, isSaving, onSave, onCancel }: SessionSettingsFormProps) {
+  const [title, setTitle] = useState(initial.title);
+  const [mode, setMode] = useState<SessionMode>(initial.mode);
+  const [items, setItems] = useState<CatalogItem[]>(initial.items);
+
+  const isValid = title.trim().length > 0 && items.length > 0 && items.every((item) => item.name.trim());
+
+  return (
+    <div className={styles.form}>
+      <div className={styles.field}>
+        <label htmlFor="session-title" className={styles.label}>Titel</label>
+        <input
+          id="session-title"
+          type="text"
+          value={title}
+          onChange={(e) => setTitle(e.target.value.slice(0, MAX_TITLE_LENGTH))}
+          maxLength={MAX_TITLE_LENGTH}
+          autoComplete="off"
+          className={styles.input}
+        />
+      </div>
+
+      <div className={styles.field}>
+        <label className={styles.label}>Kosten</label>
+        <ModeToggle
+          mode={mode === 'SPLIT' ? 'split' : 'invite'}
+          onChange={(appMode) => setMode(appMode === 'split' ? 'SPLIT' : 'INVITE')}
+        />
+      </div>
+
+      <div className={styles.field}>
+        <label className={styles.label}>Angebot</label>
+        <ItemCatalogEditor items={items} onChange={setItems} showPrices={mode === 'SPLIT'} />
+        <p className={styles.hint}>Bereits gezählte Artikel können nicht entfernt werden.</p>
+      </div>
+
+      <div className={styles.actions}>
+        <button
+          type="button"
+          onClick={() => onSave({ title: title.trim(), mode, items })}
+          disabled={isSaving || !isValid}
+          className={styles.saveButton}
+        >
+          {isSaving ? '...' : 'Speichern'}
+        </button>
+        <button type="button" onClick={onCancel} disabled={isSaving} className={styles.cancelButton}>
+          Abbrechen
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,43 +1,27 @@
-import type { Colleague, AppMode } from '../types';
+import type { Colleague, AppMode, CatalogItem } from '../types';
 import { formatEuro } from '../utils/format';
+import { getItemTotal, getMustardEstimate } from '../utils/items';
 import styles from './Summary.module.css';
 
 interface SummaryProps {
   colleagues: Colleague[];
   mode: AppMode;
-  pricePerWurst: number;
-  pricePerBrezel: number;
+  items: CatalogItem[];
+  // Offers the CSV download in the header
+  onExport?: () => void;
 }
 
-export function Summary({ colleagues, mode, pricePerWurst, pricePerBrezel }: SummaryProps) {
-  const totalWurst = colleagues.reduce((sum, c) => sum + c.count, 0);
-  const totalBrezeln = colleagues.reduce((sum, c) => sum + (c.brezelCount || 0), 0);
+export function Summary({ colleagues, mode, items, onExport }: SummaryProps) {
+  const itemTotals = items.map((item) => ({ item, total: getItemTotal(colleagues, item) }));
+  const totalWurst = itemTotals
+    .filter(({ item }) => item.kind === 'wurst')
+    .reduce((sum, { total }) => sum + total, 0);
+  const hasWurstItem = items.some((item) => item.kind === 'wurst');
   
-  // Senf-Berechnung: Pro 2 Würste ca. 45g Senf (Durchschnitt von 40-50g)
-  const senfGramsNeeded = Math.ceil(totalWurst / 2) * 45;
-  
-  // Gläser optimiert berechnen (1ml ≈ 1g für Senf)
-  // Bevorzuge 335ml Gläser wenn möglich
-  const jar335ml = 335;
-  const jar200ml = 200;
-  const price335ml = 2.50;
-  const price200ml = 2.00;
-  
-  let jars335 = 0;
-  let jars200 = 0;
-  let remainingGrams = senfGramsNeeded;
-  
-  // Fülle mit 335ml Gläsern soweit möglich
-  jars335 = Math.floor(remainingGrams / jar335ml);
-  remainingGrams = remainingGrams % jar335ml;
-  
-  // Rest mit 200ml Gläsern auffüllen
-  if (remainingGrams > 0) {
-    jars200 = Math.ceil(remainingGrams / jar200ml);
-  }
-  
-  const senfPrice = (jars335 * price335ml) + (jars200 * price200ml);
-  const totalPrice = (totalWurst * (pricePerWurst || 0)) + (totalBrezeln * (pricePerBrezel || 0)) + (mode === 'split' ? senfPrice : 0);
+  const { grams: senfGramsNeeded, jars335, jars200, jar335Price, jar200Price, price: senfPrice } =
+    getMustardEstimate(totalWurst);
+  const itemsPrice = itemTotals.reduce((sum, { item, total }) => sum + total * (item.price || 0), 0);
+  const totalPrice = itemsPrice + (mode === 'split' ? senfPrice : 0);
 
   return (
     <div className={styles.card}>
@@ -45,18 +29,25 @@ export function Summary({ colleagues, mode, pricePerWurst, pricePerBrezel }: Sum
         <h3 className={styles.title}>
           <span className="truncate">Zusammenfassung</span>
         </h3>
+        {onExport && (
+          <button
+            type="button"
+            className={styles.exportButton}
+            onClick={onExport}
+            title="Teilnehmer und Kosten als CSV (für Excel)"
+          >
+            📊 CSV
+          </button>
+        )}
       </div>
 
       <div className={styles.stats}>
-        <div className={styles.statRow}>
-          <span className={styles.statLabel}>Gesamt Würste:</span>
-          <span className={styles.statValue}>{totalWurst}</span>
-        </div>
-
-        <div className={styles.statRow}>
-          <span className={styles.statLabel}>Gesamt Brezeln:</span>
-          <span className={styles.statValue}>{totalBrezeln}</span>
-        </div>
+        {itemTotals.map(({ item, total }) => (
+          <div key={item.id} className={styles.statRow}>
+            <span className={styles.statLabel}>{item.emoji} {item.name}:</span>
+            <span className={styles.statValue}>{total}</span>
+          </div>
+        ))}
 
         {totalWurst > 0 && (
           <>
@@ -69,12 +60,12 @@ export function Summary({ colleagues, mode, pricePerWurst, pricePerBrezel }: Sum
               <div className={styles.senfDetails}>
                 {jars335 > 0 && (
                   <div className={styles.senfItem}>
-                    {jars335}× 335ml Glas ({formatEuro(jars335 * price335ml)})
+                    {jars335}× 335ml Glas ({formatEuro(jars335 * jar335Price)})
                   </div>
                 )}
                 {jars200 > 0 && (
                   <div className={styles.senfItem}>
-                    {jars200}× 200ml Glas ({formatEuro(jars200 * price200ml)})
+                    {jars200}× 200ml Glas ({formatEuro(jars200 * jar200Price)})
                   </div>
                 )}
               </div>
@@ -91,7 +82,7 @@ export function Summary({ colleagues, mode, pricePerWurst, pricePerBrezel }: Sum
           </div>
         )}
 
-        {colleagues.length > 0 && (
+        {colleagues.length > 0 && hasWurstItem && (
           <div className={styles.divider}>
             <span className={styles.avgText}>
               Ø {(totalWurst / colleagues.length).toFixed(1)} Würste pro Person
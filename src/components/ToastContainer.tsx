@@ -29,6 +29,19 @@ export function ToastContainer({ toasts, onDismiss }: ToastContainerProps) {
           onClick={() => onDismiss(toast.id)}
         >
           <span className={styles.message}>{toast.message}</span>
+          {toast.action && (
+            <button
+              type="button"
+              className={styles.actionButton}
+              onClick={(e) => {
+                e.stopPropagation();
+                toast.action?.onClick();
+                onDismiss(toast.id);
+              }}
+            >
+              {toast.action.label}
+            </button>
+          )}
         </div>
       ))}
     </div>
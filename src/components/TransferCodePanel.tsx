@@ -0,0 +1,40 @@
+/**
+ * Transfer Code Panel
+ *
+ * One-time claim code for moving the own entry to another device,
+ * as text and as QR code (the QR code opens the session and redeems it).
+ */
+
+import { QRCodeSVG } from 'qrcode.react';
+import styles from './TransferCodePanel.module.css';
+
+export interface TransferCode {
+  code: string;
+  url: string;
+}
+
+interface TransferCodePanelProps {
+  transfer: TransferCode;
+  onClose: () => void;
+}
+
+// "ABCDEFGH" -> "ABCD-EFGH" (easier to type)
+const formatCode = (code: string) => code.replace(/(.{4})(?=.)/g, '$1-');
+
+export function TransferCodePanel({ transfer, onClose }: TransferCodePanelProps) {
+  return (
+    <div className={styles.panel}>
+      <QRCodeSVG value={transfer.url} size={128} className={styles.qr} />
+      <div className={styles.details}>
+        <code className={styles.code}>{formatCode(transfer.code)}</code>
+        <p className={styles.hint}>
+          Auf dem anderen Gerät scannen oder den Code eingeben. Einmal gültig, 10 Minuten lang.
+          Danach zählt nur noch das andere Gerät.
+        </p>
+        <button type="button" onClick={onClose} className={styles.closeButton}>
+          Schließen
+        </button>
+      </div>
+    </div>
+  );
+}
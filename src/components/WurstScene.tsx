@@ -5,6 +5,7 @@
  * - Interactive Weisswurst + Pretzel with animations
  * - Mustard jar, plate with food, decorations
  * - Camera animations for init sequence
+ * - Ghost animations of other participants (queued, can be muted)
  * - WebGL detection with 2D fallback
  * 
  * @see src/components/scene/ for individual scene components
@@ -26,8 +27,11 @@ import {
   Pretzel,
   Senfglas,
   Teller,
+  RemoteGhost,
 } from './scene';
 
+import type { QueuedAnimation } from '../hooks/useRemoteAnimations';
+
 import styles from './WurstScene.module.css';
 
 // ============================================================
@@ -43,6 +47,11 @@ interface WurstSceneProps {
   onBrezelComplete: () => void;
   onNoSelection: () => void;
   onBeerClick?: () => void;
+  // Animation of another participant to play now (shared sessions)
+  remoteAnimation?: QueuedAnimation | null;
+  onRemoteAnimationComplete?: (id: string) => void;
+  remoteMuted?: boolean;
+  onToggleRemoteMuted?: () => void;
 }
 
 interface SceneProps {
@@ -53,6 +62,8 @@ interface SceneProps {
   onBrezelComplete: () => void;
   onNoSelection: () => void;
   onBeerClick?: () => void;
+  remoteAnimation?: QueuedAnimation | null;
+  onRemoteAnimationComplete?: (id: string) => void;
 }
 
 // ============================================================
@@ -131,7 +142,9 @@ function Scene({
   onDipComplete, 
   onBrezelComplete,
   onNoSelection,
-  onBeerClick
+  onBeerClick,
+  remoteAnimation,
+  onRemoteAnimationComplete
 }: SceneProps) {
   // Animation state
   const [isAnimating, setIsAnimating] = useState(false);
@@ -338,6 +351,16 @@ function Scene({
         initAnimationProgress={initAnimationProgress}
       />
       
+      {/* Someone else's dip or Brezel, one at a time */}
+      {remoteAnimation && (
+        <RemoteGhost
+          key={remoteAnimation.id}
+          kind={remoteAnimation.kind}
+          displayName={remoteAnimation.displayName}
+          onComplete={() => onRemoteAnimationComplete?.(remoteAnimation.id)}
+        />
+      )}
+      
       {/* Scene objects that fly in after initialization */}
       {(!isInitMode || initAnimationProgress > 0) && (
         <group 
@@ -373,8 +396,10 @@ function FallbackWurst({
   hasActiveColleague, 
   activeColleagueName,
   onDipComplete, 
-  onNoSelection 
-}: Omit<WurstSceneProps, 'wurstCount' | 'brezelCount' | 'onBrezelComplete' | 'onBeerClick'>) {
+  onNoSelection,
+  remoteAnimation,
+  onRemoteAnimationComplete
+}: Omit<WurstSceneProps, 'wurstCount' | 'brezelCount' | 'onBrezelComplete' | 'onBeerClick' | 'remoteMuted' | 'onToggleRemoteMuted'>) {
   const [isAnimating, setIsAnimating] = useState(false);
   const [position, setPosition] = useState({ y: 0, rotation: 0 });
   
@@ -435,6 +460,16 @@ function FallbackWurst({
       
       <div className={styles.senf}>🫙</div>
       
+      {remoteAnimation && (
+        <div
+          key={remoteAnimation.id}
+          className={styles.remoteBubble}
+          onAnimationEnd={() => onRemoteAnimationComplete?.(remoteAnimation.id)}
+        >
+          {remoteAnimation.kind === 'dip' ? '🌭' : '🥨'} {remoteAnimation.displayName}
+        </div>
+      )}
+      
       <div className={styles.hint}>
         {hasActiveColleague ? (
           <span>Klick die Wurst für <strong>{activeColleagueName}</strong>!</span>
@@ -458,10 +493,26 @@ export function WurstScene({
   onDipComplete,
   onBrezelComplete,
   onNoSelection,
-  onBeerClick
+  onBeerClick,
+  remoteAnimation,
+  onRemoteAnimationComplete,
+  remoteMuted,
+  onToggleRemoteMuted
 }: WurstSceneProps) {
   const [webGLSupported, setWebGLSupported] = useState<boolean | null>(null);
 
+  const muteButton = onToggleRemoteMuted && (
+    <button
+      type="button"
+      className={styles.muteButton}
+      onClick={onToggleRemoteMuted}
+      aria-pressed={remoteMuted}
+      title={remoteMuted ? 'Animationen der anderen zeigen' : 'Animationen der anderen ausblenden'}
+    >
+      {remoteMuted ? '🔕' : '🔔'}
+    </button>
+  );
+
   useEffect(() => {
     try {
       const canvas = document.createElement('canvas');
@@ -484,12 +535,17 @@ export function WurstScene({
   // 2D Fallback
   if (!webGLSupported) {
     return (
-      <FallbackWurst
-        hasActiveColleague={hasActiveColleague}
-        activeColleagueName={activeColleagueName}
-        onDipComplete={onDipComplete}
-        onNoSelection={onNoSelection}
-      />
+      <div className={styles.container}>
+        <FallbackWurst
+          hasActiveColleague={hasActiveColleague}
+          activeColleagueName={activeColleagueName}
+          onDipComplete={onDipComplete}
+          onNoSelection={onNoSelection}
+          remoteAnimation={remoteAnimation}
+          onRemoteAnimationComplete={onRemoteAnimationComplete}
+        />
+        {muteButton}
+      </div>
     );
   }
 
@@ -524,9 +580,13 @@ export function WurstScene({
           onBrezelComplete={onBrezelComplete}
           onNoSelection={onNoSelection}
           onBeerClick={onBeerClick}
+          remoteAnimation={remoteAnimation}
+          onRemoteAnimationComplete={onRemoteAnimationComplete}
         />
       </Canvas>
       
+      {muteButton}
+      
       {/* Overlay hint */}
       <div className={styles.hint}>
         {hasActiveColleague ? (
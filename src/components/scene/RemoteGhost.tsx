@@ -0,0 +1,110 @@
+/**
+ * RemoteGhost Component
+ * 
+ * Durchscheinende Wurst oder Brezel für die Animation eines anderen
+ * Teilnehmers, mit schwebendem Namen:
+ * - Dip: taucht von oben ins Senfglas und wieder heraus
+ * - Brezel: dreht sich über der echten Brezel
+ */
+
+import { useRef, useMemo, useEffect } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { Html, useGLTF } from '@react-three/drei';
+import * as THREE from 'three';
+import type { SceneAnimationKind } from '../../lib/backend';
+import styles from '../WurstScene.module.css';
+
+interface RemoteGhostProps {
+  kind: SceneAnimationKind;
+  displayName: string;
+  onComplete: () => void;
+}
+
+const GHOST_DURATIONS: Record<SceneAnimationKind, number> = {
+  dip: 1400,
+  brezel: 1000,
+};
+
+const GHOST_OPACITY = 0.5;
+
+export function RemoteGhost({ kind, displayName, onComplete }: RemoteGhostProps) {
+  const groupRef = useRef<THREE.Group>(null);
+  const startTimeRef = useRef<number | null>(null);
+  const hasCalledCompleteRef = useRef(false);
+  const materialRef = useRef<THREE.MeshStandardMaterial | null>(null);
+  const { scene } = useGLTF('/pretzel.glb');
+
+  // Ein gemeinsames Material, damit das Ein-/Ausblenden alles erfasst
+  const ghostMaterial = useMemo(() => new THREE.MeshStandardMaterial({
+    color: kind === 'dip' ? '#e8ddd4' : '#b8743a',
+    roughness: 0.6,
+    metalness: 0,
+    transparent: true,
+    opacity: 0,
+    depthWrite: false,
+  }), [kind]);
+
+  const ghostBrezel = useMemo(() => {
+    const cloned = scene.clone();
+    cloned.traverse((child) => {
+      if (child.type === 'Mesh') {
+        const mesh = child as THREE.Mesh;
+        mesh.material = ghostMaterial;
+        mesh.raycast = () => null;
+      }
+    });
+    return cloned;
+  }, [scene, ghostMaterial]);
+
+  useEffect(() => {
+    materialRef.current = ghostMaterial;
+    return () => ghostMaterial.dispose();
+  }, [ghostMaterial]);
+
+  useFrame(({ clock }) => {
+    if (!groupRef.current || !materialRef.current) return;
+
+    const now = clock.getElapsedTime() * 1000;
+    if (startTimeRef.current === null) startTimeRef.current = now;
+    const progress = Math.min((now - startTimeRef.current) / GHOST_DURATIONS[kind], 1);
+
+    // Ein- und Ausblenden an beiden Enden
+    materialRef.current.opacity = GHOST_OPACITY * Math.min(1, progress * 5, (1 - progress) * 5);
+
+    if (kind === 'dip') {
+      // Glas steht bei x=1.9, z=0.8 - von oben rein und wieder raus
+      const depth = Math.sin(progress * Math.PI);
+      groupRef.current.position.set(1.9, 1.1 - depth * 1.25, 0.8);
+      groupRef.current.rotation.z = depth * 0.2;
+    } else {
+      // Über der echten Brezel (x=-1.3, z=1.2), eine volle Drehung
+      groupRef.current.position.set(-1.3, 0.5 + Math.sin(progress * Math.PI) * 0.3, 1.0);
+      groupRef.current.rotation.y = -progress * Math.PI * 2;
+    }
+
+    if (progress >= 1 && !hasCalledCompleteRef.current) {
+      hasCalledCompleteRef.current = true;
+      onComplete();
+    }
+  });
+
+  return (
+    <group ref={groupRef} position={kind === 'dip' ? [1.9, 1.1, 0.8] : [-1.3, 0.5, 1.0]}>
+      {kind === 'dip' ? (
+        <mesh material={ghostMaterial} raycast={() => null}>
+          <capsuleGeometry args={[0.15, 0.9, 8, 24]} />
+        </mesh>
+      ) : (
+        <group rotation={[Math.PI / 2, Math.PI - 0.3, 0]} scale={8.0}>
+          <primitive object={ghostBrezel} />
+        </group>
+      )}
+
+      <Html position={[0, kind === 'dip' ? 0.75 : 0.45, 0]} center>
+        <div className={styles.ghostLabel}>{displayName}</div>
+      </Html>
+    </group>
+  );
+}
+
+export default RemoteGhost;
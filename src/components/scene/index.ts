@@ -16,3 +16,6 @@ export { Weisswurst } from './Weisswurst';
 export { Pretzel } from './Pretzel';
 export { Senfglas } from './Senfglas';
 export { Teller } from './Teller';
+
+// Animations of other participants
+export { RemoteGhost } from './RemoteGhost';
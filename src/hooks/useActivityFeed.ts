@@ -0,0 +1,136 @@
+import { useState } from 'react';
+import type { CatalogItem } from '../types';
+import type { Entry, EntryItem } from '../lib/database.types';
+
+// Older activities drop out at the bottom
+const MAX_ACTIVITIES = 50;
+
+export interface Activity {
+  id: string;
+  text: string;
+  // Server time of the change (null if unknown, e.g. for deletions)
+  at: string | null;
+}
+
+interface Snapshot {
+  entries: Entry[];
+  entryItems: EntryItem[];
+}
+
+const countKey = (entryId: string, itemId: string) => `${entryId}:${itemId}`;
+
+function describeAmount(item: CatalogItem | undefined, amount: number): string {
+  if (!item) return `${amount}× Artikel`;
+  const label = `${item.emoji} ${item.name}`;
+  // Weißwurst and Brezel read naturally with an article, custom items may not
+  return amount === 1 && item.kind !== 'extra' ? `eine ${label}` : `${amount}× ${label}`;
+}
+
+const latest = (a: string | null, b: string) => (a && a > b ? a : b);
+
+/**
+ * Turns the difference between two states of a session into activities,
+ * newest first. Clicks of several items at once (admin corrections,
+ * resets) end up as separate lines, except for a reset.
+ */
+function diffSnapshots(prev: Snapshot, next: Snapshot, items: CatalogItem[]): Activity[] {
+  const activities: Activity[] = [];
+  const prevEntries = new Map(prev.entries.map((e) => [e.id, e]));
+  const nextIds = new Set(next.entries.map((e) => e.id));
+
+  for (const entry of next.entries) {
+    const before = prevEntries.get(entry.id);
+    if (!before) {
+      activities.push({
+        id: `join:${entry.id}`,
+        text: `${entry.display_name} ist beigetreten`,
+        at: entry.created_at,
+      });
+    } else if (before.display_name !== entry.display_name) {
+      activities.push({
+        id: `rename:${entry.id}:${entry.updated_at}`,
+        text: `${before.display_name} heißt jetzt ${entry.display_name}`,
+        at: entry.updated_at,
+      });
+    }
+  }
+
+  for (const entry of prev.entries) {
+    if (!nextIds.has(entry.id)) {
+      activities.push({
+        id: `delete:${entry.id}`,
+        text: `${entry.display_name} ist nicht mehr dabei`,
+        at: null,
+      });
+    }
+  }
+
+  // Count changes per entry (a missing row counts as zero)
+  const prevCounts = new Map(prev.entryItems.map((r) => [countKey(r.entry_id, r.item_id), r.count]));
+  const changes = new Map<string, { row: EntryItem; delta: number }[]>();
+  for (const row of next.entryItems) {
+    if (!prevEntries.has(row.entry_id)) continue;
+    const delta = row.count - (prevCounts.get(countKey(row.entry_id, row.item_id)) ?? 0);
+    if (delta === 0) continue;
+    changes.set(row.entry_id, [...(changes.get(row.entry_id) ?? []), { row, delta }]);
+  }
+
+  for (const entry of next.entries) {
+    const entryChanges = changes.get(entry.id);
+    if (!entryChanges) continue;
+
+    const isReset = entryChanges.every(({ row, delta }) => delta < 0 && row.count === 0) &&
+      (entryChanges.length > 1 || entryChanges[0].delta < -1);
+    if (isReset) {
+      const at = entryChanges.reduce<string | null>((max, { row }) => latest(max, row.updated_at), null);
+      activities.push({ id: `reset:${entry.id}:${at}`, text: `${entry.display_name} hat zurückgesetzt`, at });
+      continue;
+    }
+
+    for (const { row, delta } of entryChanges) {
+      const amount = describeAmount(items.find((i) => i.id === row.item_id), Math.abs(delta));
+      activities.push({
+        id: `count:${row.entry_id}:${row.item_id}:${row.updated_at}:${row.count}`,
+        text: delta > 0
+          ? `${entry.display_name} hat sich ${amount} genommen`
+          : `${entry.display_name} hat ${amount} zurückgelegt`,
+        at: row.updated_at,
+      });
+    }
+  }
+
+  return activities.sort((a, b) => (b.at ?? '').localeCompare(a.at ?? ''));
+}
+
+/**
+ * Live activity feed of a shared session ("Anna hat sich eine Brezel
+ * genommen"), built from the realtime changes to entries and counts -
+ * so everyone sees the clicks of everyone, including their own once
+ * the server has them.
+ *
+ * The state at the first enabled render (after loading) is the baseline
+ * and produces no activities.
+ */
+export function useActivityFeed(
+  entries: Entry[],
+  entryItems: EntryItem[],
+  items: CatalogItem[],
+  enabled: boolean
+): Activity[] {
+  const [snapshot, setSnapshot] = useState<Snapshot | null>(null);
+  const [activities, setActivities] = useState<Activity[]>([]);
+
+  // Adjusting state while rendering: compare with the last seen state
+  if (enabled && (!snapshot || snapshot.entries !== entries || snapshot.entryItems !== entryItems)) {
+    const next = { entries, entryItems };
+    setSnapshot(next);
+    if (snapshot) {
+      const added = diffSnapshots(snapshot, next, items);
+      if (added.length > 0) {
+        setActivities((prev) => [...added, ...prev].slice(0, MAX_ACTIVITIES));
+      }
+    }
+  }
+
+  return activities;
+}
@@ -0,0 +1,40 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { ConnectionStatus } from '../lib/backend';
+
+/**
+ * Tracks the live connection of a session subscription and asks for a
+ * full refetch whenever changes may have been missed: when the
+ * connection drops (error, timeout), when it's back, and when the tab
+ * comes back to the front (laptop woke up, phone unlocked).
+ *
+ * Pass handleStatusChanged as onStatusChanged to backend.subscribe().
+ */
+export function useConnectionStatus(onResync: () => void) {
+  const [status, setStatus] = useState<ConnectionStatus>('connecting');
+  const statusRef = useRef<ConnectionStatus>('connecting');
+  const onResyncRef = useRef(onResync);
+
+  useEffect(() => {
+    onResyncRef.current = onResync;
+  });
+
+  const handleStatusChanged = useCallback((next: ConnectionStatus) => {
+    const previous = statusRef.current;
+    statusRef.current = next;
+    setStatus(next);
+
+    if (next === 'disconnected' || (next === 'connected' && previous === 'disconnected')) {
+      onResyncRef.current();
+    }
+  }, []);
+
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') onResyncRef.current();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, []);
+
+  return { status, handleStatusChanged };
+}
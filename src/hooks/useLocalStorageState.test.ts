@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MAX_STORAGE_LENGTH, SCHEMA_VERSION, type AppState } from '../types';
+import { loadStoredState } from './useLocalStorageState';
+
+const KEY = 'test-state';
+const initialState: AppState = { events: [], activeEventId: null, sortMode: 'alphabetical', schemaVersion: SCHEMA_VERSION };
+
+// Node has no localStorage
+function createStorage() {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+    removeItem: (key: string) => void items.delete(key),
+  };
+}
+
+describe('loadStoredState', () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', createStorage());
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('starts with one open event when nothing is stored', () => {
+    const state = loadStoredState(KEY, initialState);
+    expect(state.events).toHaveLength(1);
+    expect(state.activeEventId).toBe(state.events[0].id);
+  });
+
+  it('migrates stored v1 data', () => {
+    localStorage.setItem(KEY, JSON.stringify({
+      colleagues: [{ id: 'anna', name: 'Anna', count: 2, brezelCount: 0 }],
+      sortMode: 'count',
+      schemaVersion: 1,
+    }));
+
+    const state = loadStoredState(KEY, initialState);
+    expect(state.schemaVersion).toBe(SCHEMA_VERSION);
+    expect(state.sortMode).toBe('count');
+    expect(state.events[0].colleagues.map((c) => c.name)).toEqual(['Anna']);
+  });
+
+  it('drops data that is not JSON', () => {
+    localStorage.setItem(KEY, '{"events":');
+
+    expect(loadStoredState(KEY, initialState).events).toHaveLength(1);
+    expect(localStorage.getItem(KEY)).toBeNull();
+  });
+
+  it('keeps a copy of oversized data before starting over', () => {
+    const oversized = JSON.stringify({ ...initialState, padding: 'x'.repeat(MAX_STORAGE_LENGTH) });
+    localStorage.setItem(KEY, oversized);
+
+    const state = loadStoredState(KEY, initialState);
+    expect(state.events).toHaveLength(1);
+    expect(state.events[0].colleagues).toEqual([]);
+    expect(localStorage.getItem(KEY)).toBeNull();
+    expect(localStorage.getItem(`${KEY}-backup`)).toBe(oversized);
+  });
+});
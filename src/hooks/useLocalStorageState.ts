@@ -1,76 +1,72 @@
-import { useState, useEffect, useCallback } from 'react';
-import { SCHEMA_VERSION, type AppState, type Colleague } from '../types';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { MAX_STORAGE_LENGTH, SCHEMA_VERSION, type AppState } from '../types';
+import { ensureActiveEvent, isStateTooLarge } from '../utils/offlineEvents';
+import { migrateData } from '../utils/migrations';
+
+interface LocalStorageStateOptions {
+  // A change would make the stored state too large and was refused
+  onTooLarge?: () => void;
+}
 
 /**
- * Migrates old data to the current schema version.
- * Add migration steps here when incrementing SCHEMA_VERSION.
+ * The stored state, migrated to the current schema - a fresh one if
+ * there is none or it can't be read
  */
-function migrateData<T extends AppState>(data: Partial<T>, currentVersion: number): T {
-  let migrated = { ...data } as T;
-  const storedVersion = data.schemaVersion ?? 0;
-  
-  // No migration needed if already at current version
-  if (storedVersion >= currentVersion) {
-    return migrated;
-  }
-  
-  // Migration from v0 (no version) to v1
-  if (storedVersion < 1) {
-    // Ensure brezelCount exists on all colleagues
-    if (migrated.colleagues) {
-      migrated.colleagues = migrated.colleagues.map((c: Partial<Colleague>) => ({
-        ...c,
-        brezelCount: c.brezelCount ?? 0,
-      })) as Colleague[];
+export function loadStoredState<T extends AppState>(key: string, initialValue: T): T {
+  try {
+    const stored = localStorage.getItem(key);
+    if (stored) {
+      // Limit stored data size to prevent DoS via localStorage. Changes
+      // can't get there, so keep a copy of whatever did
+      if (stored.length > MAX_STORAGE_LENGTH) {
+        console.warn(`localStorage data too large, resetting (copy kept in ${key}-backup)`);
+        localStorage.setItem(`${key}-backup`, stored);
+        localStorage.removeItem(key);
+        return ensureActiveEvent({ ...initialValue, schemaVersion: SCHEMA_VERSION });
+      }
+      
+      const parsed = JSON.parse(stored) as Partial<T>;
+      
+      // Run migrations
+      const migrated = migrateData(parsed, SCHEMA_VERSION);
+      
+      // Merge with initialValue to fill in any missing fields
+      return ensureActiveEvent({ ...initialValue, ...migrated });
     }
-    
-    // Ensure pricePerBrezel exists
-    migrated.pricePerBrezel = migrated.pricePerBrezel ?? 1.0;
-    
-    // Ensure sortMode exists
-    migrated.sortMode = migrated.sortMode ?? 'alphabetical';
+  } catch (error) {
+    console.error('Error reading from localStorage:', error);
+    // Clear corrupted data
+    localStorage.removeItem(key);
   }
-  
-  // Add future migrations here:
-  // if (storedVersion < 2) { ... }
-  
-  // Update schema version
-  migrated.schemaVersion = currentVersion;
-  
-  return migrated;
+  return ensureActiveEvent({ ...initialValue, schemaVersion: SCHEMA_VERSION });
 }
 
 export function useLocalStorageState<T extends AppState>(
   key: string,
-  initialValue: T
+  initialValue: T,
+  { onTooLarge }: LocalStorageStateOptions = {}
 ): [T, React.Dispatch<React.SetStateAction<T>>, () => void] {
-  const [state, setState] = useState<T>(() => {
-    try {
-      const stored = localStorage.getItem(key);
-      if (stored) {
-        // Limit stored data size to prevent DoS via localStorage
-        if (stored.length > 500000) {
-          console.warn('localStorage data too large, resetting');
-          localStorage.removeItem(key);
-          return { ...initialValue, schemaVersion: SCHEMA_VERSION };
-        }
-        
-        const parsed = JSON.parse(stored) as Partial<T>;
-        
-        // Run migrations
-        const migrated = migrateData(parsed, SCHEMA_VERSION);
-        
-        // Merge with initialValue to fill in any missing fields
-        return { ...initialValue, ...migrated };
-      }
-    } catch (error) {
-      console.error('Error reading from localStorage:', error);
-      // Clear corrupted data
-      localStorage.removeItem(key);
-    }
-    return { ...initialValue, schemaVersion: SCHEMA_VERSION };
+  const [state, setState] = useState<T>(() => loadStoredState(key, initialValue));
+
+  // Latest state for the setter - also between two calls in one handler
+  const latestRef = useRef(state);
+  const onTooLargeRef = useRef(onTooLarge);
+  useEffect(() => {
+    latestRef.current = state;
+    onTooLargeRef.current = onTooLarge;
   });
 
+  // Refuses changes that couldn't be stored, instead of losing everything on the next load
+  const setCheckedState = useCallback((action: React.SetStateAction<T>) => {
+    const next = typeof action === 'function' ? (action as (prev: T) => T)(latestRef.current) : action;
+    if (isStateTooLarge(next)) {
+      onTooLargeRef.current?.();
+      return;
+    }
+    latestRef.current = next;
+    setState(next);
+  }, []);
+
   useEffect(() => {
     try {
       localStorage.setItem(key, JSON.stringify(state));
@@ -82,11 +78,11 @@ export function useLocalStorageState<T extends AppState>(
   const clearStorage = useCallback(() => {
     try {
       localStorage.removeItem(key);
-      setState({ ...initialValue, schemaVersion: SCHEMA_VERSION });
+      setState(ensureActiveEvent({ ...initialValue, schemaVersion: SCHEMA_VERSION }));
     } catch (error) {
       console.error('Error clearing localStorage:', error);
     }
   }, [key, initialValue]);
 
-  return [state, setState, clearStorage];
+  return [state, setCheckedState, clearStorage];
 }
@@ -0,0 +1,74 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { backend, type AnimationChannel, type SceneAnimation } from '../lib/backend';
+
+// Bursts beyond this are dropped instead of playing for minutes
+const MAX_QUEUED_ANIMATIONS = 5;
+
+// Local storage key for the mute switch (applies to every session)
+const MUTED_KEY = 'weisswurst_mute_remote_animations';
+
+export interface QueuedAnimation extends SceneAnimation {
+  id: string;
+}
+
+const loadMuted = () => {
+  try {
+    return localStorage.getItem(MUTED_KEY) === 'true';
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Mirrors the dip and Brezel animations of everyone in a shared session:
+ * sends the own ones and queues the ones of the others, so the scene
+ * plays them one after another (current, then finish(id)). Muting drops
+ * incoming animations but keeps sending.
+ */
+export function useRemoteAnimations(sessionId: string | undefined, enabled: boolean) {
+  const [queue, setQueue] = useState<QueuedAnimation[]>([]);
+  const [isMuted, setIsMuted] = useState(loadMuted);
+  const isMutedRef = useRef(isMuted);
+  const channelRef = useRef<AnimationChannel | null>(null);
+
+  useEffect(() => {
+    isMutedRef.current = isMuted;
+    try {
+      localStorage.setItem(MUTED_KEY, String(isMuted));
+    } catch (error) {
+      console.error('Error writing animation setting to localStorage:', error);
+    }
+  }, [isMuted]);
+
+  useEffect(() => {
+    if (!sessionId || !enabled || !backend.isConfigured) return;
+
+    const channel = backend.joinAnimations(sessionId, (animation) => {
+      if (isMutedRef.current) return;
+      setQueue((prev) =>
+        prev.length >= MAX_QUEUED_ANIMATIONS ? prev : [...prev, { ...animation, id: crypto.randomUUID() }]
+      );
+    });
+    channelRef.current = channel;
+
+    return () => {
+      channel.leave();
+      if (channelRef.current === channel) channelRef.current = null;
+    };
+  }, [sessionId, enabled]);
+
+  const send = useCallback((animation: SceneAnimation) => {
+    channelRef.current?.send(animation);
+  }, []);
+
+  const finish = useCallback((id: string) => {
+    setQueue((prev) => prev.filter((animation) => animation.id !== id));
+  }, []);
+
+  const toggleMuted = useCallback(() => {
+    if (!isMuted) setQueue([]);
+    setIsMuted(!isMuted);
+  }, [isMuted]);
+
+  return { current: queue[0] ?? null, send, finish, isMuted, toggleMuted };
+}
@@ -0,0 +1,95 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+
+// Older steps drop out at the bottom
+const MAX_HISTORY = 50;
+
+interface History<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+interface UndoHistoryOptions<T> {
+  // False for changes that shouldn't be a step of their own (e.g. selection)
+  shouldRecord?: (previous: T, next: T) => boolean;
+  // What undo/redo writes back, from the current value and the step's
+  // (e.g. to keep those unrecorded changes). Defaults to the step's value.
+  applyStep?: (current: T, step: T) => T;
+}
+
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+/**
+ * Undo/redo for a state owned elsewhere (useLocalStorageState): every
+ * change of `state` becomes a step, undo and redo write the earlier or
+ * later value back through `setState`. Ctrl+Z / ⌘+Z undoes,
+ * Ctrl+Shift+Z (or Ctrl+Y) redoes - except while typing in a field,
+ * which keeps the browser's own undo.
+ */
+export function useUndoHistory<T>(
+  state: T,
+  setState: (value: T) => void,
+  { shouldRecord, applyStep }: UndoHistoryOptions<T> = {}
+) {
+  const [history, setHistory] = useState<History<T>>({ past: [], present: state, future: [] });
+  const historyRef = useRef(history);
+
+  // Adjusting state while rendering: record what changed since the last render.
+  // Undo and redo move `present` themselves, so they aren't recorded again.
+  if (state !== history.present) {
+    setHistory(
+      !shouldRecord || shouldRecord(history.present, state)
+        ? { past: [...history.past, history.present].slice(-MAX_HISTORY), present: state, future: [] }
+        : { ...history, present: state }
+    );
+  }
+
+  useEffect(() => {
+    historyRef.current = history;
+  });
+
+  const undo = useCallback(() => {
+    const { past, present, future } = historyRef.current;
+    if (past.length === 0) return false;
+    const previous = applyStep ? applyStep(present, past[past.length - 1]) : past[past.length - 1];
+    const next = { past: past.slice(0, -1), present: previous, future: [present, ...future] };
+    historyRef.current = next;
+    setHistory(next);
+    setState(previous);
+    return true;
+  }, [setState, applyStep]);
+
+  const redo = useCallback(() => {
+    const { past, present, future } = historyRef.current;
+    if (future.length === 0) return false;
+    const following = applyStep ? applyStep(present, future[0]) : future[0];
+    const next = { past: [...past, present], present: following, future: future.slice(1) };
+    historyRef.current = next;
+    setHistory(next);
+    setState(following);
+    return true;
+  }, [setState, applyStep]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isEditableTarget(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        if (undo()) e.preventDefault();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        if (redo()) e.preventDefault();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  return {
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+}
@@ -0,0 +1,192 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { backend, type BackendError } from '../lib/backend';
+import type { EntryItem } from '../lib/database.types';
+import { isNetworkError } from '../utils/dbErrors';
+
+// Security constants
+const MAX_QUEUE_LENGTH = 500;
+
+// Retry delays while the server can't be reached
+const RETRY_BASE_MS = 2000;
+const RETRY_MAX_MS = 30000;
+
+// Local storage key for clicks that haven't reached the server yet
+const getQueueKey = (sessionId: string) => `weisswurst_queue_${sessionId}`;
+
+/**
+ * One counter click, with the authorization of the moment it was made.
+ * The id is generated on the device and lets the server skip replays
+ * it has already counted (p_op_id of increment_entry).
+ */
+export interface QueuedIncrement {
+  id: string;
+  entryId: string;
+  itemId: string;
+  delta: number;
+  editToken: string | null;
+  actor: string | null;
+  actorEntryId: string | null;
+}
+
+interface WriteQueueHandlers {
+  // replayed: the click had to wait for the connection
+  onApplied: (op: QueuedIncrement, row: EntryItem, replayed: boolean) => void;
+  // Refused by the server (limit, no permission, ...) - dropped from the queue
+  onRejected: (op: QueuedIncrement, error: BackendError) => void;
+  // The server can't be reached - clicks are kept until it can
+  onStalled: () => void;
+  // Everything that had to wait went through
+  onReplayed: (count: number) => void;
+}
+
+const isQueuedIncrement = (value: unknown): value is QueuedIncrement => {
+  const op = value as Partial<QueuedIncrement> | null;
+  return (
+    !!op &&
+    typeof op.id === 'string' &&
+    typeof op.entryId === 'string' &&
+    typeof op.itemId === 'string' &&
+    Number.isInteger(op.delta) &&
+    (op.editToken === null || typeof op.editToken === 'string') &&
+    (op.actor === null || typeof op.actor === 'string') &&
+    (op.actorEntryId === null || typeof op.actorEntryId === 'string')
+  );
+};
+
+function loadQueue(sessionId: string | undefined): QueuedIncrement[] {
+  if (!sessionId) return [];
+  try {
+    const parsed: unknown = JSON.parse(localStorage.getItem(getQueueKey(sessionId)) ?? '[]');
+    return Array.isArray(parsed) ? parsed.filter(isQueuedIncrement).slice(0, MAX_QUEUE_LENGTH) : [];
+  } catch {
+    localStorage.removeItem(getQueueKey(sessionId));
+    return [];
+  }
+}
+
+/**
+ * Persistent queue for counter clicks in a shared session.
+ *
+ * Clicks are sent one after another in click order. If the server
+ * can't be reached they stay in localStorage and are replayed when
+ * the connection is back (online event, or retries with backoff) -
+ * also after a reload. Refused clicks are dropped.
+ */
+export function useWriteQueue(sessionId: string | undefined, handlers: WriteQueueHandlers) {
+  const [queueSessionId, setQueueSessionId] = useState(sessionId);
+  // Clicks left over from an earlier visit count as replayed
+  const [restored, setRestored] = useState(() => loadQueue(sessionId));
+  const [queue, setQueue] = useState(restored);
+  const [isStalled, setIsStalled] = useState(false);
+  // Bumped to try the head of the queue again
+  const [retryTick, setRetryTick] = useState(0);
+
+  const sendingRef = useRef(false);
+  const failuresRef = useRef(0);
+  const replayedRef = useRef(0);
+  const retryTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const handlersRef = useRef(handlers);
+
+  // Another session in the same page instance: switch to its queue
+  if (sessionId !== queueSessionId) {
+    const loaded = loadQueue(sessionId);
+    setQueueSessionId(sessionId);
+    setRestored(loaded);
+    setQueue(loaded);
+    setIsStalled(false);
+  }
+
+  useEffect(() => {
+    handlersRef.current = handlers;
+  });
+
+  // Persist
+  useEffect(() => {
+    if (!queueSessionId) return;
+    try {
+      if (queue.length > 0) {
+        localStorage.setItem(getQueueKey(queueSessionId), JSON.stringify(queue));
+      } else {
+        localStorage.removeItem(getQueueKey(queueSessionId));
+      }
+    } catch (error) {
+      console.error('Error writing write queue to localStorage:', error);
+    }
+  }, [queueSessionId, queue]);
+
+  // Everything that had to wait went through
+  useEffect(() => {
+    if (queue.length > 0 || replayedRef.current === 0) return;
+    handlersRef.current.onReplayed(replayedRef.current);
+    replayedRef.current = 0;
+  }, [queue]);
+
+  const retryNow = useCallback(() => {
+    if (retryTimerRef.current) clearTimeout(retryTimerRef.current);
+    retryTimerRef.current = null;
+    setRetryTick((t) => t + 1);
+  }, []);
+
+  // Retry right away when the browser reports a connection
+  useEffect(() => {
+    window.addEventListener('online', retryNow);
+    return () => {
+      window.removeEventListener('online', retryNow);
+      if (retryTimerRef.current) clearTimeout(retryTimerRef.current);
+    };
+  }, [retryNow]);
+
+  // Send the head of the queue - the next one follows once it's answered
+  useEffect(() => {
+    if (queue.length === 0 || sendingRef.current || retryTimerRef.current || !backend.isConfigured) {
+      return;
+    }
+
+    const op = queue[0];
+    sendingRef.current = true;
+
+    backend
+      .mutate('increment_entry', {
+        p_entry_id: op.entryId,
+        p_item: op.itemId,
+        p_delta: op.delta,
+        p_edit_token: op.editToken,
+        p_actor: op.actor,
+        p_actor_entry_id: op.actorEntryId,
+        p_op_id: op.id,
+      })
+      .then(({ data, error }) => {
+        sendingRef.current = false;
+
+        if (error && isNetworkError(error)) {
+          if (failuresRef.current === 0) handlersRef.current.onStalled();
+          const delay = Math.min(RETRY_BASE_MS * 2 ** failuresRef.current, RETRY_MAX_MS);
+          failuresRef.current++;
+          setIsStalled(true);
+          retryTimerRef.current = setTimeout(retryNow, delay);
+          return;
+        }
+
+        const replayed = failuresRef.current > 0 || replayedRef.current > 0 || restored.includes(op);
+        failuresRef.current = 0;
+        if (replayed) replayedRef.current++;
+
+        setQueue((prev) => prev.filter((o) => o.id !== op.id));
+        setIsStalled(false);
+
+        if (error) {
+          handlersRef.current.onRejected(op, error);
+        } else if (data) {
+          handlersRef.current.onApplied(op, data, replayed);
+        }
+      });
+  }, [queue, restored, retryTick, retryNow]);
+
+  const enqueue = useCallback((op: Omit<QueuedIncrement, 'id'>) => {
+    setQueue((prev) =>
+      prev.length >= MAX_QUEUE_LENGTH ? prev : [...prev, { ...op, id: crypto.randomUUID() }]
+    );
+  }, []);
+
+  return { queue, isStalled, enqueue };
+}
@@ -0,0 +1,36 @@
+/**
+ * Backend Selection
+ *
+ * The pages only talk to `backend`. Which implementation it is comes
+ * from VITE_BACKEND in .env.local:
+ *   supabase (default) - needs VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY
+ *   memory             - everything in the current tab, for local development
+ *   server             - the self-hosted server in server/, at VITE_SERVER_URL
+ */
+
+import { supabase, isSupabaseConfigured } from '../supabase';
+import { createMemoryBackend } from './memoryBackend';
+import { createServerBackend } from './serverBackend';
+import { createSupabaseBackend } from './supabaseBackend';
+import type { EinstandBackend } from './types';
+
+export type * from './types';
+export { createMemoryBackend } from './memoryBackend';
+export { createServerBackend } from './serverBackend';
+export { createSupabaseBackend } from './supabaseBackend';
+
+const backendName = (import.meta.env.VITE_BACKEND as string | undefined) || 'supabase';
+const serverUrl = (import.meta.env.VITE_SERVER_URL as string | undefined) || 'http://localhost:8787';
+
+function selectBackend(): EinstandBackend {
+  switch (backendName) {
+    case 'memory':
+      return createMemoryBackend();
+    case 'server':
+      return createServerBackend(serverUrl);
+    default:
+      return createSupabaseBackend(supabase, isSupabaseConfigured);
+  }
+}
+
+export const backend = selectBackend();
@@ -0,0 +1,450 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createMemoryBackend, type StoredSessionChange } from './memoryBackend';
+import type { BackendResult, EinstandBackend } from './types';
+
+const OWNER_SECRET = 'owner-secret-0123456789';
+const COHOST_SECRET = 'cohost-secret-0123456789';
+const ANNA_TOKEN = 'anna-token-0123456789';
+const BERT_TOKEN = 'bert-token-0123456789';
+const NEW_DEVICE_TOKEN = 'new-device-token-0123456789';
+
+function unwrap<T>({ data, error }: BackendResult<T>): T {
+  if (error) throw new Error(`${error.code}: ${error.message}`);
+  return data as T;
+}
+
+async function setup() {
+  const backend = createMemoryBackend();
+  const sessionId = unwrap(
+    await backend.createSession({
+      p_title: 'Test',
+      p_mode: 'INVITE',
+      p_admin_secret: OWNER_SECRET,
+      p_items: [{ name: 'Weißwurst', emoji: '🌭', kind: 'WURST' }],
+    })
+  );
+  const [wurst] = unwrap(await backend.listItems(sessionId));
+  const anna = unwrap(
+    await backend.join({ p_session_id: sessionId, p_display_name: 'Anna', p_edit_token: ANNA_TOKEN })
+  );
+  return { backend, sessionId, wurstId: wurst.id, annaId: anna.id };
+}
+
+async function getCount(backend: EinstandBackend, sessionId: string, entryId: string, itemId: string) {
+  const { entryItems } = unwrap(await backend.listEntries(sessionId));
+  return entryItems.find((r) => r.entry_id === entryId && r.item_id === itemId)?.count ?? 0;
+}
+
+describe('increment_entry', () => {
+  it('never goes below zero and logs only what was applied', async () => {
+    const { backend, sessionId, wurstId, annaId } = await setup();
+    const increment = (delta: number) =>
+      backend.mutate('increment_entry', {
+        p_entry_id: annaId, p_item: wurstId, p_delta: delta, p_edit_token: ANNA_TOKEN,
+      });
+
+    expect(unwrap(await increment(2)).count).toBe(2);
+    expect(unwrap(await increment(-5)).count).toBe(0);
+    expect(unwrap(await increment(-1)).count).toBe(0);
+
+    const events = unwrap(await backend.mutate('get_session_events', {
+      p_session_id: sessionId, p_admin_secret: OWNER_SECRET,
+    }));
+    expect(events.map((e) => [e.event_type, e.delta])).toEqual([
+      ['DECREMENT', -2],
+      ['INCREMENT', 2],
+      ['JOIN', null],
+    ]);
+  });
+
+  it('rejects counts above the limit and rolls the change back', async () => {
+    const { backend, sessionId, wurstId, annaId } = await setup();
+    const { error } = await backend.mutate('increment_entry', {
+      p_entry_id: annaId, p_item: wurstId, p_delta: 1000, p_edit_token: ANNA_TOKEN,
+    });
+
+    expect(error?.code).toBe('23514');
+    expect(await getCount(backend, sessionId, annaId, wurstId)).toBe(0);
+  });
+
+  it('counts a replayed operation id only once', async () => {
+    const { backend, sessionId, wurstId, annaId } = await setup();
+    const args = {
+      p_entry_id: annaId, p_item: wurstId, p_delta: 1, p_edit_token: ANNA_TOKEN, p_op_id: 'op-1',
+    };
+
+    expect(unwrap(await backend.mutate('increment_entry', args)).count).toBe(1);
+    expect(unwrap(await backend.mutate('increment_entry', args)).count).toBe(1);
+    expect(await getCount(backend, sessionId, annaId, wurstId)).toBe(1);
+  });
+});
+
+describe('join_session', () => {
+  it('gives a retried join its own entry back, but the name to nobody else', async () => {
+    const { backend, sessionId, annaId } = await setup();
+
+    const retried = await backend.join({ p_session_id: sessionId, p_display_name: ' anna ', p_edit_token: ANNA_TOKEN });
+    expect(unwrap(retried).id).toBe(annaId);
+    expect(unwrap(await backend.listEntries(sessionId)).entries).toHaveLength(1);
+
+    const taken = await backend.join({ p_session_id: sessionId, p_display_name: 'Anna', p_edit_token: BERT_TOKEN });
+    expect(taken.error?.code).toBe('23505');
+  });
+});
+
+describe('permissions', () => {
+  it('lets participants change only their own entry', async () => {
+    const { backend, sessionId, wurstId, annaId } = await setup();
+    unwrap(await backend.join({ p_session_id: sessionId, p_display_name: 'Bert', p_edit_token: BERT_TOKEN }));
+
+    const { error } = await backend.mutate('increment_entry', {
+      p_entry_id: annaId, p_item: wurstId, p_delta: 1, p_edit_token: BERT_TOKEN,
+    });
+    expect(error).toEqual({ message: 'Not allowed to change this entry', code: '42501' });
+
+    const withoutToken = await backend.mutate('reset_entry', { p_entry_id: annaId });
+    expect(withoutToken.error?.message).toBe('Not allowed to change this entry');
+  });
+
+  it('lets participants change nothing once the session is closed', async () => {
+    const { backend, sessionId, wurstId, annaId } = await setup();
+    unwrap(await backend.mutate('close_session', { p_session_id: sessionId, p_admin_secret: OWNER_SECRET }));
+
+    const { error } = await backend.mutate('increment_entry', {
+      p_entry_id: annaId, p_item: wurstId, p_delta: 1, p_edit_token: ANNA_TOKEN,
+    });
+    expect(error?.message).toBe('Entry not found or session not open');
+
+    const byOwner = await backend.mutate('increment_entry', {
+      p_entry_id: annaId, p_item: wurstId, p_delta: 1, p_admin_secret: OWNER_SECRET,
+    });
+    expect(unwrap(byOwner).count).toBe(1);
+  });
+
+  it('gives the co-host entries and closing, but not settings or links', async () => {
+    const { backend, sessionId, wurstId, annaId } = await setup();
+    expect(unwrap(await backend.mutate('set_cohost_secret', {
+      p_session_id: sessionId, p_admin_secret: OWNER_SECRET, p_cohost_secret: COHOST_SECRET,
+    }))).toBe(true);
+
+    const set = await backend.mutate('set_entry_count', {
+      p_entry_id: annaId, p_item: wurstId, p_count: 3, p_admin_secret: COHOST_SECRET,
+    });
+    expect(unwrap(set).count).toBe(3);
+    expect(unwrap(await backend.mutate('close_session', {
+      p_session_id: sessionId, p_admin_secret: COHOST_SECRET,
+    }))).toBe(true);
+
+    expect(unwrap(await backend.mutate('update_session', {
+      p_session_id: sessionId, p_admin_secret: COHOST_SECRET, p_title: 'Neu', p_mode: 'INVITE',
+      p_items: [{ id: wurstId, name: 'Weißwurst' }],
+    }))).toBe(false);
+    expect(unwrap(await backend.mutate('delete_session', {
+      p_session_id: sessionId, p_admin_secret: COHOST_SECRET,
+    }))).toBe(false);
+    expect(unwrap(await backend.mutate('set_cohost_secret', {
+      p_session_id: sessionId, p_admin_secret: COHOST_SECRET, p_cohost_secret: 'other-cohost-0123456789',
+    }))).toBe(false);
+    expect(unwrap(await backend.getAdminSession(sessionId, COHOST_SECRET))?.role).toBe('COHOST');
+  });
+
+  it('locks the co-host out once the secret is revoked', async () => {
+    const { backend, sessionId, wurstId, annaId } = await setup();
+    unwrap(await backend.mutate('set_cohost_secret', {
+      p_session_id: sessionId, p_admin_secret: OWNER_SECRET, p_cohost_secret: COHOST_SECRET,
+    }));
+    unwrap(await backend.mutate('revoke_cohost_secret', {
+      p_session_id: sessionId, p_admin_secret: OWNER_SECRET,
+    }));
+
+    const { error } = await backend.mutate('set_entry_count', {
+      p_entry_id: annaId, p_item: wurstId, p_count: 3, p_admin_secret: COHOST_SECRET,
+    });
+    expect(error?.message).toBe('Not allowed to change this entry');
+    expect(unwrap(await backend.getAdminSession(sessionId, COHOST_SECRET))).toBeNull();
+  });
+});
+
+describe('claims', () => {
+  it('hands the entry to a new device once the request is approved', async () => {
+    const { backend, sessionId, wurstId, annaId } = await setup();
+    const requestId = unwrap(await backend.mutate('request_entry_claim', {
+      p_entry_id: annaId, p_edit_token: NEW_DEVICE_TOKEN,
+    }));
+    const status = () =>
+      backend.mutate('get_claim_status', { p_entry_id: annaId, p_edit_token: NEW_DEVICE_TOKEN });
+
+    expect(unwrap(await status())).toBe('PENDING');
+    expect(unwrap(await backend.mutate('get_claim_requests', {
+      p_session_id: sessionId, p_edit_token: ANNA_TOKEN,
+    })).map((r) => r.id)).toEqual([requestId]);
+
+    expect(unwrap(await backend.mutate('resolve_claim_request', {
+      p_request_id: requestId, p_approve: true, p_edit_token: ANNA_TOKEN,
+    }))).toBe(true);
+    expect(unwrap(await status())).toBe('CLAIMED');
+
+    // Both devices may count now
+    const byNewDevice = await backend.mutate('increment_entry', {
+      p_entry_id: annaId, p_item: wurstId, p_delta: 1, p_edit_token: NEW_DEVICE_TOKEN,
+    });
+    expect(unwrap(byNewDevice).count).toBe(1);
+  });
+
+  it('drops a rejected request without handing out the entry', async () => {
+    const { backend, sessionId, annaId } = await setup();
+    const requestId = unwrap(await backend.mutate('request_entry_claim', {
+      p_entry_id: annaId, p_edit_token: NEW_DEVICE_TOKEN,
+    }));
+
+    unwrap(await backend.mutate('resolve_claim_request', {
+      p_request_id: requestId, p_approve: false, p_admin_secret: OWNER_SECRET,
+    }));
+    expect(unwrap(await backend.mutate('get_claim_status', {
+      p_entry_id: annaId, p_edit_token: NEW_DEVICE_TOKEN,
+    }))).toBe('NONE');
+    expect(unwrap(await backend.mutate('get_claim_requests', {
+      p_session_id: sessionId, p_admin_secret: OWNER_SECRET,
+    }))).toEqual([]);
+  });
+
+  it('keeps one open request per entry', async () => {
+    const { backend, sessionId, annaId } = await setup();
+    const request = (token: string) =>
+      backend.mutate('request_entry_claim', { p_entry_id: annaId, p_edit_token: token });
+    unwrap(await request(NEW_DEVICE_TOKEN));
+    const latest = unwrap(await request(BERT_TOKEN));
+
+    expect(unwrap(await backend.mutate('get_claim_requests', {
+      p_session_id: sessionId, p_admin_secret: OWNER_SECRET,
+    })).map((r) => r.id)).toEqual([latest]);
+    expect(unwrap(await backend.mutate('get_claim_status', {
+      p_entry_id: annaId, p_edit_token: NEW_DEVICE_TOKEN,
+    }))).toBe('NONE');
+  });
+
+  it('moves the entry with a claim code, once', async () => {
+    const { backend, sessionId, wurstId, annaId } = await setup();
+    const code = unwrap(await backend.mutate('create_claim_code', {
+      p_entry_id: annaId, p_edit_token: ANNA_TOKEN,
+    }));
+    const redeem = () => backend.mutate('redeem_claim_code', {
+      // Typed by hand: lower case and with a dash
+      p_session_id: sessionId, p_code: `${code.slice(0, 4)}-${code.slice(4)}`.toLowerCase(),
+      p_edit_token: NEW_DEVICE_TOKEN,
+    });
+
+    expect(unwrap(await redeem()).id).toBe(annaId);
+    expect((await redeem()).error?.message).toBe('Invalid or expired claim code');
+
+    // The old device lost the entry
+    const byOldDevice = await backend.mutate('increment_entry', {
+      p_entry_id: annaId, p_item: wurstId, p_delta: 1, p_edit_token: ANNA_TOKEN,
+    });
+    expect(byOldDevice.error?.message).toBe('Not allowed to change this entry');
+  });
+
+  it('creates codes only for the own entry', async () => {
+    const { backend, annaId } = await setup();
+    const { error } = await backend.mutate('create_claim_code', {
+      p_entry_id: annaId, p_edit_token: BERT_TOKEN,
+    });
+    expect(error?.message).toBe('Not allowed to change this entry');
+  });
+});
+
+describe('revert_event', () => {
+  const latestEvent = async (backend: EinstandBackend, sessionId: string) =>
+    unwrap(await backend.mutate('get_session_events', {
+      p_session_id: sessionId, p_admin_secret: OWNER_SECRET, p_limit: 1,
+    }))[0];
+
+  it('takes back a count, but only once', async () => {
+    const { backend, sessionId, wurstId, annaId } = await setup();
+    unwrap(await backend.mutate('increment_entry', {
+      p_entry_id: annaId, p_item: wurstId, p_delta: 2, p_edit_token: ANNA_TOKEN,
+    }));
+    const event = await latestEvent(backend, sessionId);
+    const revert = () => backend.mutate('revert_event', {
+      p_session_id: sessionId, p_admin_secret: OWNER_SECRET, p_event_id: event.id,
+    });
+
+    expect(unwrap(await revert())).toBe(true);
+    expect(await getCount(backend, sessionId, annaId, wurstId)).toBe(0);
+    expect((await revert()).error?.message).toBe('Event already reverted');
+
+    const revertEvent = await latestEvent(backend, sessionId);
+    expect(revertEvent.event_type).toBe('REVERT');
+    const again = await backend.mutate('revert_event', {
+      p_session_id: sessionId, p_admin_secret: OWNER_SECRET, p_event_id: revertEvent.id,
+    });
+    expect(again.error?.message).toBe('A revert cannot be reverted');
+  });
+
+  it('brings a deleted entry back with its counts', async () => {
+    const { backend, sessionId, wurstId, annaId } = await setup();
+    unwrap(await backend.mutate('increment_entry', {
+      p_entry_id: annaId, p_item: wurstId, p_delta: 3, p_edit_token: ANNA_TOKEN,
+    }));
+    unwrap(await backend.mutate('delete_entry', { p_entry_id: annaId, p_admin_secret: OWNER_SECRET }));
+    const event = await latestEvent(backend, sessionId);
+
+    unwrap(await backend.mutate('revert_event', {
+      p_session_id: sessionId, p_admin_secret: OWNER_SECRET, p_event_id: event.id,
+    }));
+
+    const { entries } = unwrap(await backend.listEntries(sessionId));
+    expect(entries.map((e) => [e.id, e.display_name])).toEqual([[annaId, 'Anna']]);
+    expect(await getCount(backend, sessionId, annaId, wurstId)).toBe(3);
+  });
+
+  it('restores the counts before a reset', async () => {
+    const { backend, sessionId, wurstId, annaId } = await setup();
+    unwrap(await backend.mutate('increment_entry', {
+      p_entry_id: annaId, p_item: wurstId, p_delta: 4, p_edit_token: ANNA_TOKEN,
+    }));
+    unwrap(await backend.mutate('reset_entry', { p_entry_id: annaId, p_edit_token: ANNA_TOKEN }));
+    const event = await latestEvent(backend, sessionId);
+
+    unwrap(await backend.mutate('revert_event', {
+      p_session_id: sessionId, p_admin_secret: OWNER_SECRET, p_event_id: event.id,
+    }));
+    expect(await getCount(backend, sessionId, annaId, wurstId)).toBe(4);
+  });
+
+  it('is refused without an admin secret', async () => {
+    const { backend, sessionId, wurstId, annaId } = await setup();
+    unwrap(await backend.mutate('increment_entry', {
+      p_entry_id: annaId, p_item: wurstId, p_delta: 1, p_edit_token: ANNA_TOKEN,
+    }));
+    const event = await latestEvent(backend, sessionId);
+
+    expect(unwrap(await backend.mutate('revert_event', {
+      p_session_id: sessionId, p_admin_secret: ANNA_TOKEN, p_event_id: event.id,
+    }))).toBe(false);
+    expect(await getCount(backend, sessionId, annaId, wurstId)).toBe(1);
+  });
+});
+
+describe('storage', () => {
+  it('saves only the session a change touched', async () => {
+    const saved: StoredSessionChange[][] = [];
+    const backend = createMemoryBackend({ storage: { load: () => null, save: (changes) => saved.push(changes) } });
+    const create = (title: string) => backend.createSession({
+      p_title: title, p_mode: 'INVITE', p_admin_secret: OWNER_SECRET, p_items: [{ name: 'Weißwurst' }],
+    });
+    unwrap(await create('Erster'));
+    const sessionId = unwrap(await create('Zweiter'));
+    saved.length = 0;
+
+    unwrap(await backend.join({ p_session_id: sessionId, p_display_name: 'Anna', p_edit_token: ANNA_TOKEN }));
+    unwrap(await backend.listEntries(sessionId));
+
+    expect(saved).toHaveLength(1);
+    const [{ before, after }] = saved[0];
+    expect(after.sessions.map((s) => s.title)).toEqual(['Zweiter']);
+    expect(before.entries).toEqual([]);
+    expect(after.entries.map((e) => e.display_name)).toEqual(['Anna']);
+    expect(after.tokens).toHaveLength(1);
+  });
+
+  it('rolls back a failed change without touching other sessions', async () => {
+    const { backend, sessionId, wurstId, annaId } = await setup();
+    const other = unwrap(await backend.createSession({
+      p_title: 'Anderer', p_mode: 'INVITE', p_admin_secret: OWNER_SECRET, p_items: [{ name: 'Brezel' }],
+    }));
+
+    const { error } = await backend.mutate('set_entry_count', {
+      p_entry_id: annaId, p_item: wurstId, p_count: 1000, p_admin_secret: OWNER_SECRET,
+    });
+    expect(error?.code).toBe('23514');
+    expect(unwrap(await backend.getSession(other))?.title).toBe('Anderer');
+    expect(unwrap(await backend.listEntries(sessionId)).entries.map((e) => e.id)).toEqual([annaId]);
+  });
+});
+
+describe('limits', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('lets at most 20 participants join per minute', async () => {
+    vi.useFakeTimers();
+    const { backend, sessionId } = await setup();
+    const join = (index: number) => backend.join({
+      p_session_id: sessionId, p_display_name: `Gast ${index}`, p_edit_token: `guest-token-0123456789-${index}`,
+    });
+    for (let index = 1; index < 20; index++) {
+      unwrap(await join(index));
+      vi.advanceTimersByTime(1000);
+    }
+
+    expect((await join(20)).error?.code).toBe('WW003');
+
+    vi.advanceTimersByTime(60 * 1000);
+    expect(unwrap(await join(20)).display_name).toBe('Gast 20');
+  });
+
+  it('takes at most 5 claim requests per entry and minute', async () => {
+    vi.useFakeTimers();
+    const { backend, annaId } = await setup();
+    const request = () =>
+      backend.mutate('request_entry_claim', { p_entry_id: annaId, p_edit_token: NEW_DEVICE_TOKEN });
+
+    for (let index = 0; index < 5; index++) {
+      unwrap(await request());
+      vi.advanceTimersByTime(1000);
+    }
+    expect((await request()).error?.code).toBe('WW003');
+
+    vi.advanceTimersByTime(60 * 1000);
+    unwrap(await request());
+  });
+
+  it('copies all participants of a clone at once', async () => {
+    vi.useFakeTimers();
+    const { backend, sessionId } = await setup();
+    for (let index = 1; index < 25; index++) {
+      unwrap(await backend.join({
+        p_session_id: sessionId, p_display_name: `Gast ${index}`, p_edit_token: `guest-token-0123456789-${index}`,
+      }));
+      vi.advanceTimersByTime(4000);
+    }
+
+    const cloneId = unwrap(await backend.mutate('clone_session', {
+      p_session_id: sessionId, p_admin_secret: OWNER_SECRET, p_new_admin_secret: 'clone-secret-0123456789',
+      p_title: 'Nochmal', p_copy_participants: true,
+    }));
+    expect(unwrap(await backend.listEntries(cloneId)).entries).toHaveLength(25);
+  });
+});
+
+describe('purgeDeletedSessions', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('removes sessions deleted more than 14 days ago with all their rows', async () => {
+    vi.useFakeTimers();
+    const { backend, sessionId, wurstId, annaId } = await setup();
+    unwrap(await backend.mutate('increment_entry', {
+      p_entry_id: annaId, p_item: wurstId, p_delta: 1, p_edit_token: ANNA_TOKEN,
+    }));
+    const other = unwrap(await backend.createSession({
+      p_title: 'Bleibt', p_mode: 'INVITE', p_admin_secret: OWNER_SECRET, p_items: [{ name: 'Brezel' }],
+    }));
+    unwrap(await backend.mutate('delete_session', { p_session_id: sessionId, p_admin_secret: OWNER_SECRET }));
+
+    vi.advanceTimersByTime(13 * 24 * 60 * 60 * 1000);
+    expect(unwrap(await backend.purgeDeletedSessions())).toBe(0);
+    expect(unwrap(await backend.getAdminSession(sessionId, OWNER_SECRET))?.deleted_at).not.toBeNull();
+
+    vi.advanceTimersByTime(2 * 24 * 60 * 60 * 1000);
+    expect(unwrap(await backend.purgeDeletedSessions())).toBe(1);
+    expect(unwrap(await backend.getAdminSession(sessionId, OWNER_SECRET))).toBeNull();
+    expect(unwrap(await backend.mutate('restore_session', {
+      p_session_id: sessionId, p_admin_secret: OWNER_SECRET,
+    }))).toBe(false);
+    expect(unwrap(await backend.getSession(other))?.title).toBe('Bleibt');
+  });
+});
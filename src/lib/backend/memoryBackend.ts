@@ -0,0 +1,1231 @@
+/**
+ * In-Memory Backend
+ *
+ * Keeps all sessions in a plain object inside the current tab, for
+ * local development (VITE_BACKEND=memory) and automated tests - no
+ * credentials, no network. Follows the SQL functions in
+ * supabase/migrations: same permission checks, same limits, same
+ * error codes. Only the new-sessions-per-client limit is left to the
+ * caller, since there are no clients here. Every operation runs like
+ * a transaction: on an error the sessions it touched are rolled back
+ * and no change is announced.
+ *
+ * The self-hosted server (server/) runs the same logic with a
+ * storage that persists the state and a real hash for secrets, and
+ * calls purgeDeletedSessions() like the scheduled job of the SQL side.
+ * In the tab, secrets and tokens stay in plain text.
+ */
+
+import type {
+  AdminRole,
+  EinstandEvent,
+  Entry,
+  EntryItem,
+  EventType,
+  Item,
+  ItemKind,
+  Json,
+  SessionMode,
+  SessionStatus,
+} from '../database.types';
+import { hasPermission, type AdminPermission } from '../../utils/adminRoles';
+import type {
+  BackendError,
+  BackendResult,
+  EinstandBackend,
+  MutationName,
+  OperationArgs,
+  OperationResult,
+  SceneAnimation,
+  SessionListener,
+  Viewer,
+} from './types';
+
+// Same limits as the database (015_limits.sql and friends)
+const MAX_ENTRIES_PER_SESSION = 100;
+const MAX_ITEMS_PER_SESSION = 12;
+const MAX_COUNT = 999;
+const JOIN_RATE_PER_MINUTE = 20;
+const CLAIM_RATE_PER_MINUTE = 5;
+const SESSION_RETENTION_DAYS = 14;
+const CLAIM_CODE_MINUTES = 10;
+const CLAIM_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const MIN_SECRET_LENGTH = 16;
+
+export interface StoredSession {
+  id: string;
+  title: string | null;
+  mode: SessionMode;
+  status: SessionStatus;
+  created_at: string;
+  deleted_at: string | null;
+  secret_hashes: Partial<Record<AdminRole, string>>;
+}
+
+export interface StoredClaimRequest {
+  id: string;
+  entry_id: string;
+  session_id: string;
+  token_hash: string;
+  created_at: string;
+}
+
+export interface StoredClaimCode {
+  code_hash: string;
+  entry_id: string;
+  session_id: string;
+  expires_at: number;
+}
+
+export interface MemoryState {
+  sessions: StoredSession[];
+  entries: Entry[];
+  tokens: { entry_id: string; token_hash: string }[];
+  items: Item[];
+  entryItems: EntryItem[];
+  events: EinstandEvent[];
+  claimRequests: StoredClaimRequest[];
+  claimCodes: StoredClaimCode[];
+  // Client operation ids already counted by increment_entry
+  appliedOperations: { op_id: string; entry_id: string }[];
+}
+
+// p_items of create_session/update_session
+interface ItemPayload {
+  id?: string;
+  name?: string;
+  emoji?: string;
+  unit?: string;
+  price?: number | string | null;
+  kind?: ItemKind;
+}
+
+type Counts = Record<string, number>;
+
+// The rows of one session (and its entries) before and after a change
+export interface StoredSessionChange {
+  before: MemoryState;
+  after: MemoryState;
+}
+
+export interface MemoryStorage {
+  load(): MemoryState | null;
+  // Called after every committed change, with each session it touched
+  save(changes: StoredSessionChange[]): void;
+}
+
+export interface MemoryBackend extends EinstandBackend {
+  // Hard-deletes sessions deleted longer than the retention window ago
+  // (purge_deleted_sessions()), returns how many
+  purgeDeletedSessions(): Promise<BackendResult<number>>;
+}
+
+export interface MemoryBackendOptions {
+  storage?: MemoryStorage;
+  hashSecret?: (secret: string) => string;
+}
+
+type Operations = {
+  [K in MutationName]: (args: OperationArgs<K>) => OperationResult<K>;
+};
+
+interface PresenceMember {
+  viewer: Viewer | null;
+  onChange: (viewers: Viewer[]) => void;
+}
+
+interface AnimationMember {
+  onAnimation: (animation: SceneAnimation) => void;
+}
+
+interface Notice {
+  sessionId: string;
+  notify: (listener: SessionListener) => void;
+}
+
+// Raised like a PL/pgSQL exception (P0001 = RAISE EXCEPTION)
+function fail(message: string, code = 'P0001'): never {
+  throw Object.assign(new Error(message), { code });
+}
+
+function check(condition: boolean, relation: string, constraint: string) {
+  if (!condition) {
+    fail(`new row for relation "${relation}" violates check constraint "${constraint}"`, '23514');
+  }
+}
+
+const now = () => new Date().toISOString();
+const normalizeName = (name: string) => name.trim().toLowerCase();
+const normalizeClaimCode = (code: string | null) => (code ?? '').replace(/[\s-]/g, '').toUpperCase();
+
+function emptyState(): MemoryState {
+  return {
+    sessions: [],
+    entries: [],
+    tokens: [],
+    items: [],
+    entryItems: [],
+    events: [],
+    claimRequests: [],
+    claimCodes: [],
+    appliedOperations: [],
+  };
+}
+
+const TABLES = Object.keys(emptyState()) as (keyof MemoryState)[];
+
+/**
+ * The rows of one session (keep = true) or all other rows. Tokens and
+ * applied operations belong to the session through entryIds.
+ */
+function filterSession(
+  source: MemoryState,
+  sessionId: string,
+  entryIds: Set<string>,
+  keep: boolean
+): MemoryState {
+  const is = <T>(belongs: (row: T) => boolean) => (row: T) => belongs(row) === keep;
+  const inSession = (row: { session_id: string }) => row.session_id === sessionId;
+  const ofEntry = (row: { entry_id: string }) => entryIds.has(row.entry_id);
+  return {
+    sessions: source.sessions.filter(is((session: StoredSession) => session.id === sessionId)),
+    entries: source.entries.filter(is(inSession)),
+    tokens: source.tokens.filter(is(ofEntry)),
+    items: source.items.filter(is(inSession)),
+    entryItems: source.entryItems.filter(is(inSession)),
+    events: source.events.filter(is(inSession)),
+    claimRequests: source.claimRequests.filter(is(inSession)),
+    claimCodes: source.claimCodes.filter(is(inSession)),
+    appliedOperations: source.appliedOperations.filter(is(ofEntry)),
+  };
+}
+
+const combineStates = (a: MemoryState, b: MemoryState) =>
+  Object.fromEntries(TABLES.map((table) => [table, [...a[table], ...b[table]]])) as unknown as MemoryState;
+
+export function createMemoryBackend(options: MemoryBackendOptions = {}): MemoryBackend {
+  const { storage, hashSecret = (secret: string) => secret } = options;
+  let state = storage?.load() ?? emptyState();
+  let notices: Notice[] = [];
+  // Rows of the sessions the running operation changes, as they were before
+  let snapshots = new Map<string, MemoryState>();
+  // Start of the running operation, like now() in a transaction
+  let startedAt = now();
+  // Claim requests per entry (einstand_rate_limits), not persisted
+  const claimHits = new Map<string, string[]>();
+  const listeners = new Map<string, Set<SessionListener>>();
+  const presence = new Map<string, Set<PresenceMember>>();
+  const animationMembers = new Map<string, Set<AnimationMember>>();
+
+  const announce = (sessionId: string, notify: Notice['notify']) => {
+    notices.push({ sessionId, notify });
+  };
+
+  const entryIdsOf = (sessionId: string, ...sources: MemoryState[]) =>
+    new Set(sources.flatMap((s) => s.entries.filter((e) => e.session_id === sessionId).map((e) => e.id)));
+
+  const getSessionRows = (sessionId: string) =>
+    filterSession(state, sessionId, entryIdsOf(sessionId, state), true);
+
+  // Called before the first change to a session's rows (or its entries'),
+  // so a failed operation only has to put back what it touched
+  const touch = (sessionId: string) => {
+    if (!snapshots.has(sessionId)) snapshots.set(sessionId, structuredClone(getSessionRows(sessionId)));
+  };
+
+  const restoreSession = (sessionId: string, rows: MemoryState) => {
+    const others = filterSession(state, sessionId, entryIdsOf(sessionId, state, rows), false);
+    state = combineStates(others, rows);
+  };
+
+  // Runs fn as one transaction and announces its changes afterwards
+  const run = async <T>(fn: () => T | null): Promise<BackendResult<T>> => {
+    notices = [];
+    snapshots = new Map();
+    startedAt = now();
+    try {
+      const data = structuredClone(fn());
+      if (snapshots.size > 0) {
+        storage?.save([...snapshots].map(([sessionId, before]) => ({ before, after: getSessionRows(sessionId) })));
+      }
+      const committed = notices;
+      // Like realtime: listeners hear about it after the call returned
+      queueMicrotask(() => {
+        committed.forEach(({ sessionId, notify }) => {
+          listeners.get(sessionId)?.forEach(notify);
+        });
+      });
+      return { data, error: null };
+    } catch (err) {
+      snapshots.forEach((rows, sessionId) => restoreSession(sessionId, rows));
+      // Anything not raised on purpose is a bug (internal_error)
+      const { message, code = 'XX000' } = err as BackendError;
+      return { data: null, error: { message, code } };
+    } finally {
+      notices = [];
+      snapshots = new Map();
+    }
+  };
+
+  // ---- Sessions and roles ----
+
+  const findSession = (sessionId: string) => state.sessions.find((s) => s.id === sessionId);
+
+  const isSessionActive = (sessionId: string) => {
+    const session = findSession(sessionId);
+    return !!session && session.deleted_at === null;
+  };
+
+  const isWithinRetention = (session: StoredSession) =>
+    session.deleted_at === null ||
+    Date.parse(session.deleted_at) > Date.now() - SESSION_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+
+  const getAdminRole = (sessionId: string, secret: string | null | undefined): AdminRole | null => {
+    const session = findSession(sessionId);
+    if (!session || !secret) return null;
+    const hash = hashSecret(secret);
+    if (session.secret_hashes.OWNER === hash) return 'OWNER';
+    if (session.secret_hashes.COHOST === hash) return 'COHOST';
+    return null;
+  };
+
+  const hasAdminPermission = (
+    sessionId: string,
+    secret: string | null | undefined,
+    permission: AdminPermission
+  ) => {
+    const role = getAdminRole(sessionId, secret);
+    return role !== null && hasPermission(role, permission);
+  };
+
+  const isOwner = (sessionId: string, secret: string | null | undefined) =>
+    getAdminRole(sessionId, secret) === 'OWNER';
+
+  const requireSecretLength = (secret: string | null | undefined, message: string) => {
+    if (!secret || secret.length < MIN_SECRET_LENGTH) fail(message);
+  };
+
+  // All session updates are broadcast, like the sessions_broadcast trigger
+  const updateSession = (session: StoredSession, changes: Partial<StoredSession>) => {
+    const previousStatus = session.status;
+    touch(session.id);
+    Object.assign(session, changes);
+    if (session.title !== null) {
+      check(session.title.length <= 100, 'einstand_sessions', 'einstand_sessions_title_length');
+    }
+    const { id, title, mode, status, created_at, deleted_at } = session;
+    announce(id, (l) =>
+      l.onSessionChanged?.({
+        id,
+        title,
+        mode,
+        status,
+        created_at,
+        previous_status: previousStatus,
+        deleted: deleted_at !== null,
+      })
+    );
+  };
+
+  const insertSession = (title: string | null, mode: SessionMode, ownerSecret: string) => {
+    const session: StoredSession = {
+      id: crypto.randomUUID(),
+      title,
+      mode,
+      status: 'OPEN',
+      created_at: now(),
+      deleted_at: null,
+      secret_hashes: { OWNER: hashSecret(ownerSecret) },
+    };
+    if (title !== null) {
+      check(title.length <= 100, 'einstand_sessions', 'einstand_sessions_title_length');
+    }
+    touch(session.id);
+    state.sessions.push(session);
+    return session;
+  };
+
+  // ---- Items ----
+
+  const parseItems = (items: Json): ItemPayload[] => {
+    if (!Array.isArray(items) || items.length === 0) fail('At least one item is required');
+    return items as ItemPayload[];
+  };
+
+  const toItemFields = (item: ItemPayload, mode: SessionMode) => ({
+    name: item.name ?? '',
+    emoji: item.emoji || '🍽️',
+    unit: item.unit || 'Stück',
+    price: mode === 'SPLIT' && item.price != null ? Number(item.price) : null,
+  });
+
+  const checkItem = (item: Item) => {
+    const name = item.name.trim().length;
+    check(name >= 1 && name <= 30, 'einstand_items', 'einstand_items_name_length');
+    check(item.unit.length <= 15, 'einstand_items', 'einstand_items_unit_length');
+  };
+
+  const insertItem = (sessionId: string, fields: Omit<Item, 'id' | 'session_id' | 'created_at'>) => {
+    if (state.items.filter((i) => i.session_id === sessionId).length >= MAX_ITEMS_PER_SESSION) {
+      fail('Too many items', 'WW002');
+    }
+    const item: Item = { id: crypto.randomUUID(), session_id: sessionId, created_at: now(), ...fields };
+    checkItem(item);
+    touch(sessionId);
+    state.items.push(item);
+    return item;
+  };
+
+  const sessionItems = (sessionId: string) =>
+    state.items
+      .filter((i) => i.session_id === sessionId)
+      .sort((a, b) => a.sort_order - b.sort_order);
+
+  const requireItem = (sessionId: string, itemId: string) => {
+    if (!state.items.some((i) => i.id === itemId && i.session_id === sessionId)) {
+      fail('Item not found');
+    }
+  };
+
+  // ---- Entries and counts ----
+
+  const findEntry = (entryId: string) => state.entries.find((e) => e.id === entryId);
+
+  const checkEntryName = (sessionId: string, entryId: string, displayName: string) => {
+    const length = displayName.trim().length;
+    check(length >= 1 && length <= 50, 'einstand_entries', 'einstand_entries_display_name_length');
+    if (
+      state.entries.some(
+        (e) =>
+          e.session_id === sessionId &&
+          e.id !== entryId &&
+          normalizeName(e.display_name) === normalizeName(displayName)
+      )
+    ) {
+      fail(
+        'duplicate key value violates unique constraint "idx_entries_session_name_unique"',
+        '23505'
+      );
+    }
+  };
+
+  const insertEntry = (
+    sessionId: string,
+    displayName: string,
+    id: string = crypto.randomUUID(),
+    createdAt = now()
+  ) => {
+    if (state.entries.filter((e) => e.session_id === sessionId).length >= MAX_ENTRIES_PER_SESSION) {
+      fail('Session is full', 'WW001');
+    }
+    // Entries of the running operation don't count, so clone_session
+    // can copy all participants at once
+    const minuteAgo = new Date(Date.parse(startedAt) - 60 * 1000).toISOString();
+    if (
+      state.entries.filter(
+        (e) => e.session_id === sessionId && e.created_at > minuteAgo && e.created_at < startedAt
+      ).length >= JOIN_RATE_PER_MINUTE
+    ) {
+      fail('Too many participants joined, try again in a minute', 'WW003');
+    }
+    checkEntryName(sessionId, id, displayName);
+    const entry: Entry = {
+      id,
+      session_id: sessionId,
+      display_name: displayName,
+      created_at: createdAt,
+      updated_at: now(),
+    };
+    touch(sessionId);
+    state.entries.push(entry);
+    const inserted = { ...entry };
+    announce(sessionId, (l) => l.onEntryInserted?.(inserted));
+    return entry;
+  };
+
+  const renameEntry = (entry: Entry, displayName: string) => {
+    checkEntryName(entry.session_id, entry.id, displayName);
+    touch(entry.session_id);
+    entry.display_name = displayName;
+    entry.updated_at = now();
+    const updated = { ...entry };
+    announce(entry.session_id, (l) => l.onEntryUpdated?.(updated));
+    return updated;
+  };
+
+  // Tokens, counts, claims, codes and applied operations go with the entry (ON DELETE CASCADE)
+  const removeEntry = (entry: Entry) => {
+    touch(entry.session_id);
+    state.entries = state.entries.filter((e) => e.id !== entry.id);
+    state.tokens = state.tokens.filter((t) => t.entry_id !== entry.id);
+    state.entryItems = state.entryItems.filter((r) => r.entry_id !== entry.id);
+    state.claimRequests = state.claimRequests.filter((r) => r.entry_id !== entry.id);
+    state.claimCodes = state.claimCodes.filter((c) => c.entry_id !== entry.id);
+    state.appliedOperations = state.appliedOperations.filter((o) => o.entry_id !== entry.id);
+    announce(entry.session_id, (l) => l.onEntryDeleted?.(entry.id));
+  };
+
+  const hasTokenHash = (entryId: string, tokenHash: string) =>
+    state.tokens.some((t) => t.entry_id === entryId && t.token_hash === tokenHash);
+
+  const entryHasToken = (entryId: string, token: string | null | undefined) =>
+    !!token && hasTokenHash(entryId, hashSecret(token));
+
+  const addTokenHash = (entry: Entry, tokenHash: string) => {
+    if (hasTokenHash(entry.id, tokenHash)) return;
+    touch(entry.session_id);
+    state.tokens.push({ entry_id: entry.id, token_hash: tokenHash });
+  };
+
+  const getOpenEntry = (entryId: string) => {
+    const entry = findEntry(entryId);
+    const session = entry && findSession(entry.session_id);
+    if (!entry || !session || session.status !== 'OPEN' || session.deleted_at !== null) {
+      fail('Entry not found or session not open');
+    }
+    return entry;
+  };
+
+  // Owner and co-host may change entries of OPEN and CLOSED sessions,
+  // participants only their own entry while OPEN
+  const getWritableEntry = (
+    entryId: string,
+    editToken: string | null | undefined,
+    adminSecret: string | null | undefined
+  ) => {
+    const entry = findEntry(entryId);
+    if (!entry || !isSessionActive(entry.session_id)) fail('Entry not found');
+    if (hasAdminPermission(entry.session_id, adminSecret, 'edit_entries')) return entry;
+
+    getOpenEntry(entryId);
+    if (!entryHasToken(entryId, editToken)) fail('Not allowed to change this entry', '42501');
+    return entry;
+  };
+
+  const findCount = (entryId: string, itemId: string) =>
+    state.entryItems.find((r) => r.entry_id === entryId && r.item_id === itemId);
+
+  const setCount = (entry: Entry, itemId: string, count: number) => {
+    check(count >= 0 && count <= MAX_COUNT, 'einstand_entry_items', 'einstand_entry_items_count_range');
+    touch(entry.session_id);
+    let row = findCount(entry.id, itemId);
+    if (row) {
+      row.count = count;
+      row.updated_at = now();
+    } else {
+      row = { entry_id: entry.id, item_id: itemId, session_id: entry.session_id, count, updated_at: now() };
+      state.entryItems.push(row);
+    }
+    const changed = { ...row };
+    announce(entry.session_id, (l) => l.onEntryItemChanged?.(changed));
+    return changed;
+  };
+
+  // Non-zero counts as { "<item_id>": <count> }
+  const getEntryCounts = (entryId: string): Counts =>
+    Object.fromEntries(
+      state.entryItems
+        .filter((r) => r.entry_id === entryId && r.count > 0)
+        .map((r) => [r.item_id, r.count])
+    );
+
+  // Add counts back to an entry (unknown items are skipped)
+  const restoreEntryCounts = (entryId: string, counts: Json | undefined) => {
+    const entry = findEntry(entryId);
+    if (!entry || !counts || typeof counts !== 'object' || Array.isArray(counts)) return;
+    Object.entries(counts).forEach(([itemId, count]) => {
+      if (!state.items.some((i) => i.id === itemId && i.session_id === entry.session_id)) return;
+      setCount(entry, itemId, (findCount(entryId, itemId)?.count ?? 0) + Number(count));
+    });
+  };
+
+  // ---- Audit log ----
+
+  const logEvent = (
+    sessionId: string,
+    entryId: string | null,
+    eventType: EventType,
+    itemId: string | null,
+    delta: number | null,
+    payload: { [key: string]: Json | undefined },
+    actor: string | null | undefined,
+    actorEntryId: string | null | undefined,
+    revertsEventId: string | null = null
+  ) => {
+    touch(sessionId);
+    state.events.push({
+      id: crypto.randomUUID(),
+      session_id: sessionId,
+      entry_id: entryId,
+      event_type: eventType,
+      item_id: itemId,
+      delta,
+      payload,
+      actor: actor ? actor.slice(0, 50) : null,
+      actor_entry_id: actorEntryId ?? null,
+      reverts_event_id: revertsEventId,
+      created_at: now(),
+    });
+  };
+
+  const payloadOf = (event: EinstandEvent) =>
+    (event.payload ?? {}) as { [key: string]: Json | undefined };
+
+  // ---- Operations (one per RPC function) ----
+
+  const operations: Operations = {
+    increment_entry: (args) => {
+      if (!args.p_delta) fail('Delta must not be zero');
+      const entry = getWritableEntry(args.p_entry_id, args.p_edit_token, args.p_admin_secret);
+      requireItem(entry.session_id, args.p_item);
+
+      // Replayed operation: already counted, just report the current state
+      if (args.p_op_id) {
+        if (state.appliedOperations.some((o) => o.op_id === args.p_op_id)) {
+          return {
+            ...(findCount(entry.id, args.p_item) ?? {
+              entry_id: entry.id,
+              item_id: args.p_item,
+              session_id: entry.session_id,
+              count: 0,
+              updated_at: now(),
+            }),
+          };
+        }
+        touch(entry.session_id);
+        state.appliedOperations.push({ op_id: args.p_op_id, entry_id: entry.id });
+      }
+
+      const oldCount = findCount(entry.id, args.p_item)?.count ?? 0;
+      const row = setCount(entry, args.p_item, Math.max(oldCount + args.p_delta, 0));
+
+      // Log the delta that was actually applied (clamping may swallow it)
+      if (row.count !== oldCount) {
+        logEvent(
+          entry.session_id, entry.id, args.p_delta > 0 ? 'INCREMENT' : 'DECREMENT',
+          args.p_item, row.count - oldCount, { display_name: entry.display_name },
+          args.p_actor, args.p_actor_entry_id
+        );
+      }
+      return row;
+    },
+
+    reset_entry: (args) => {
+      const entry = getWritableEntry(args.p_entry_id, args.p_edit_token, args.p_admin_secret);
+      const before = getEntryCounts(entry.id);
+
+      Object.keys(before).forEach((itemId) => setCount(entry, itemId, 0));
+
+      if (Object.keys(before).length > 0) {
+        logEvent(
+          entry.session_id, entry.id, 'RESET', null, null,
+          { display_name: entry.display_name, before },
+          args.p_actor, args.p_actor_entry_id
+        );
+      }
+      return true;
+    },
+
+    rename_entry: (args) => {
+      const entry = getWritableEntry(args.p_entry_id, args.p_edit_token, args.p_admin_secret);
+      const before = entry.display_name;
+      const updated = renameEntry(entry, args.p_display_name);
+
+      if (updated.display_name !== before) {
+        logEvent(
+          entry.session_id, entry.id, 'RENAME', null, null,
+          { display_name: updated.display_name, before, after: updated.display_name },
+          args.p_actor, args.p_actor_entry_id
+        );
+      }
+      return updated;
+    },
+
+    delete_entry: (args) => {
+      const entry = getWritableEntry(args.p_entry_id, args.p_edit_token, args.p_admin_secret);
+      const counts = getEntryCounts(entry.id);
+
+      removeEntry(entry);
+      logEvent(
+        entry.session_id, entry.id, 'DELETE', null, null,
+        { display_name: entry.display_name, created_at: entry.created_at, counts },
+        args.p_actor, args.p_actor_entry_id
+      );
+      return true;
+    },
+
+    get_session_events: (args) => {
+      if (!isSessionActive(args.p_session_id)
+        || !hasAdminPermission(args.p_session_id, args.p_admin_secret, 'view')) {
+        return [];
+      }
+      const limit = Math.min(Math.max(args.p_limit ?? 500, 1), 1000);
+      return state.events
+        .filter((e) => e.session_id === args.p_session_id)
+        .reverse()
+        .slice(0, limit);
+    },
+
+    revert_event: (args) => {
+      if (!isSessionActive(args.p_session_id)
+        || !hasAdminPermission(args.p_session_id, args.p_admin_secret, 'edit_entries')) {
+        return false;
+      }
+
+      const event = state.events.find((e) => e.id === args.p_event_id && e.session_id === args.p_session_id);
+      if (!event) fail('Event not found');
+      if (event.event_type === 'REVERT') fail('A revert cannot be reverted');
+      if (state.events.some((e) => e.reverts_event_id === event.id)) fail('Event already reverted');
+
+      const payload = payloadOf(event);
+      const entry = event.entry_id ? findEntry(event.entry_id) : undefined;
+
+      switch (event.event_type) {
+        case 'INCREMENT':
+        case 'DECREMENT': {
+          const row = entry && event.item_id ? findCount(entry.id, event.item_id) : undefined;
+          if (entry && row) setCount(entry, row.item_id, Math.max(row.count - (event.delta ?? 0), 0));
+          break;
+        }
+        case 'RESET':
+          if (entry) restoreEntryCounts(entry.id, payload.before);
+          break;
+        case 'RENAME':
+          if (entry) renameEntry(entry, String(payload.before));
+          break;
+        case 'DELETE':
+          if (event.entry_id && !entry) {
+            insertEntry(
+              args.p_session_id,
+              String(payload.display_name),
+              event.entry_id,
+              typeof payload.created_at === 'string' ? payload.created_at : now()
+            );
+          }
+          if (event.entry_id) restoreEntryCounts(event.entry_id, payload.counts);
+          break;
+        case 'JOIN':
+          if (entry) removeEntry(entry);
+          break;
+      }
+
+      logEvent(
+        args.p_session_id, event.entry_id, 'REVERT', event.item_id, event.delta,
+        { display_name: payload.display_name, reverted_type: event.event_type },
+        'Admin', null, event.id
+      );
+      return true;
+    },
+
+    close_session: (args) => {
+      const session = findSession(args.p_session_id);
+      if (!session || session.deleted_at !== null || session.status !== 'OPEN'
+        || !hasAdminPermission(session.id, args.p_admin_secret, 'close')) {
+        return false;
+      }
+      updateSession(session, { status: 'CLOSED' });
+      return true;
+    },
+
+    reopen_session: (args) => {
+      const session = findSession(args.p_session_id);
+      if (!session || session.deleted_at !== null || session.status !== 'CLOSED'
+        || !hasAdminPermission(session.id, args.p_admin_secret, 'close')) {
+        return false;
+      }
+      updateSession(session, { status: 'OPEN' });
+      return true;
+    },
+
+    delete_session: (args) => {
+      const session = findSession(args.p_session_id);
+      if (!session || session.deleted_at !== null || !isOwner(session.id, args.p_admin_secret)) {
+        return false;
+      }
+      updateSession(session, { deleted_at: now() });
+      return true;
+    },
+
+    restore_session: (args) => {
+      const session = findSession(args.p_session_id);
+      if (!session || session.deleted_at === null || !isWithinRetention(session)
+        || !isOwner(session.id, args.p_admin_secret)) {
+        return false;
+      }
+      updateSession(session, { deleted_at: null });
+      return true;
+    },
+
+    update_session: (args) => {
+      const session = findSession(args.p_session_id);
+      if (!session || session.deleted_at !== null || !isOwner(session.id, args.p_admin_secret)) {
+        return false;
+      }
+
+      const items = parseItems(args.p_items);
+      const keptIds = new Set(items.map((item) => item.id ?? ''));
+
+      // Items that are removed must not have counts
+      if (state.entryItems.some(
+        (r) => r.session_id === session.id && r.count > 0 && !keptIds.has(r.item_id)
+      )) {
+        fail('Cannot remove an item that has already been counted');
+      }
+
+      const removed = new Set(
+        state.items.filter((i) => i.session_id === session.id && !keptIds.has(i.id)).map((i) => i.id)
+      );
+      touch(session.id);
+      state.items = state.items.filter((i) => !removed.has(i.id));
+      state.entryItems = state.entryItems.filter((r) => !removed.has(r.item_id));
+
+      items.forEach((payload, index) => {
+        const existing = state.items.find((i) => i.session_id === session.id && i.id === payload.id);
+        if (existing) {
+          Object.assign(existing, toItemFields(payload, args.p_mode), { sort_order: index });
+          checkItem(existing);
+        } else {
+          insertItem(session.id, {
+            ...toItemFields(payload, args.p_mode),
+            kind: payload.kind ?? 'EXTRA',
+            sort_order: index,
+          });
+        }
+      });
+
+      updateSession(session, { title: args.p_title, mode: args.p_mode });
+      return true;
+    },
+
+    set_entry_count: (args) => {
+      if (args.p_count === null || args.p_count < 0) fail('Count must not be negative');
+
+      // No edit token: only the admin path of getWritableEntry can pass
+      const entry = getWritableEntry(args.p_entry_id, null, args.p_admin_secret);
+      requireItem(entry.session_id, args.p_item);
+
+      const oldCount = findCount(entry.id, args.p_item)?.count ?? 0;
+      const row = setCount(entry, args.p_item, args.p_count);
+
+      if (args.p_count !== oldCount) {
+        logEvent(
+          entry.session_id, entry.id, args.p_count > oldCount ? 'INCREMENT' : 'DECREMENT',
+          args.p_item, args.p_count - oldCount, { display_name: entry.display_name },
+          'Admin', null
+        );
+      }
+      return row;
+    },
+
+    admin_add_entry: (args) => {
+      if (!isSessionActive(args.p_session_id)
+        || !hasAdminPermission(args.p_session_id, args.p_admin_secret, 'edit_entries')) {
+        fail('Session not found or invalid admin secret');
+      }
+      if (!args.p_display_name?.trim()) fail('Name must not be empty');
+
+      const entry = insertEntry(args.p_session_id, args.p_display_name.trim());
+      logEvent(
+        args.p_session_id, entry.id, 'JOIN', null, null,
+        { display_name: entry.display_name },
+        'Admin', null
+      );
+      return entry;
+    },
+
+    merge_entries: (args) => {
+      if (!isSessionActive(args.p_session_id)
+        || !hasAdminPermission(args.p_session_id, args.p_admin_secret, 'edit_entries')) {
+        return false;
+      }
+      if (args.p_source_entry_id === args.p_target_entry_id) fail('Cannot merge an entry into itself');
+
+      const source = findEntry(args.p_source_entry_id);
+      const target = findEntry(args.p_target_entry_id);
+      if (source?.session_id !== args.p_session_id || target?.session_id !== args.p_session_id) {
+        fail('Entry not found');
+      }
+
+      const counts = getEntryCounts(source.id);
+
+      // Move counts to the target, one logged INCREMENT per item
+      Object.entries(counts).forEach(([itemId, count]) => {
+        setCount(target, itemId, (findCount(target.id, itemId)?.count ?? 0) + count);
+        logEvent(
+          args.p_session_id, target.id, 'INCREMENT', itemId, count,
+          { display_name: target.display_name, merged_from: source.display_name },
+          'Admin', null
+        );
+      });
+
+      removeEntry(source);
+      logEvent(
+        args.p_session_id, source.id, 'DELETE', null, null,
+        {
+          display_name: source.display_name,
+          created_at: source.created_at,
+          counts,
+          merged_into: target.display_name,
+        },
+        'Admin', null
+      );
+      return true;
+    },
+
+    clone_session: (args) => {
+      const source = findSession(args.p_session_id);
+      if (!source || source.deleted_at !== null || !isOwner(source.id, args.p_admin_secret)) {
+        fail('Session not found or invalid admin secret');
+      }
+      requireSecretLength(args.p_new_admin_secret, 'Admin secret too short');
+
+      const session = insertSession(args.p_title, source.mode, args.p_new_admin_secret);
+
+      sessionItems(source.id).forEach(({ name, emoji, unit, price, kind, sort_order }) => {
+        insertItem(session.id, { name, emoji, unit, price, kind, sort_order });
+      });
+
+      if (args.p_copy_participants) {
+        state.entries
+          .filter((e) => e.session_id === source.id)
+          .sort((a, b) => a.created_at.localeCompare(b.created_at))
+          .forEach(({ display_name }) => {
+            const entry = insertEntry(session.id, display_name);
+            logEvent(session.id, entry.id, 'JOIN', null, null, { display_name }, 'Admin', null);
+          });
+      }
+      return session.id;
+    },
+
+    rotate_admin_secret: (args) => {
+      requireSecretLength(args.p_new_admin_secret, 'Admin secret too short');
+
+      const session = findSession(args.p_session_id);
+      if (!session || session.deleted_at !== null || !isOwner(session.id, args.p_admin_secret)) {
+        return false;
+      }
+      touch(session.id);
+      session.secret_hashes.OWNER = hashSecret(args.p_new_admin_secret);
+      return true;
+    },
+
+    set_cohost_secret: (args) => {
+      const session = findSession(args.p_session_id);
+      if (!session || session.deleted_at !== null
+        || !hasAdminPermission(session.id, args.p_admin_secret, 'manage_links')) {
+        return false;
+      }
+      requireSecretLength(args.p_cohost_secret, 'Co-host secret too short');
+
+      touch(session.id);
+      session.secret_hashes.COHOST = hashSecret(args.p_cohost_secret);
+      return true;
+    },
+
+    revoke_cohost_secret: (args) => {
+      const session = findSession(args.p_session_id);
+      if (!session || !hasAdminPermission(session.id, args.p_admin_secret, 'manage_links')
+        || !session.secret_hashes.COHOST) {
+        return false;
+      }
+      touch(session.id);
+      delete session.secret_hashes.COHOST;
+      return true;
+    },
+
+    request_entry_claim: (args) => {
+      requireSecretLength(args.p_edit_token, 'Edit token too short');
+      const entry = getOpenEntry(args.p_entry_id);
+      const tokenHash = hashSecret(args.p_edit_token);
+
+      const minuteAgo = new Date(Date.parse(startedAt) - 60 * 1000).toISOString();
+      const hits = (claimHits.get(entry.id) ?? []).filter((hit) => hit > minuteAgo);
+      if (hits.length >= CLAIM_RATE_PER_MINUTE) fail('Rate limit exceeded', 'WW003');
+      claimHits.set(entry.id, [...hits, startedAt]);
+
+      // One open request per entry: a new one replaces it
+      touch(entry.session_id);
+      state.claimRequests = state.claimRequests.filter(
+        (r) => r.entry_id !== entry.id || r.token_hash === tokenHash
+      );
+      let request = state.claimRequests.find(
+        (r) => r.entry_id === entry.id && r.token_hash === tokenHash
+      );
+      if (request) {
+        request.created_at = now();
+      } else {
+        request = {
+          id: crypto.randomUUID(),
+          entry_id: entry.id,
+          session_id: entry.session_id,
+          token_hash: tokenHash,
+          created_at: now(),
+        };
+        state.claimRequests.push(request);
+      }
+
+      announce(entry.session_id, (l) => l.onClaimRequested?.());
+      return request.id;
+    },
+
+    get_claim_status: (args) => {
+      if (entryHasToken(args.p_entry_id, args.p_edit_token)) return 'CLAIMED';
+      const tokenHash = hashSecret(args.p_edit_token ?? '');
+      if (state.claimRequests.some((r) => r.entry_id === args.p_entry_id && r.token_hash === tokenHash)) {
+        return 'PENDING';
+      }
+      return 'NONE';
+    },
+
+    get_claim_requests: (args) => {
+      if (!isSessionActive(args.p_session_id)) return [];
+      const isAdmin = hasAdminPermission(args.p_session_id, args.p_admin_secret, 'edit_entries');
+
+      return state.claimRequests
+        .filter((r) => r.session_id === args.p_session_id)
+        .filter((r) => isAdmin || entryHasToken(r.entry_id, args.p_edit_token))
+        .sort((a, b) => a.created_at.localeCompare(b.created_at))
+        .map((r) => ({
+          id: r.id,
+          entry_id: r.entry_id,
+          display_name: findEntry(r.entry_id)?.display_name ?? '',
+          created_at: r.created_at,
+        }));
+    },
+
+    resolve_claim_request: (args) => {
+      const request = state.claimRequests.find((r) => r.id === args.p_request_id);
+      if (!request
+        || !isSessionActive(request.session_id)
+        || !(hasAdminPermission(request.session_id, args.p_admin_secret, 'edit_entries')
+          || entryHasToken(request.entry_id, args.p_edit_token))) {
+        return false;
+      }
+
+      const entry = findEntry(request.entry_id);
+      if (args.p_approve && entry) addTokenHash(entry, request.token_hash);
+      touch(request.session_id);
+      state.claimRequests = state.claimRequests.filter((r) => r.id !== request.id);
+
+      announce(request.session_id, (l) => l.onClaimResolved?.());
+      return true;
+    },
+
+    create_claim_code: (args) => {
+      const entry = findEntry(args.p_entry_id);
+      if (!entry || !isSessionActive(entry.session_id) || !entryHasToken(entry.id, args.p_edit_token)) {
+        fail('Not allowed to change this entry', '42501');
+      }
+
+      // 32 characters, so a random byte maps without bias
+      const code = Array.from(crypto.getRandomValues(new Uint8Array(8)))
+        .map((byte) => CLAIM_CODE_ALPHABET[byte % 32])
+        .join('');
+
+      touch(entry.session_id);
+      state.claimCodes = state.claimCodes.filter((c) => c.entry_id !== entry.id);
+      state.claimCodes.push({
+        code_hash: hashSecret(code),
+        entry_id: entry.id,
+        session_id: entry.session_id,
+        expires_at: Date.now() + CLAIM_CODE_MINUTES * 60 * 1000,
+      });
+      return code;
+    },
+
+    redeem_claim_code: (args) => {
+      requireSecretLength(args.p_edit_token, 'Edit token too short');
+
+      const codeHash = hashSecret(normalizeClaimCode(args.p_code));
+      const claimCode = state.claimCodes.find(
+        (c) => c.session_id === args.p_session_id && c.code_hash === codeHash && c.expires_at > Date.now()
+      );
+      const entry = claimCode && findEntry(claimCode.entry_id);
+      if (!claimCode || !entry || !isSessionActive(args.p_session_id)) {
+        fail('Invalid or expired claim code');
+      }
+
+      touch(entry.session_id);
+      state.claimCodes = state.claimCodes.filter((c) => c !== claimCode);
+      state.tokens = state.tokens.filter((t) => t.entry_id !== entry.id);
+      addTokenHash(entry, hashSecret(args.p_edit_token));
+
+      announce(args.p_session_id, (l) => l.onIdentityMoved?.());
+      return entry;
+    },
+  };
+
+  return {
+    isConfigured: true,
+
+    createSession: (args) =>
+      run(() => {
+        const items = parseItems(args.p_items);
+        requireSecretLength(args.p_admin_secret, 'Admin secret too short');
+
+        const session = insertSession(args.p_title, args.p_mode, args.p_admin_secret);
+        items.forEach((payload, index) => {
+          insertItem(session.id, {
+            ...toItemFields(payload, args.p_mode),
+            kind: payload.kind ?? 'EXTRA',
+            sort_order: index,
+          });
+        });
+        return session.id;
+      }),
+
+    getSession: (sessionId) =>
+      run(() => {
+        const session = findSession(sessionId);
+        if (!session || session.deleted_at !== null) return null;
+        const { id, title, mode, status, created_at } = session;
+        return { id, title, mode, status, created_at };
+      }),
+
+    getAdminSession: (sessionId, adminSecret) =>
+      run(() => {
+        const session = findSession(sessionId);
+        const role = getAdminRole(sessionId, adminSecret);
+        if (!session || !role || !isWithinRetention(session)) return null;
+
+        const { id, title, mode, status, created_at, deleted_at } = session;
+        return {
+          id,
+          title,
+          mode,
+          status,
+          created_at,
+          deleted_at,
+          purge_after: deleted_at
+            ? new Date(Date.parse(deleted_at) + SESSION_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString()
+            : null,
+          role,
+          has_cohost: !!session.secret_hashes.COHOST,
+        };
+      }),
+
+    listEntries: (sessionId) =>
+      run(() => {
+        if (!isSessionActive(sessionId)) return { entries: [], entryItems: [] };
+        return {
+          entries: state.entries
+            .filter((e) => e.session_id === sessionId)
+            .sort((a, b) => a.created_at.localeCompare(b.created_at)),
+          entryItems: state.entryItems.filter((r) => r.session_id === sessionId),
+        };
+      }),
+
+    listItems: (sessionId) =>
+      run(() => (isSessionActive(sessionId) ? sessionItems(sessionId) : [])),
+
+    join: (args) =>
+      run(() => {
+        requireSecretLength(args.p_edit_token, 'Edit token too short');
+
+        const session = findSession(args.p_session_id);
+        if (!session || session.status !== 'OPEN' || session.deleted_at !== null) {
+          fail('Session not found or not open');
+        }
+        const name = normalizeName(args.p_display_name);
+        const existing = state.entries.find(
+          (e) => e.session_id === session.id && normalizeName(e.display_name) === name
+        );
+        if (existing) {
+          // A retried join gets the entry its first try created
+          if (entryHasToken(existing.id, args.p_edit_token)) return existing;
+          fail('Name already taken', '23505');
+        }
+
+        const entry = insertEntry(session.id, args.p_display_name.trim());
+        addTokenHash(entry, hashSecret(args.p_edit_token));
+        logEvent(
+          session.id, entry.id, 'JOIN', null, null,
+          { display_name: entry.display_name },
+          entry.display_name, entry.id
+        );
+        return entry;
+      }),
+
+    purgeDeletedSessions: () =>
+      run(() => {
+        const expired = state.sessions.filter((s) => !isWithinRetention(s));
+        expired.forEach((session) => {
+          touch(session.id);
+          state = filterSession(state, session.id, entryIdsOf(session.id, state), false);
+        });
+        // Like the expired rate limit hits in the database
+        const minuteAgo = new Date(Date.parse(startedAt) - 60 * 1000).toISOString();
+        claimHits.forEach((hits, entryId) => {
+          if (hits.every((hit) => hit <= minuteAgo)) claimHits.delete(entryId);
+        });
+        return expired.length;
+      }),
+
+    mutate: (name, args) =>
+      run(() => {
+        // The name may come from the network (server/)
+        if (!Object.hasOwn(operations, name)) fail(`Unknown operation: ${name}`);
+        return operations[name](args);
+      }),
+
+    subscribe(sessionId, listener) {
+      const sessionListeners = listeners.get(sessionId) ?? new Set<SessionListener>();
+      sessionListeners.add(listener);
+      listeners.set(sessionId, sessionListeners);
+      // Nothing to connect to - live right away
+      queueMicrotask(() => {
+        if (sessionListeners.has(listener)) listener.onStatusChanged?.('connected');
+      });
+
+      return () => {
+        sessionListeners.delete(listener);
+        if (sessionListeners.size === 0) listeners.delete(sessionId);
+      };
+    },
+
+    joinPresence(sessionId, viewer, onChange) {
+      const members = presence.get(sessionId) ?? new Set<PresenceMember>();
+      const member: PresenceMember = { viewer, onChange };
+      presence.set(sessionId, members);
+
+      // One per participant (several tabs count once) or anonymous tab
+      const announcePresence = () => {
+        const viewers = new Map<unknown, Viewer>();
+        members.forEach((m) => {
+          if (m.viewer) viewers.set(m.viewer.entryId ?? m, { ...m.viewer });
+        });
+        const list = [...viewers.values()];
+        queueMicrotask(() => members.forEach((m) => m.onChange(list)));
+      };
+
+      members.add(member);
+      announcePresence();
+
+      return () => {
+        members.delete(member);
+        if (members.size === 0) presence.delete(sessionId);
+        announcePresence();
+      };
+    },
+
+    joinAnimations(sessionId, onAnimation) {
+      const members = animationMembers.get(sessionId) ?? new Set<AnimationMember>();
+      const member: AnimationMember = { onAnimation };
+      members.add(member);
+      animationMembers.set(sessionId, members);
+
+      return {
+        send(animation) {
+          const copy = { ...animation };
+          queueMicrotask(() => members.forEach((m) => {
+            if (m !== member) m.onAnimation(copy);
+          }));
+        },
+        leave() {
+          members.delete(member);
+          if (members.size === 0) animationMembers.delete(sessionId);
+        },
+      };
+    },
+  };
+}
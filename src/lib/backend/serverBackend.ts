@@ -0,0 +1,220 @@
+/**
+ * Self-hosted Server Backend
+ *
+ * Talks to the Node + SQLite server in server/: one POST per call and
+ * one shared WebSocket for the live changes, presence and scene
+ * animations of all subscribed sessions. The socket reconnects while anything is
+ * subscribed; its state is the connection status of every
+ * subscription.
+ */
+
+import {
+  NETWORK_ERROR_CODE,
+  SESSION_LISTENER_EVENTS,
+  isSceneAnimation,
+  type BackendResult,
+  type ConnectionStatus,
+  type EinstandBackend,
+  type SceneAnimation,
+  type SessionEventName,
+  type SessionListener,
+  type Viewer,
+} from './types';
+
+const RECONNECT_DELAY_MS = 1000;
+
+interface ServerMessage {
+  sessionId: string;
+  event: SessionEventName | 'presence' | 'animation';
+  payload?: unknown;
+}
+
+interface PresenceRegistration {
+  sessionId: string;
+  viewer: Viewer | null;
+  onChange: (viewers: Viewer[]) => void;
+}
+
+interface AnimationRegistration {
+  sessionId: string;
+  onAnimation: (animation: SceneAnimation) => void;
+}
+
+export function createServerBackend(baseUrl: string): EinstandBackend {
+  const apiUrl = baseUrl.replace(/\/$/, '');
+  const wsUrl = apiUrl.replace(/^http/, 'ws') + '/ws';
+
+  async function call<T>(method: string, body: object): Promise<BackendResult<T>> {
+    try {
+      const response = await fetch(`${apiUrl}/api/${method}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      return (await response.json()) as BackendResult<T>;
+    } catch {
+      // Offline, server down or no JSON answer (e.g. from a proxy)
+      return { data: null, error: { message: 'Server nicht erreichbar', code: NETWORK_ERROR_CODE } };
+    }
+  }
+
+  // sessionId -> listeners of this tab
+  const listeners = new Map<string, Set<SessionListener>>();
+  // Presence registrations of this tab by their id
+  const presences = new Map<string, PresenceRegistration>();
+  // Animation channels of this tab by their id
+  const animationChannels = new Map<string, AnimationRegistration>();
+  let socket: WebSocket | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const isInUse = () => listeners.size > 0 || presences.size > 0 || animationChannels.size > 0;
+
+  function reportStatus(status: ConnectionStatus) {
+    for (const sessionListeners of listeners.values()) {
+      for (const listener of sessionListeners) listener.onStatusChanged?.(status);
+    }
+  }
+
+  // Dropped while disconnected - everything is sent again on open
+  function send(message: object) {
+    if (socket?.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  }
+
+  function sendPresence(id: string, { sessionId, viewer }: PresenceRegistration) {
+    send({ type: 'join_presence', id, sessionId, viewer });
+  }
+
+  function connect() {
+    const ws = new WebSocket(wsUrl);
+    socket = ws;
+
+    ws.onopen = () => {
+      for (const sessionId of listeners.keys()) send({ type: 'subscribe', sessionId });
+      presences.forEach((registration, id) => sendPresence(id, registration));
+      animationChannels.forEach(({ sessionId }, id) => send({ type: 'join_animations', id, sessionId }));
+      reportStatus('connected');
+    };
+
+    ws.onmessage = (message) => {
+      let data: ServerMessage;
+      try {
+        data = JSON.parse(message.data as string);
+      } catch {
+        return;
+      }
+      if (data.event === 'presence') {
+        for (const registration of presences.values()) {
+          if (registration.sessionId === data.sessionId) registration.onChange(data.payload as Viewer[]);
+        }
+        return;
+      }
+      if (data.event === 'animation') {
+        if (!isSceneAnimation(data.payload)) return;
+        for (const registration of animationChannels.values()) {
+          if (registration.sessionId === data.sessionId) registration.onAnimation(data.payload);
+        }
+        return;
+      }
+      if (!SESSION_LISTENER_EVENTS.includes(data.event)) return;
+      for (const listener of listeners.get(data.sessionId) ?? []) {
+        (listener[data.event] as ((payload: unknown) => void) | undefined)?.(data.payload);
+      }
+    };
+
+    ws.onclose = () => {
+      if (socket !== ws) return;
+      socket = null;
+      reportStatus('disconnected');
+      if (isInUse()) {
+        reconnectTimer = setTimeout(() => {
+          reconnectTimer = null;
+          if (isInUse() && !socket) connect();
+        }, RECONNECT_DELAY_MS);
+      }
+    };
+  }
+
+  function ensureConnected() {
+    if (!socket && !reconnectTimer) connect();
+  }
+
+  function closeIfUnused() {
+    if (isInUse() || !socket) return;
+    const ws = socket;
+    socket = null;
+    ws.close();
+  }
+
+  return {
+    isConfigured: true,
+
+    createSession: (args) => call('createSession', { args }),
+    getSession: (sessionId) => call('getSession', { sessionId }),
+    getAdminSession: (sessionId, adminSecret) => call('getAdminSession', { sessionId, adminSecret }),
+    listEntries: (sessionId) => call('listEntries', { sessionId }),
+    listItems: (sessionId) => call('listItems', { sessionId }),
+    join: (args) => call('join', { args }),
+    mutate: (name, args) => call('mutate', { name, args }),
+
+    subscribe(sessionId, listener) {
+      let sessionListeners = listeners.get(sessionId);
+      if (!sessionListeners) {
+        sessionListeners = new Set();
+        listeners.set(sessionId, sessionListeners);
+        send({ type: 'subscribe', sessionId });
+      }
+      sessionListeners.add(listener);
+      ensureConnected();
+
+      const status: ConnectionStatus =
+        socket?.readyState === WebSocket.OPEN ? 'connected' : reconnectTimer ? 'disconnected' : 'connecting';
+      queueMicrotask(() => {
+        if (sessionListeners.has(listener)) listener.onStatusChanged?.(status);
+      });
+
+      return () => {
+        sessionListeners.delete(listener);
+        if (sessionListeners.size > 0 || listeners.get(sessionId) !== sessionListeners) return;
+
+        listeners.delete(sessionId);
+        send({ type: 'unsubscribe', sessionId });
+        closeIfUnused();
+      };
+    },
+
+    joinPresence(sessionId, viewer, onChange) {
+      const id = crypto.randomUUID();
+      const registration: PresenceRegistration = { sessionId, viewer, onChange };
+      presences.set(id, registration);
+      sendPresence(id, registration);
+      ensureConnected();
+
+      return () => {
+        presences.delete(id);
+        send({ type: 'leave_presence', id });
+        closeIfUnused();
+      };
+    },
+
+    joinAnimations(sessionId, onAnimation) {
+      const id = crypto.randomUUID();
+      animationChannels.set(id, { sessionId, onAnimation });
+      send({ type: 'join_animations', id, sessionId });
+      ensureConnected();
+
+      return {
+        // Dropped while disconnected - animations are only decoration
+        send(animation) {
+          send({ type: 'animation', id, animation });
+        },
+        leave() {
+          animationChannels.delete(id);
+          send({ type: 'leave_animations', id });
+          closeIfUnused();
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,233 @@
+/**
+ * Supabase Backend
+ *
+ * Reads the public tables/view, calls the RPC functions and follows
+ * changes through two realtime channels per session: broadcasts on
+ * session:<id> (sent by the database) and postgres_changes for
+ * entries and counts. The subscription counts as connected while
+ * both channels are joined; Supabase rejoins them by itself after
+ * errors and timeouts. Presence runs on its own channel
+ * presence:<id>, mirrored scene animations on animations:<id>.
+ */
+
+import type { PostgrestError, SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Entry, EntryItem, SessionPublic } from '../database.types';
+import {
+  NETWORK_ERROR_CODE,
+  isSceneAnimation,
+  type BackendError,
+  type BackendResult,
+  type ConnectionStatus,
+  type EinstandBackend,
+  type SessionChange,
+  type Viewer,
+} from './types';
+
+type RpcCall = (
+  fn: string,
+  args: object
+) => PromiseLike<{ data: unknown; error: PostgrestError | null }>;
+
+// supabase-js reports a failed fetch (and answers that aren't from
+// PostgREST) without a code - the database always sets one
+const toBackendError = (error: PostgrestError | null): BackendError | null =>
+  error && !error.code ? { message: error.message, code: NETWORK_ERROR_CODE } : error;
+
+export function createSupabaseBackend(
+  client: SupabaseClient<Database>,
+  isConfigured: boolean
+): EinstandBackend {
+  // The typed rpc() can't follow a generic function name
+  const rpc = client.rpc.bind(client) as unknown as RpcCall;
+
+  return {
+    isConfigured,
+
+    async createSession(args) {
+      return client.rpc('create_session', args);
+    },
+
+    async getSession(sessionId) {
+      const { data, error } = await client
+        .from('einstand_sessions_public')
+        .select('*')
+        .eq('id', sessionId)
+        .maybeSingle();
+
+      // The view has nullable columns, but a found row is complete
+      return { data: data?.id ? (data as SessionPublic) : null, error };
+    },
+
+    async getAdminSession(sessionId, adminSecret) {
+      return client
+        .rpc('get_admin_session', {
+          p_session_id: sessionId,
+          p_admin_secret: adminSecret,
+        })
+        .maybeSingle();
+    },
+
+    async listEntries(sessionId) {
+      const [entriesResult, entryItemsResult] = await Promise.all([
+        client
+          .from('einstand_entries')
+          .select('*')
+          .eq('session_id', sessionId)
+          .order('created_at', { ascending: true }),
+        client
+          .from('einstand_entry_items')
+          .select('*')
+          .eq('session_id', sessionId),
+      ]);
+
+      const error = entriesResult.error ?? entryItemsResult.error;
+      if (error) return { data: null, error };
+      return {
+        data: { entries: entriesResult.data || [], entryItems: entryItemsResult.data || [] },
+        error: null,
+      };
+    },
+
+    async listItems(sessionId) {
+      return client
+        .from('einstand_items')
+        .select('*')
+        .eq('session_id', sessionId)
+        .order('sort_order', { ascending: true });
+    },
+
+    async join(args) {
+      return client.rpc('join_session', args);
+    },
+
+    async mutate(name, args) {
+      const { data, error } = await rpc(name, args);
+      return { data, error: toBackendError(error) } as BackendResult<never>;
+    },
+
+    subscribe(sessionId, listener) {
+      const joined = { session: false, entries: false };
+      let failed = false;
+      let status: ConnectionStatus = 'connecting';
+      let closed = false;
+
+      const handleChannelStatus = (channel: keyof typeof joined) => (state: string) => {
+        if (closed) return;
+        joined[channel] = state === 'SUBSCRIBED';
+        // CHANNEL_ERROR, TIMED_OUT or CLOSED - stays disconnected until both are back
+        if (!joined[channel]) failed = true;
+        if (joined.session && joined.entries) failed = false;
+
+        const next: ConnectionStatus = failed
+          ? 'disconnected'
+          : joined.session && joined.entries ? 'connected' : 'connecting';
+        if (next !== status) {
+          status = next;
+          listener.onStatusChanged?.(next);
+        }
+      };
+
+      // Broadcast by database functions and triggers - the sessions table is not readable
+      const sessionChannel = client
+        .channel(`session:${sessionId}`)
+        .on('broadcast', { event: 'session_changed' }, ({ payload }) => {
+          listener.onSessionChanged?.(payload as SessionChange);
+        })
+        .on('broadcast', { event: 'claim_requested' }, () => listener.onClaimRequested?.())
+        .on('broadcast', { event: 'claim_resolved' }, () => listener.onClaimResolved?.())
+        .on('broadcast', { event: 'identity_moved' }, () => listener.onIdentityMoved?.())
+        .subscribe(handleChannelStatus('session'));
+
+      const entriesChannel = client
+        .channel(`entries:${sessionId}`)
+        .on(
+          'postgres_changes',
+          {
+            event: '*',
+            schema: 'public',
+            table: 'einstand_entries',
+            filter: `session_id=eq.${sessionId}`,
+          },
+          (payload) => {
+            if (payload.eventType === 'INSERT') {
+              listener.onEntryInserted?.(payload.new as Entry);
+            } else if (payload.eventType === 'UPDATE') {
+              listener.onEntryUpdated?.(payload.new as Entry);
+            } else if (payload.eventType === 'DELETE') {
+              listener.onEntryDeleted?.((payload.old as Entry).id);
+            }
+          }
+        )
+        .on(
+          'postgres_changes',
+          {
+            event: '*',
+            schema: 'public',
+            table: 'einstand_entry_items',
+            filter: `session_id=eq.${sessionId}`,
+          },
+          (payload) => {
+            if (payload.eventType === 'INSERT' || payload.eventType === 'UPDATE') {
+              listener.onEntryItemChanged?.(payload.new as EntryItem);
+            }
+          }
+        )
+        .subscribe(handleChannelStatus('entries'));
+
+      return () => {
+        closed = true;
+        sessionChannel.unsubscribe();
+        entriesChannel.unsubscribe();
+      };
+    },
+
+    joinPresence(sessionId, viewer, onChange) {
+      // Keyed by participant, so several tabs of one person count once
+      const channel = client.channel(`presence:${sessionId}`, {
+        config: { presence: { key: viewer?.entryId ?? crypto.randomUUID() } },
+      });
+
+      channel
+        .on('presence', { event: 'sync' }, () => {
+          const state = channel.presenceState<Viewer>();
+          onChange(
+            Object.values(state)
+              .filter((metas) => metas.length > 0)
+              .map(([meta]) => ({ entryId: meta.entryId ?? null, displayName: meta.displayName ?? null }))
+          );
+        })
+        .subscribe((status) => {
+          // Watchers (the admin) don't show up themselves
+          if (status === 'SUBSCRIBED' && viewer) channel.track(viewer);
+        });
+
+      return () => {
+        channel.unsubscribe();
+      };
+    },
+
+    joinAnimations(sessionId, onAnimation) {
+      // Plain broadcast between the clients, the database isn't involved
+      const channel = client.channel(`animations:${sessionId}`, {
+        config: { broadcast: { self: false } },
+      });
+
+      channel
+        .on('broadcast', { event: 'animation' }, ({ payload }) => {
+          if (isSceneAnimation(payload)) {
+            onAnimation({ kind: payload.kind, displayName: payload.displayName });
+          }
+        })
+        .subscribe();
+
+      return {
+        send(animation) {
+          void channel.send({ type: 'broadcast', event: 'animation', payload: animation });
+        },
+        leave() {
+          channel.unsubscribe();
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,168 @@
+/**
+ * Backend Adapter Types
+ *
+ * Everything the pages need from a backend: reading a session with
+ * its entries and items, calling the server operations (the RPC
+ * functions in supabase/migrations) and following changes live.
+ * Implemented by the Supabase backend and the in-memory backend.
+ */
+
+import type {
+  AdminSession,
+  Database,
+  Entry,
+  EntryItem,
+  Item,
+  SessionPublic,
+  SessionStatus,
+} from '../database.types';
+
+type Functions = Database['public']['Functions'];
+
+export type OperationName = keyof Functions;
+export type OperationArgs<K extends OperationName> = Functions[K]['Args'];
+export type OperationResult<K extends OperationName> = Functions[K]['Returns'];
+
+// Operations with their own method below
+export type MutationName = Exclude<OperationName, 'create_session' | 'join_session' | 'get_admin_session'>;
+
+// Same shape as PostgREST errors, so src/utils/dbErrors.ts maps both
+export interface BackendError {
+  message: string;
+  code?: string;
+}
+
+// The request never got an answer (offline, server down) - the only
+// error a retry can fix. Set by the backends, never by the database
+export const NETWORK_ERROR_CODE = 'NETWORK';
+
+export interface BackendResult<T> {
+  data: T | null;
+  error: BackendError | null;
+}
+
+export interface EntryList {
+  entries: Entry[];
+  entryItems: EntryItem[];
+}
+
+export interface SessionChange extends SessionPublic {
+  previous_status: SessionStatus;
+  deleted: boolean;
+}
+
+// State of the live connection behind a subscription
+export type ConnectionStatus = 'connecting' | 'connected' | 'disconnected';
+
+/**
+ * Live changes of one session. Entry counts only arrive as
+ * inserts/updates - deleting an entry drops its counts as well.
+ */
+export interface SessionListener {
+  onSessionChanged?: (change: SessionChange) => void;
+  onEntryInserted?: (entry: Entry) => void;
+  onEntryUpdated?: (entry: Entry) => void;
+  onEntryDeleted?: (entryId: string) => void;
+  onEntryItemChanged?: (row: EntryItem) => void;
+  onClaimRequested?: () => void;
+  onClaimResolved?: () => void;
+  onIdentityMoved?: () => void;
+  // Changes made while 'disconnected' are missed - refetch after reconnecting
+  onStatusChanged?: (status: ConnectionStatus) => void;
+}
+
+export type SessionEventName = Exclude<keyof SessionListener, 'onStatusChanged'>;
+
+// For backends that forward listener calls as messages (server/) - the
+// connection status belongs to each connection and isn't forwarded
+export const SESSION_LISTENER_EVENTS: SessionEventName[] = [
+  'onSessionChanged',
+  'onEntryInserted',
+  'onEntryUpdated',
+  'onEntryDeleted',
+  'onEntryItemChanged',
+  'onClaimRequested',
+  'onClaimResolved',
+  'onIdentityMoved',
+];
+
+/**
+ * Someone with the session open. Reported by the viewer itself, so it
+ * only says who is looking - it doesn't authorize anything.
+ */
+export interface Viewer {
+  // null: hasn't joined (or claimed an entry) on this device yet
+  entryId: string | null;
+  displayName: string | null;
+}
+
+// Counter animations of the 3D scene that are mirrored to the others
+export const SCENE_ANIMATION_KINDS = ['dip', 'brezel'] as const;
+export type SceneAnimationKind = (typeof SCENE_ANIMATION_KINDS)[number];
+
+/**
+ * Someone played a counter animation. Like Viewer it is reported by the
+ * sender and only decorates the scene - the count itself comes through
+ * the normal changes.
+ */
+export interface SceneAnimation {
+  kind: SceneAnimationKind;
+  displayName: string;
+}
+
+export const isSceneAnimation = (value: unknown): value is SceneAnimation => {
+  const animation = value as Partial<SceneAnimation> | null;
+  return (
+    !!animation &&
+    SCENE_ANIMATION_KINDS.includes(animation.kind as SceneAnimationKind) &&
+    typeof animation.displayName === 'string' &&
+    animation.displayName.length > 0 &&
+    animation.displayName.length <= 50
+  );
+};
+
+export interface AnimationChannel {
+  // Goes to everyone else in the session, not back to this tab
+  send(animation: SceneAnimation): void;
+  leave(): void;
+}
+
+export interface EinstandBackend {
+  // False if the backend can't work at all (e.g. Supabase without credentials)
+  readonly isConfigured: boolean;
+
+  // Returns the new session id
+  createSession(args: OperationArgs<'create_session'>): Promise<BackendResult<string>>;
+
+  // data is null if the session doesn't exist (or the secret doesn't match)
+  getSession(sessionId: string): Promise<BackendResult<SessionPublic>>;
+  getAdminSession(sessionId: string, adminSecret: string): Promise<BackendResult<AdminSession>>;
+
+  // Entries ordered by join time, with their counts
+  listEntries(sessionId: string): Promise<BackendResult<EntryList>>;
+  // Item catalog in display order
+  listItems(sessionId: string): Promise<BackendResult<Item[]>>;
+
+  join(args: OperationArgs<'join_session'>): Promise<BackendResult<Entry>>;
+
+  // Every other server operation, checked by the backend itself
+  mutate<K extends MutationName>(
+    name: K,
+    args: OperationArgs<K>
+  ): Promise<BackendResult<OperationResult<K>>>;
+
+  // Returns the unsubscribe function
+  subscribe(sessionId: string, listener: SessionListener): () => void;
+
+  // Shows this tab as `viewer` to everyone in the session (null: only watch,
+  // e.g. the admin). onChange gets all viewers, one per participant or
+  // anonymous tab. Returns the leave function
+  joinPresence(
+    sessionId: string,
+    viewer: Viewer | null,
+    onChange: (viewers: Viewer[]) => void
+  ): () => void;
+
+  // Animations of the others in the session (best effort, nothing is stored)
+  joinAnimations(sessionId: string, onAnimation: (animation: SceneAnimation) => void): AnimationChannel;
+}
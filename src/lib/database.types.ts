@@ -15,6 +15,17 @@ export type Json =
 
 export type SessionStatus = 'OPEN' | 'CLOSED';
 export type SessionMode = 'INVITE' | 'SPLIT';
+export type ItemKind = 'WURST' | 'PRETZEL' | 'EXTRA';
+export type AdminRole = 'OWNER' | 'COHOST';
+export type ClaimStatus = 'CLAIMED' | 'PENDING' | 'NONE';
+export type EventType =
+  | 'JOIN'
+  | 'INCREMENT'
+  | 'DECREMENT'
+  | 'RESET'
+  | 'RENAME'
+  | 'DELETE'
+  | 'REVERT';
 
 export interface Database {
   public: {
@@ -24,10 +35,7 @@ export interface Database {
           id: string;
           title: string | null;
           mode: SessionMode;
-          price_wurst: number | null;
-          price_pretzel: number | null;
           status: SessionStatus;
-          admin_secret: string;
           created_at: string;
           deleted_at: string | null;
         };
@@ -35,10 +43,7 @@ export interface Database {
           id?: string;
           title?: string | null;
           mode?: SessionMode;
-          price_wurst?: number | null;
-          price_pretzel?: number | null;
           status?: SessionStatus;
-          admin_secret: string;
           created_at?: string;
           deleted_at?: string | null;
         };
@@ -46,10 +51,7 @@ export interface Database {
           id?: string;
           title?: string | null;
           mode?: SessionMode;
-          price_wurst?: number | null;
-          price_pretzel?: number | null;
           status?: SessionStatus;
-          admin_secret?: string;
           created_at?: string;
           deleted_at?: string | null;
         };
@@ -60,8 +62,6 @@ export interface Database {
           id: string;
           session_id: string;
           display_name: string;
-          wurst_count: number;
-          pretzel_count: number;
           created_at: string;
           updated_at: string;
         };
@@ -69,8 +69,6 @@ export interface Database {
           id?: string;
           session_id: string;
           display_name: string;
-          wurst_count?: number;
-          pretzel_count?: number;
           created_at?: string;
           updated_at?: string;
         };
@@ -78,8 +76,6 @@ export interface Database {
           id?: string;
           session_id?: string;
           display_name?: string;
-          wurst_count?: number;
-          pretzel_count?: number;
           created_at?: string;
           updated_at?: string;
         };
@@ -93,6 +89,129 @@ export interface Database {
           }
         ];
       };
+      einstand_items: {
+        Row: {
+          id: string;
+          session_id: string;
+          name: string;
+          emoji: string;
+          unit: string;
+          price: number | null;
+          kind: ItemKind;
+          sort_order: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          session_id: string;
+          name: string;
+          emoji?: string;
+          unit?: string;
+          price?: number | null;
+          kind?: ItemKind;
+          sort_order?: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          session_id?: string;
+          name?: string;
+          emoji?: string;
+          unit?: string;
+          price?: number | null;
+          kind?: ItemKind;
+          sort_order?: number;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "einstand_items_session_id_fkey";
+            columns: ["session_id"];
+            isOneToOne: false;
+            referencedRelation: "einstand_sessions";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      einstand_entry_items: {
+        Row: {
+          entry_id: string;
+          item_id: string;
+          session_id: string;
+          count: number;
+          updated_at: string;
+        };
+        Insert: {
+          entry_id: string;
+          item_id: string;
+          session_id: string;
+          count?: number;
+          updated_at?: string;
+        };
+        Update: {
+          entry_id?: string;
+          item_id?: string;
+          session_id?: string;
+          count?: number;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "einstand_entry_items_entry_id_fkey";
+            columns: ["entry_id"];
+            isOneToOne: false;
+            referencedRelation: "einstand_entries";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "einstand_entry_items_item_id_fkey";
+            columns: ["item_id"];
+            isOneToOne: false;
+            referencedRelation: "einstand_items";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
+      einstand_events: {
+        Row: {
+          id: string;
+          session_id: string;
+          entry_id: string | null;
+          event_type: EventType;
+          item_id: string | null;
+          delta: number | null;
+          payload: Json;
+          actor: string | null;
+          actor_entry_id: string | null;
+          reverts_event_id: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          session_id: string;
+          entry_id?: string | null;
+          event_type: EventType;
+          item_id?: string | null;
+          delta?: number | null;
+          payload?: Json;
+          actor?: string | null;
+          actor_entry_id?: string | null;
+          reverts_event_id?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          [_ in never]: never;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "einstand_events_session_id_fkey";
+            columns: ["session_id"];
+            isOneToOne: false;
+            referencedRelation: "einstand_sessions";
+            referencedColumns: ["id"];
+          }
+        ];
+      };
     };
     Views: {
       einstand_sessions_public: {
@@ -100,8 +219,6 @@ export interface Database {
           id: string | null;
           title: string | null;
           mode: SessionMode | null;
-          price_wurst: number | null;
-          price_pretzel: number | null;
           status: SessionStatus | null;
           created_at: string | null;
         };
@@ -109,6 +226,130 @@ export interface Database {
       };
     };
     Functions: {
+      create_session: {
+        Args: {
+          p_title: string | null;
+          p_mode: SessionMode;
+          p_admin_secret: string;
+          p_items: Json;
+        };
+        Returns: string;
+      };
+      get_admin_session: {
+        Args: {
+          p_session_id: string;
+          p_admin_secret: string;
+        };
+        Returns: {
+          id: string;
+          title: string | null;
+          mode: SessionMode;
+          status: SessionStatus;
+          created_at: string;
+          deleted_at: string | null;
+          purge_after: string | null;
+          role: AdminRole;
+          has_cohost: boolean;
+        }[];
+      };
+      join_session: {
+        Args: {
+          p_session_id: string;
+          p_display_name: string;
+          p_edit_token: string;
+        };
+        Returns: {
+          id: string;
+          session_id: string;
+          display_name: string;
+          created_at: string;
+          updated_at: string;
+        };
+      };
+      increment_entry: {
+        Args: {
+          p_entry_id: string;
+          p_item: string;
+          p_delta: number;
+          p_edit_token?: string | null;
+          p_admin_secret?: string | null;
+          p_actor?: string | null;
+          p_actor_entry_id?: string | null;
+          p_op_id?: string | null;
+        };
+        Returns: {
+          entry_id: string;
+          item_id: string;
+          session_id: string;
+          count: number;
+          updated_at: string;
+        };
+      };
+      reset_entry: {
+        Args: {
+          p_entry_id: string;
+          p_edit_token?: string | null;
+          p_admin_secret?: string | null;
+          p_actor?: string | null;
+          p_actor_entry_id?: string | null;
+        };
+        Returns: boolean;
+      };
+      rename_entry: {
+        Args: {
+          p_entry_id: string;
+          p_display_name: string;
+          p_edit_token?: string | null;
+          p_admin_secret?: string | null;
+          p_actor?: string | null;
+          p_actor_entry_id?: string | null;
+        };
+        Returns: {
+          id: string;
+          session_id: string;
+          display_name: string;
+          created_at: string;
+          updated_at: string;
+        };
+      };
+      delete_entry: {
+        Args: {
+          p_entry_id: string;
+          p_edit_token?: string | null;
+          p_admin_secret?: string | null;
+          p_actor?: string | null;
+          p_actor_entry_id?: string | null;
+        };
+        Returns: boolean;
+      };
+      get_session_events: {
+        Args: {
+          p_session_id: string;
+          p_admin_secret: string;
+          p_limit?: number;
+        };
+        Returns: {
+          id: string;
+          session_id: string;
+          entry_id: string | null;
+          event_type: EventType;
+          item_id: string | null;
+          delta: number | null;
+          payload: Json;
+          actor: string | null;
+          actor_entry_id: string | null;
+          reverts_event_id: string | null;
+          created_at: string;
+        }[];
+      };
+      revert_event: {
+        Args: {
+          p_session_id: string;
+          p_admin_secret: string;
+          p_event_id: string;
+        };
+        Returns: boolean;
+      };
       close_session: {
         Args: {
           p_session_id: string;
@@ -130,10 +371,156 @@ export interface Database {
         };
         Returns: boolean;
       };
+      update_session: {
+        Args: {
+          p_session_id: string;
+          p_admin_secret: string;
+          p_title: string | null;
+          p_mode: SessionMode;
+          p_items: Json;
+        };
+        Returns: boolean;
+      };
+      set_entry_count: {
+        Args: {
+          p_entry_id: string;
+          p_item: string;
+          p_count: number;
+          p_admin_secret: string;
+        };
+        Returns: {
+          entry_id: string;
+          item_id: string;
+          session_id: string;
+          count: number;
+          updated_at: string;
+        };
+      };
+      admin_add_entry: {
+        Args: {
+          p_session_id: string;
+          p_admin_secret: string;
+          p_display_name: string;
+        };
+        Returns: {
+          id: string;
+          session_id: string;
+          display_name: string;
+          created_at: string;
+          updated_at: string;
+        };
+      };
+      merge_entries: {
+        Args: {
+          p_session_id: string;
+          p_admin_secret: string;
+          p_source_entry_id: string;
+          p_target_entry_id: string;
+        };
+        Returns: boolean;
+      };
+      clone_session: {
+        Args: {
+          p_session_id: string;
+          p_admin_secret: string;
+          p_new_admin_secret: string;
+          p_title: string | null;
+          p_copy_participants?: boolean;
+        };
+        Returns: string;
+      };
+      restore_session: {
+        Args: {
+          p_session_id: string;
+          p_admin_secret: string;
+        };
+        Returns: boolean;
+      };
+      rotate_admin_secret: {
+        Args: {
+          p_session_id: string;
+          p_admin_secret: string;
+          p_new_admin_secret: string;
+        };
+        Returns: boolean;
+      };
+      request_entry_claim: {
+        Args: {
+          p_entry_id: string;
+          p_edit_token: string;
+        };
+        Returns: string;
+      };
+      get_claim_status: {
+        Args: {
+          p_entry_id: string;
+          p_edit_token: string;
+        };
+        Returns: ClaimStatus;
+      };
+      get_claim_requests: {
+        Args: {
+          p_session_id: string;
+          p_edit_token?: string | null;
+          p_admin_secret?: string | null;
+        };
+        Returns: {
+          id: string;
+          entry_id: string;
+          display_name: string;
+          created_at: string;
+        }[];
+      };
+      resolve_claim_request: {
+        Args: {
+          p_request_id: string;
+          p_approve: boolean;
+          p_edit_token?: string | null;
+          p_admin_secret?: string | null;
+        };
+        Returns: boolean;
+      };
+      create_claim_code: {
+        Args: {
+          p_entry_id: string;
+          p_edit_token: string;
+        };
+        Returns: string;
+      };
+      redeem_claim_code: {
+        Args: {
+          p_session_id: string;
+          p_code: string;
+          p_edit_token: string;
+        };
+        Returns: {
+          id: string;
+          session_id: string;
+          display_name: string;
+          created_at: string;
+          updated_at: string;
+        };
+      };
+      set_cohost_secret: {
+        Args: {
+          p_session_id: string;
+          p_admin_secret: string;
+          p_cohost_secret: string;
+        };
+        Returns: boolean;
+      };
+      revoke_cohost_secret: {
+        Args: {
+          p_session_id: string;
+          p_admin_secret: string;
+        };
+        Returns: boolean;
+      };
     };
     Enums: {
       session_mode: SessionMode;
       session_status: SessionStatus;
+      item_kind: ItemKind;
     };
     CompositeTypes: {
       [_ in never]: never;
@@ -146,14 +533,18 @@ export type Session = Database['public']['Tables']['einstand_sessions']['Row'];
 export type SessionInsert = Database['public']['Tables']['einstand_sessions']['Insert'];
 export type SessionUpdate = Database['public']['Tables']['einstand_sessions']['Update'];
 
+// Session as returned by get_admin_session, with the role of the used secret
+export type AdminSession = Database['public']['Functions']['get_admin_session']['Returns'][number];
+
+// Open "Das bin ich" request for an existing entry
+export type ClaimRequest = Database['public']['Functions']['get_claim_requests']['Returns'][number];
+
 // SessionPublic view has nullable fields - provide non-null version for type safety after fetch
 export type SessionPublicRow = Database['public']['Views']['einstand_sessions_public']['Row'];
 export interface SessionPublic {
   id: string;
   title: string | null;
   mode: SessionMode;
-  price_wurst: number | null;
-  price_pretzel: number | null;
   status: SessionStatus;
   created_at: string;
 }
@@ -161,3 +552,10 @@ export interface SessionPublic {
 export type Entry = Database['public']['Tables']['einstand_entries']['Row'];
 export type EntryInsert = Database['public']['Tables']['einstand_entries']['Insert'];
 export type EntryUpdate = Database['public']['Tables']['einstand_entries']['Update'];
+
+export type Item = Database['public']['Tables']['einstand_items']['Row'];
+
+export type EntryItem = Database['public']['Tables']['einstand_entry_items']['Row'];
+export type EntryItemInsert = Database['public']['Tables']['einstand_entry_items']['Insert'];
+
+export type EinstandEvent = Database['public']['Tables']['einstand_events']['Row'];
@@ -2,37 +2,94 @@
  * Admin Page
  * 
  * Admin view for managing an Einstand session.
- * - Requires admin_secret in URL query param
+ * - Requires admin_secret in URL query param (verified server-side against its hash)
+ * - Owner link can do everything, the co-host link only sees the actions of its role
  * - Close/Reopen session
- * - Delete session
+ * - Edit title, mode and item catalog
+ * - Rotate admin link (invalidates the old key)
+ * - Create, renew and revoke a co-host link
+ * - Clone as template for the next Einstand
+ * - Delete session (restorable until it gets purged)
  * - View all entries with costs
+ * - Fix names and counts, merge duplicates, add participants (also while CLOSED)
+ * - Approve or reject "Das bin ich" claims from new devices
+ * - Connection indicator, full refetch when the live connection may have missed changes
+ * - Presence: who has the session open, and how many haven't joined yet
+ * - Audit log timeline with per-event revert
  */
 
-import { useState, useCallback, useEffect, useMemo } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { useParams, useSearchParams, useNavigate, Link } from 'react-router-dom';
 import { v4 as uuidv4 } from 'uuid';
 import type { Toast } from '../types';
-import { supabase, isSupabaseConfigured } from '../lib/supabase';
-import type { Session, Entry } from '../lib/database.types';
+import { backend, type Viewer } from '../lib/backend';
+import type { AdminSession, Entry, Item, EntryItem, EinstandEvent, ClaimRequest } from '../lib/database.types';
+import { toCatalogItem, toItemsPayload } from '../utils/items';
+import { createCostsCsv, getCsvFileName } from '../utils/csvExport';
+import { downloadFile } from '../utils/download';
+import { hasPermission } from '../utils/adminRoles';
+import { getDbErrorMessage } from '../utils/dbErrors';
+import { useConnectionStatus } from '../hooks/useConnectionStatus';
+import { useActivityFeed } from '../hooks/useActivityFeed';
 import { ToastContainer } from '../components/ToastContainer';
+import { ConnectionIndicator } from '../components/ConnectionIndicator';
+import { PresenceList, ViewerCount } from '../components/PresenceList';
+import { EventTimeline } from '../components/EventTimeline';
+import { ActivityFeed } from '../components/ActivityFeed';
+import { AdminEntryRow } from '../components/AdminEntryRow';
+import { ClaimRequests } from '../components/ClaimRequests';
+import { SessionSettingsForm } from '../components/SessionSettingsForm';
+import type { SessionSettings } from '../components/SessionSettingsForm';
+import type { LandingLocationState } from './LandingPage';
 import styles from './AdminPage.module.css';
 
+// Security constants
+const MAX_NAME_LENGTH = 50;
+const MAX_TITLE_LENGTH = 100;
+
+// Replace or append a count row (entry_id + item_id is the key)
+const mergeEntryItem = (prev: EntryItem[], row: EntryItem): EntryItem[] => [
+  ...prev.filter((r) => !(r.entry_id === row.entry_id && r.item_id === row.item_id)),
+  row,
+];
+
 export function AdminPage() {
   const { sessionId } = useParams<{ sessionId: string }>();
-  const [searchParams] = useSearchParams();
+  const [searchParams, setSearchParams] = useSearchParams();
   const navigate = useNavigate();
   const adminSecret = searchParams.get('key');
 
   // Data state
-  const [session, setSession] = useState<Session | null>(null);
+  const [session, setSession] = useState<AdminSession | null>(null);
   const [entries, setEntries] = useState<Entry[]>([]);
+  const [items, setItems] = useState<Item[]>([]);
+  const [entryItems, setEntryItems] = useState<EntryItem[]>([]);
+  const [events, setEvents] = useState<EinstandEvent[]>([]);
+  const [claimRequests, setClaimRequests] = useState<ClaimRequest[]>([]);
+  const [viewers, setViewers] = useState<Viewer[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   // Action state
   const [isClosing, setIsClosing] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [isRotating, setIsRotating] = useState(false);
+  const [showRotatedNotice, setShowRotatedNotice] = useState(false);
+  const [isUpdatingCohost, setIsUpdatingCohost] = useState(false);
+  // The co-host secret is stored hashed - its link can only be shown right after creating it
+  const [cohostLink, setCohostLink] = useState<string | null>(null);
+  const [isEditingSettings, setIsEditingSettings] = useState(false);
+  const [isSavingSettings, setIsSavingSettings] = useState(false);
+  const [showCloneForm, setShowCloneForm] = useState(false);
+  const [cloneTitle, setCloneTitle] = useState('');
+  const [cloneParticipants, setCloneParticipants] = useState(true);
+  const [isCloning, setIsCloning] = useState(false);
+  const [isEntryBusy, setIsEntryBusy] = useState(false);
+  const [newEntryName, setNewEntryName] = useState('');
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [revertingId, setRevertingId] = useState<string | null>(null);
+  const [resolvingClaimId, setResolvingClaimId] = useState<string | null>(null);
 
   // UI state
   const [toasts, setToasts] = useState<Toast[]>([]);
@@ -51,9 +108,9 @@ export function AdminPage() {
 
   // Validate admin secret and fetch data
   useEffect(() => {
-    if (!sessionId || !isSupabaseConfigured) {
+    if (!sessionId || !backend.isConfigured) {
       setLoading(false);
-      if (!isSupabaseConfigured) {
+      if (!backend.isConfigured) {
         setError('Supabase nicht konfiguriert');
       }
       return;
@@ -68,34 +125,29 @@ export function AdminPage() {
     const fetchData = async () => {
       try {
         // Fetch session with admin_secret validation
-        const { data: sessionData, error: sessionError } = await supabase
-          .from('einstand_sessions')
-          .select('*')
-          .eq('id', sessionId)
-          .eq('admin_secret', adminSecret)
-          .is('deleted_at', null)
-          .single();
-
-        if (sessionError) {
-          if (sessionError.code === 'PGRST116') {
-            setError('Session nicht gefunden oder ungültiger Admin-Schlüssel');
-          } else {
-            throw sessionError;
-          }
+        const { data: sessionData, error: sessionError } = await backend.getAdminSession(
+          sessionId,
+          adminSecret
+        );
+
+        if (sessionError) throw sessionError;
+        if (!sessionData) {
+          setError('Session nicht gefunden oder ungültiger Admin-Schlüssel');
           return;
         }
-
         setSession(sessionData);
 
-        // Fetch entries
-        const { data: entriesData, error: entriesError } = await supabase
-          .from('einstand_entries')
-          .select('*')
-          .eq('session_id', sessionId)
-          .order('created_at', { ascending: true });
+        // Fetch entries with their counts and the item catalog
+        const [entriesResult, itemsResult] = await Promise.all([
+          backend.listEntries(sessionId),
+          backend.listItems(sessionId),
+        ]);
 
-        if (entriesError) throw entriesError;
-        setEntries(entriesData || []);
+        if (entriesResult.error) throw entriesResult.error;
+        if (itemsResult.error) throw itemsResult.error;
+        setEntries(entriesResult.data?.entries || []);
+        setEntryItems(entriesResult.data?.entryItems || []);
+        setItems(itemsResult.data || []);
       } catch (err) {
         console.error('Error fetching session:', err);
         setError('Fehler beim Laden der Session');
@@ -107,42 +159,166 @@ export function AdminPage() {
     fetchData();
   }, [sessionId, adminSecret]);
 
-  // Realtime subscriptions
+  // "Das bin ich" claims for the whole session
+  const fetchClaimRequests = useCallback(async () => {
+    if (!sessionId || !adminSecret) return;
+
+    const { data, error } = await backend.mutate('get_claim_requests', {
+      p_session_id: sessionId,
+      p_admin_secret: adminSecret,
+    });
+
+    if (error) {
+      console.error('Error fetching claim requests:', error);
+      return;
+    }
+    setClaimRequests(data || []);
+  }, [sessionId, adminSecret]);
+
+  const hasSession = !!session;
+
+  // Full refetch after the live connection may have missed changes
+  const resync = useCallback(async () => {
+    if (!sessionId || !adminSecret || !backend.isConfigured || !hasSession) return;
+
+    const [sessionResult, entriesResult, itemsResult] = await Promise.all([
+      backend.getAdminSession(sessionId, adminSecret),
+      backend.listEntries(sessionId),
+      backend.listItems(sessionId),
+    ]);
+
+    const fetchError = sessionResult.error ?? entriesResult.error ?? itemsResult.error;
+    if (fetchError || !sessionResult.data) {
+      console.warn('Resync failed:', fetchError);
+      return;
+    }
+
+    setSession(sessionResult.data);
+    setEntries(entriesResult.data?.entries || []);
+    setEntryItems(entriesResult.data?.entryItems || []);
+    setItems(itemsResult.data || []);
+    fetchClaimRequests();
+  }, [sessionId, adminSecret, hasSession, fetchClaimRequests]);
+
+  const { status: connectionStatus, handleStatusChanged } = useConnectionStatus(resync);
+
+  // Realtime subscriptions (claims are announced live, then read via RPC)
   useEffect(() => {
-    if (!sessionId || !isSupabaseConfigured || !session) return;
-
-    const entriesChannel = supabase
-      .channel(`admin-entries:${sessionId}`)
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'einstand_entries',
-          filter: `session_id=eq.${sessionId}`,
-        },
-        (payload) => {
-          if (payload.eventType === 'INSERT') {
-            const newEntry = payload.new as Entry;
-            setEntries((prev) => [...prev, newEntry]);
-            showToast(`${newEntry.display_name} ist beigetreten`, 'info');
-          } else if (payload.eventType === 'UPDATE') {
-            const updated = payload.new as Entry;
-            setEntries((prev) =>
-              prev.map((e) => (e.id === updated.id ? updated : e))
-            );
-          } else if (payload.eventType === 'DELETE') {
-            const deleted = payload.old as Entry;
-            setEntries((prev) => prev.filter((e) => e.id !== deleted.id));
-          }
-        }
-      )
-      .subscribe();
+    if (!sessionId || !backend.isConfigured || !hasSession) return;
+
+    fetchClaimRequests();
+
+    return backend.subscribe(sessionId, {
+      onStatusChanged: handleStatusChanged,
+      onEntryInserted: (newEntry) => {
+        setEntries((prev) => [...prev, newEntry]);
+        showToast(`${newEntry.display_name} ist beigetreten`, 'info');
+      },
+      onEntryUpdated: (updated) => {
+        setEntries((prev) =>
+          prev.map((e) => (e.id === updated.id ? updated : e))
+        );
+      },
+      onEntryDeleted: (entryId) => {
+        setEntries((prev) => prev.filter((e) => e.id !== entryId));
+        setEntryItems((prev) => prev.filter((r) => r.entry_id !== entryId));
+      },
+      onEntryItemChanged: (row) => setEntryItems((prev) => mergeEntryItem(prev, row)),
+      onClaimRequested: fetchClaimRequests,
+      onClaimResolved: fetchClaimRequests,
+    });
+  }, [sessionId, hasSession, fetchClaimRequests, showToast, handleStatusChanged]);
+
+  // Presence: watch only - the admin doesn't show up as a viewer
+  useEffect(() => {
+    if (!sessionId || !backend.isConfigured || !hasSession) return;
+    return backend.joinPresence(sessionId, null, setViewers);
+  }, [sessionId, hasSession]);
+
+  const handleResolveClaim = useCallback(async (requestId: string, approve: boolean) => {
+    if (!adminSecret) return;
+
+    setResolvingClaimId(requestId);
+    const { data, error } = await backend.mutate('resolve_claim_request', {
+      p_request_id: requestId,
+      p_approve: approve,
+      p_admin_secret: adminSecret,
+    });
+    setResolvingClaimId(null);
+
+    if (error || !data) {
+      showToast('Fehler beim Bearbeiten der Anfrage', 'error');
+      return;
+    }
+    setClaimRequests((prev) => prev.filter((r) => r.id !== requestId));
+    showToast(approve ? 'Gerät bestätigt' : 'Anfrage abgelehnt', 'success');
+  }, [adminSecret, showToast]);
+
+  const catalog = useMemo(() => items.map(toCatalogItem), [items]);
+  const activities = useActivityFeed(entries, entryItems, catalog, !loading && hasSession);
+
+  const getCount = useCallback((entryId: string, itemId: string) =>
+    entryItems.find((r) => r.entry_id === entryId && r.item_id === itemId)?.count ?? 0,
+    [entryItems]
+  );
+
+  const getEntryCost = useCallback((entryId: string) =>
+    catalog.reduce((sum, item) => sum + getCount(entryId, item.id) * item.price, 0),
+    [catalog, getCount]
+  );
+
+  // Audit log (not part of realtime - refetched when entries or counts change)
+  const fetchEvents = useCallback(async () => {
+    if (!sessionId || !adminSecret) return;
+
+    const { data, error } = await backend.mutate('get_session_events', {
+      p_session_id: sessionId,
+      p_admin_secret: adminSecret,
+    });
+
+    if (error) {
+      console.error('Error fetching events:', error);
+      return;
+    }
+    setEvents(data || []);
+  }, [sessionId, adminSecret]);
+
+  const eventsTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    if (!session) return;
+
+    if (eventsTimeoutRef.current) clearTimeout(eventsTimeoutRef.current);
+    eventsTimeoutRef.current = setTimeout(fetchEvents, 500);
 
     return () => {
-      entriesChannel.unsubscribe();
+      if (eventsTimeoutRef.current) clearTimeout(eventsTimeoutRef.current);
     };
-  }, [sessionId, session, showToast]);
+  }, [session, entries, entryItems, fetchEvents]);
+
+  // Revert a single audit log event
+  const handleRevert = useCallback(async (eventId: string) => {
+    if (!sessionId || !adminSecret) return;
+
+    setRevertingId(eventId);
+    try {
+      const { error } = await backend.mutate('revert_event', {
+        p_session_id: sessionId,
+        p_admin_secret: adminSecret,
+        p_event_id: eventId,
+      });
+
+      if (error) throw error;
+
+      showToast('Änderung rückgängig gemacht', 'success');
+      await fetchEvents();
+    } catch (err) {
+      console.error('Error reverting event:', err);
+      showToast('Rückgängig machen fehlgeschlagen', 'error');
+    } finally {
+      setRevertingId(null);
+    }
+  }, [sessionId, adminSecret, showToast, fetchEvents]);
 
   // Close session
   const handleClose = useCallback(async () => {
@@ -150,7 +326,7 @@ export function AdminPage() {
 
     setIsClosing(true);
     try {
-      const { error } = await supabase.rpc('close_session', {
+      const { error } = await backend.mutate('close_session', {
         p_session_id: sessionId,
         p_admin_secret: adminSecret,
       });
@@ -173,7 +349,7 @@ export function AdminPage() {
 
     setIsClosing(true);
     try {
-      const { error } = await supabase.rpc('reopen_session', {
+      const { error } = await backend.mutate('reopen_session', {
         p_session_id: sessionId,
         p_admin_secret: adminSecret,
       });
@@ -190,41 +366,364 @@ export function AdminPage() {
     }
   }, [sessionId, adminSecret, showToast]);
 
+  // Fix name and counts of an entry
+  const handleSaveEntry = useCallback(async (entryId: string, name: string, counts: Record<string, number>) => {
+    const entry = entries.find((e) => e.id === entryId);
+    if (!entry || !adminSecret) return false;
+
+    setIsEntryBusy(true);
+    try {
+      if (name && name !== entry.display_name) {
+        const { data, error } = await backend.mutate('rename_entry', {
+          p_entry_id: entryId,
+          p_display_name: name.slice(0, MAX_NAME_LENGTH),
+          p_admin_secret: adminSecret,
+          p_actor: 'Admin',
+        });
+        if (error) throw error;
+        if (data) setEntries((prev) => prev.map((e) => (e.id === data.id ? data : e)));
+      }
+
+      const changedItems = catalog.filter((item) => (counts[item.id] ?? 0) !== getCount(entryId, item.id));
+      for (const item of changedItems) {
+        const { data, error } = await backend.mutate('set_entry_count', {
+          p_entry_id: entryId,
+          p_item: item.id,
+          p_count: counts[item.id] ?? 0,
+          p_admin_secret: adminSecret,
+        });
+        if (error) throw error;
+        if (data) setEntryItems((prev) => mergeEntryItem(prev, data));
+      }
+
+      showToast(`${name || entry.display_name} gespeichert`, 'success');
+      return true;
+    } catch (err) {
+      console.error('Error saving entry:', err);
+      const errorMsg = err instanceof Error ? err.message : 'Unbekannter Fehler';
+      showToast(`Fehler beim Speichern: ${errorMsg}`, 'error');
+      return false;
+    } finally {
+      setIsEntryBusy(false);
+    }
+  }, [entries, catalog, getCount, adminSecret, showToast]);
+
+  // Merge a duplicate entry into another one
+  const handleMergeEntry = useCallback(async (sourceId: string, targetId: string) => {
+    if (!sessionId || !adminSecret) return false;
+    const source = entries.find((e) => e.id === sourceId);
+    const target = entries.find((e) => e.id === targetId);
+    if (!source || !target) return false;
+
+    setIsEntryBusy(true);
+    try {
+      const { data, error } = await backend.mutate('merge_entries', {
+        p_session_id: sessionId,
+        p_admin_secret: adminSecret,
+        p_source_entry_id: sourceId,
+        p_target_entry_id: targetId,
+      });
+
+      if (error) throw error;
+      if (!data) throw new Error('Admin-Schlüssel ungültig');
+
+      showToast(`${source.display_name} mit ${target.display_name} zusammengeführt`, 'success');
+      return true;
+    } catch (err) {
+      console.error('Error merging entries:', err);
+      const errorMsg = err instanceof Error ? err.message : 'Unbekannter Fehler';
+      showToast(`Fehler beim Zusammenführen: ${errorMsg}`, 'error');
+      return false;
+    } finally {
+      setIsEntryBusy(false);
+    }
+  }, [sessionId, adminSecret, entries, showToast]);
+
+  // Remove an entry
+  const handleDeleteEntry = useCallback(async (entryId: string) => {
+    const entry = entries.find((e) => e.id === entryId);
+    if (!entry || !adminSecret) return;
+
+    setIsEntryBusy(true);
+    const { error } = await backend.mutate('delete_entry', {
+      p_entry_id: entryId,
+      p_admin_secret: adminSecret,
+      p_actor: 'Admin',
+    });
+    setIsEntryBusy(false);
+
+    if (error) {
+      showToast('Fehler beim Löschen: ' + error.message, 'error');
+    } else {
+      setEntries((prev) => prev.filter((e) => e.id !== entryId));
+      showToast(`${entry.display_name} entfernt`, 'success');
+    }
+  }, [entries, adminSecret, showToast]);
+
+  // Add a participant without a device
+  const handleAddEntry = useCallback(async () => {
+    const sanitizedName = newEntryName.trim().slice(0, MAX_NAME_LENGTH);
+    if (!sessionId || !adminSecret || !sanitizedName) return;
+
+    setIsEntryBusy(true);
+    const { error } = await backend.mutate('admin_add_entry', {
+      p_session_id: sessionId,
+      p_admin_secret: adminSecret,
+      p_display_name: sanitizedName,
+    });
+    setIsEntryBusy(false);
+
+    if (error) {
+      showToast(getDbErrorMessage(error, 'Fehler beim Hinzufügen: ' + error.message), 'error');
+    } else {
+      // The entry itself arrives through the realtime subscription
+      setNewEntryName('');
+    }
+  }, [sessionId, adminSecret, newEntryName, showToast]);
+
+  // Save title, mode and item catalog
+  const handleSaveSettings = useCallback(async (settings: SessionSettings) => {
+    if (!sessionId || !adminSecret) return;
+
+    setIsSavingSettings(true);
+    try {
+      const { data, error } = await backend.mutate('update_session', {
+        p_session_id: sessionId,
+        p_admin_secret: adminSecret,
+        p_title: settings.title || null,
+        p_mode: settings.mode,
+        p_items: toItemsPayload(settings.items, settings.mode),
+      });
+
+      if (error) throw error;
+      if (!data) throw new Error('Admin-Schlüssel ungültig');
+
+      // Item ids of new items are assigned server-side
+      const { data: itemsData, error: itemsError } = await backend.listItems(sessionId);
+
+      if (itemsError) throw itemsError;
+      setItems(itemsData || []);
+      setSession((prev) => (prev ? { ...prev, title: settings.title || null, mode: settings.mode } : null));
+      setIsEditingSettings(false);
+      showToast('Einstellungen gespeichert', 'success');
+    } catch (err) {
+      console.error('Error updating session:', err);
+      const errorMsg = err instanceof Error ? err.message : 'Unbekannter Fehler';
+      showToast(`Fehler beim Speichern: ${errorMsg}`, 'error');
+    } finally {
+      setIsSavingSettings(false);
+    }
+  }, [sessionId, adminSecret, showToast]);
+
+  // Create a new session with the same mode and item catalog
+  const handleClone = useCallback(async () => {
+    if (!sessionId || !adminSecret) return;
+
+    setIsCloning(true);
+    try {
+      const newAdminSecret = crypto.randomUUID().replace(/-/g, '');
+      const title = cloneTitle.trim().slice(0, MAX_TITLE_LENGTH);
+      const { data: newSessionId, error } = await backend.mutate('clone_session', {
+        p_session_id: sessionId,
+        p_admin_secret: adminSecret,
+        p_new_admin_secret: newAdminSecret,
+        p_title: title || null,
+        p_copy_participants: cloneParticipants,
+      });
+
+      if (error) throw error;
+      if (!newSessionId) throw new Error('Keine Session-ID erhalten');
+
+      const baseUrl = window.location.origin;
+      const state: LandingLocationState = {
+        createdSession: {
+          sessionId: newSessionId,
+          adminSecret: newAdminSecret,
+          participantLink: `${baseUrl}/s/${newSessionId}`,
+          adminLink: `${baseUrl}/a/${newSessionId}?key=${newAdminSecret}`,
+        },
+        title,
+      };
+      navigate('/', { state });
+    } catch (err) {
+      console.error('Error cloning session:', err);
+      showToast('Fehler beim Erstellen des neuen Einstands', 'error');
+      setIsCloning(false);
+    }
+  }, [sessionId, adminSecret, cloneTitle, cloneParticipants, navigate, showToast]);
+
+  // Rotate admin secret - the old link stops working
+  const handleRotateSecret = useCallback(async () => {
+    if (!sessionId || !adminSecret) return;
+
+    setIsRotating(true);
+    try {
+      const newSecret = crypto.randomUUID().replace(/-/g, '');
+      const { data, error } = await backend.mutate('rotate_admin_secret', {
+        p_session_id: sessionId,
+        p_admin_secret: adminSecret,
+        p_new_admin_secret: newSecret,
+      });
+
+      if (error) throw error;
+      if (!data) throw new Error('Admin-Schlüssel ungültig');
+
+      setSearchParams({ key: newSecret }, { replace: true });
+      setShowRotatedNotice(true);
+      showToast('Neuer Admin-Link erstellt', 'success');
+    } catch (err) {
+      console.error('Error rotating admin secret:', err);
+      showToast('Fehler beim Erneuern des Admin-Links', 'error');
+    } finally {
+      setIsRotating(false);
+    }
+  }, [sessionId, adminSecret, setSearchParams, showToast]);
+
+  // Create or renew the co-host link - an existing one stops working
+  const handleCreateCohostLink = useCallback(async () => {
+    if (!sessionId || !adminSecret) return;
+
+    setIsUpdatingCohost(true);
+    try {
+      const cohostSecret = crypto.randomUUID().replace(/-/g, '');
+      const { data, error } = await backend.mutate('set_cohost_secret', {
+        p_session_id: sessionId,
+        p_admin_secret: adminSecret,
+        p_cohost_secret: cohostSecret,
+      });
+
+      if (error) throw error;
+      if (!data) throw new Error('Admin-Schlüssel ungültig');
+
+      setCohostLink(`${window.location.origin}/a/${sessionId}?key=${cohostSecret}`);
+      setSession((prev) => (prev ? { ...prev, has_cohost: true } : null));
+      showToast('Co-Host-Link erstellt', 'success');
+    } catch (err) {
+      console.error('Error creating co-host link:', err);
+      showToast('Fehler beim Erstellen des Co-Host-Links', 'error');
+    } finally {
+      setIsUpdatingCohost(false);
+    }
+  }, [sessionId, adminSecret, showToast]);
+
+  // Revoke the co-host link
+  const handleRevokeCohostLink = useCallback(async () => {
+    if (!sessionId || !adminSecret) return;
+
+    setIsUpdatingCohost(true);
+    try {
+      const { error } = await backend.mutate('revoke_cohost_secret', {
+        p_session_id: sessionId,
+        p_admin_secret: adminSecret,
+      });
+
+      if (error) throw error;
+
+      setCohostLink(null);
+      setSession((prev) => (prev ? { ...prev, has_cohost: false } : null));
+      showToast('Co-Host-Link widerrufen', 'success');
+    } catch (err) {
+      console.error('Error revoking co-host link:', err);
+      showToast('Fehler beim Widerrufen', 'error');
+    } finally {
+      setIsUpdatingCohost(false);
+    }
+  }, [sessionId, adminSecret, showToast]);
+
   // Delete session
   const handleDelete = useCallback(async () => {
     if (!sessionId || !adminSecret) return;
 
     setIsDeleting(true);
     try {
-      const { error } = await supabase.rpc('delete_session', {
+      const { error } = await backend.mutate('delete_session', {
         p_session_id: sessionId,
         p_admin_secret: adminSecret,
       });
 
       if (error) throw error;
 
+      // Reload to get deleted_at/purge_after for the restore screen
+      const { data: sessionData, error: sessionError } = await backend.getAdminSession(
+        sessionId,
+        adminSecret
+      );
+
+      if (sessionError) throw sessionError;
+      if (!sessionData) throw new Error('Session nicht gefunden');
+      setSession(sessionData);
+      setShowDeleteConfirm(false);
       showToast('Einstand gelöscht', 'success');
-      setTimeout(() => {
-        navigate('/');
-      }, 1500);
     } catch (err) {
       console.error('Error deleting session:', err);
       showToast('Fehler beim Löschen', 'error');
+    } finally {
       setIsDeleting(false);
     }
-  }, [sessionId, adminSecret, showToast, navigate]);
+  }, [sessionId, adminSecret, showToast]);
+
+  // Restore a soft-deleted session
+  const handleRestore = useCallback(async () => {
+    if (!sessionId || !adminSecret) return;
+
+    setIsRestoring(true);
+    try {
+      const { data, error } = await backend.mutate('restore_session', {
+        p_session_id: sessionId,
+        p_admin_secret: adminSecret,
+      });
+
+      if (error) throw error;
+      if (!data) throw new Error('Wiederherstellen nicht mehr möglich');
+
+      setSession((prev) => (prev ? { ...prev, deleted_at: null, purge_after: null } : null));
+      showToast('Einstand wiederhergestellt', 'success');
+    } catch (err) {
+      console.error('Error restoring session:', err);
+      showToast('Fehler beim Wiederherstellen', 'error');
+    } finally {
+      setIsRestoring(false);
+    }
+  }, [sessionId, adminSecret, showToast]);
 
   // Totals
   const totals = useMemo(() => {
-    const totalWurst = entries.reduce((sum, e) => sum + e.wurst_count, 0);
-    const totalPretzel = entries.reduce((sum, e) => sum + e.pretzel_count, 0);
+    const perItem = Object.fromEntries(
+      catalog.map((item) => [
+        item.id,
+        entryItems
+          .filter((r) => r.item_id === item.id)
+          .reduce((sum, r) => sum + r.count, 0),
+      ])
+    );
     const totalCost =
       session?.mode === 'SPLIT'
-        ? totalWurst * (session.price_wurst || 0) +
-          totalPretzel * (session.price_pretzel || 0)
+        ? catalog.reduce((sum, item) => sum + perItem[item.id] * item.price, 0)
         : 0;
-    return { totalWurst, totalPretzel, totalCost };
-  }, [entries, session]);
+    return { perItem, totalCost };
+  }, [catalog, entryItems, session]);
+
+  // Spreadsheet for whoever settles the bill
+  const handleExportCsv = useCallback(() => {
+    if (!session) return;
+    const title = session.title || 'Weißwurst Einstand';
+    const csv = createCostsCsv({
+      title,
+      mode: session.mode === 'SPLIT' ? 'split' : 'invite',
+      createdAt: session.created_at,
+      status: session.status === 'CLOSED' ? 'Geschlossen' : 'Offen',
+      items: catalog,
+      colleagues: entries.map((entry) => ({
+        id: entry.id,
+        name: entry.display_name,
+        count: 0,
+        brezelCount: 0,
+        itemCounts: Object.fromEntries(catalog.map((item) => [item.id, getCount(entry.id, item.id)])),
+      })),
+    });
+    downloadFile(csv, getCsvFileName(title), 'text/csv;charset=utf-8');
+    showToast('CSV heruntergeladen', 'success');
+  }, [session, catalog, entries, getCount, showToast]);
 
   // Links
   const participantLink = session
@@ -270,7 +769,41 @@ export function AdminPage() {
     );
   }
 
+  // Deleted state - can be restored until the purge job removes it
+  if (session.deleted_at) {
+    return (
+      <div className={styles.errorContainer}>
+        <ToastContainer toasts={toasts} onDismiss={dismissToast} />
+        <div className={styles.errorCard}>
+          <h1>Gelöscht — wiederherstellen?</h1>
+          <p className={styles.errorHint}>
+            „{session.title || 'Weißwurst Einstand'}“ wurde gelöscht
+            {session.purge_after && (
+              <> und wird am {new Date(session.purge_after).toLocaleDateString('de-DE')} endgültig entfernt</>
+            )}.
+          </p>
+          {hasPermission(session.role, 'delete') ? (
+            <button
+              onClick={handleRestore}
+              disabled={isRestoring}
+              className={styles.restoreButton}
+            >
+              {isRestoring ? '...' : 'Wiederherstellen'}
+            </button>
+          ) : (
+            <p className={styles.errorHint}>Nur der Organisator kann ihn wiederherstellen.</p>
+          )}
+          <Link to="/" className={styles.backLink}>
+            ← Zurück zur Startseite
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
   const isClosed = session.status === 'CLOSED';
+  const isCohost = session.role === 'COHOST';
+  const can = (permission: Parameters<typeof hasPermission>[1]) => hasPermission(session.role, permission);
 
   return (
     <div className={styles.container}>
@@ -284,7 +817,11 @@ export function AdminPage() {
               <span>🥨</span>
             </Link>
             <div className={styles.titleCenter}>
-              <h1 className={styles.title}>Admin</h1>
+              <h1 className={styles.title}>{isCohost ? 'Co-Host' : 'Admin'}</h1>
+            </div>
+            <div className={styles.headerStatus}>
+              <ViewerCount viewers={viewers} />
+              <ConnectionIndicator status={connectionStatus} />
             </div>
           </div>
         </div>
@@ -309,8 +846,11 @@ export function AdminPage() {
 
             {session.mode === 'SPLIT' && (
               <div className={styles.priceInfo}>
-                <span>Wurst: {session.price_wurst?.toFixed(2)} €</span>
-                <span>Brezel: {session.price_pretzel?.toFixed(2)} €</span>
+                {catalog.map((item) => (
+                  <span key={item.id}>
+                    {item.emoji} {item.name}: {item.price.toFixed(2)} €/{item.unit}
+                  </span>
+                ))}
               </div>
             )}
 
@@ -330,8 +870,16 @@ export function AdminPage() {
               </div>
             </div>
 
+            {showRotatedNotice && (
+              <p className={styles.rotatedNotice}>
+                Neuer Admin-Link aktiv. Der alte Link funktioniert nicht mehr - speichere diesen hier.
+              </p>
+            )}
+
             <div className={styles.linkSection}>
-              <label className={styles.linkLabel}>Admin-Link (nur für dich):</label>
+              <label className={styles.linkLabel}>
+                {isCohost ? 'Co-Host-Link:' : 'Admin-Link (nur für dich):'}
+              </label>
               <div className={styles.linkRow}>
                 <code className={styles.linkCode}>{adminLink}</code>
                 <button
@@ -345,6 +893,51 @@ export function AdminPage() {
                 </button>
               </div>
             </div>
+
+            {can('manage_links') && (
+              <div className={styles.linkSection}>
+                <label className={styles.linkLabel}>Co-Host-Link (Teilnehmer korrigieren, schließen):</label>
+                {cohostLink ? (
+                  <div className={styles.linkRow}>
+                    <code className={styles.linkCode}>{cohostLink}</code>
+                    <button
+                      onClick={() => copyToClipboard(cohostLink)}
+                      className={styles.copyButton}
+                      aria-label="Kopieren"
+                    >
+                      <svg fill="none" stroke="currentColor" viewBox="0 0 24 24" width="16" height="16">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                      </svg>
+                    </button>
+                  </div>
+                ) : (
+                  <p className={styles.linkHint}>
+                    {session.has_cohost
+                      ? 'Aktiv. Der Link wird nur beim Erstellen angezeigt.'
+                      : 'Noch kein Co-Host-Link.'}
+                  </p>
+                )}
+                <div className={styles.cohostActions}>
+                  <button
+                    onClick={handleCreateCohostLink}
+                    disabled={isUpdatingCohost}
+                    className={styles.actionButton}
+                    title={session.has_cohost ? 'Der bisherige Co-Host-Link wird ungültig' : undefined}
+                  >
+                    {isUpdatingCohost ? '...' : session.has_cohost ? 'Co-Host-Link erneuern' : 'Co-Host-Link erstellen'}
+                  </button>
+                  {session.has_cohost && (
+                    <button
+                      onClick={handleRevokeCohostLink}
+                      disabled={isUpdatingCohost}
+                      className={styles.cancelDeleteButton}
+                    >
+                      Widerrufen
+                    </button>
+                  )}
+                </div>
+              </div>
+            )}
           </div>
 
           {/* Actions Card */}
@@ -373,7 +966,84 @@ export function AdminPage() {
                 Teilnehmer-Ansicht
               </Link>
 
-              {!showDeleteConfirm ? (
+              <button
+                onClick={handleExportCsv}
+                className={styles.actionButton}
+                title="Teilnehmer, Summen, Senf und Kosten für Excel"
+              >
+                Als CSV exportieren
+              </button>
+
+              {can('settings') && (
+                <button
+                  onClick={() => setIsEditingSettings(true)}
+                  disabled={isEditingSettings}
+                  className={styles.actionButton}
+                >
+                  Einstellungen bearbeiten
+                </button>
+              )}
+
+              {can('manage_links') && (
+                <button
+                  onClick={handleRotateSecret}
+                  disabled={isRotating}
+                  className={styles.actionButton}
+                  title="Erstellt einen neuen Admin-Link, der alte wird ungültig"
+                >
+                  {isRotating ? '...' : 'Admin-Link erneuern'}
+                </button>
+              )}
+
+              {can('clone') && (!showCloneForm ? (
+                <button
+                  onClick={() => {
+                    setCloneTitle(session.title ?? '');
+                    setShowCloneForm(true);
+                  }}
+                  className={styles.actionButton}
+                >
+                  Neuen Einstand mit diesen Einstellungen
+                </button>
+              ) : (
+                <div className={styles.cloneForm}>
+                  <input
+                    type="text"
+                    value={cloneTitle}
+                    onChange={(e) => setCloneTitle(e.target.value.slice(0, MAX_TITLE_LENGTH))}
+                    placeholder="Titel"
+                    maxLength={MAX_TITLE_LENGTH}
+                    autoComplete="off"
+                    className={styles.addEntryInput}
+                    aria-label="Titel des neuen Einstands"
+                  />
+                  <label className={styles.checkboxLabel}>
+                    <input
+                      type="checkbox"
+                      checked={cloneParticipants}
+                      onChange={(e) => setCloneParticipants(e.target.checked)}
+                    />
+                    Teilnehmer übernehmen ({entries.length})
+                  </label>
+                  <div className={styles.deleteActions}>
+                    <button
+                      onClick={handleClone}
+                      disabled={isCloning || !cloneTitle.trim()}
+                      className={styles.actionButton}
+                    >
+                      {isCloning ? '...' : 'Erstellen'}
+                    </button>
+                    <button
+                      onClick={() => setShowCloneForm(false)}
+                      className={styles.cancelDeleteButton}
+                    >
+                      Abbrechen
+                    </button>
+                  </div>
+                </div>
+              ))}
+
+              {can('delete') && (!showDeleteConfirm ? (
                 <button
                   onClick={() => setShowDeleteConfirm(true)}
                   className={styles.deleteButton}
@@ -382,7 +1052,7 @@ export function AdminPage() {
                 </button>
               ) : (
                 <div className={styles.deleteConfirm}>
-                  <p>Wirklich löschen? Das kann nicht rückgängig gemacht werden.</p>
+                  <p>Wirklich löschen? Über den Admin-Link kannst du ihn noch eine Zeit lang wiederherstellen.</p>
                   <div className={styles.deleteActions}>
                     <button
                       onClick={handleDelete}
@@ -399,10 +1069,23 @@ export function AdminPage() {
                     </button>
                   </div>
                 </div>
-              )}
+              ))}
             </div>
           </div>
 
+          {/* Settings Card */}
+          {isEditingSettings && (
+            <div className={`${styles.card} ${styles.cardWide}`}>
+              <h3 className={styles.cardSubtitle}>Einstellungen</h3>
+              <SessionSettingsForm
+                initial={{ title: session.title ?? '', mode: session.mode, items: catalog }}
+                isSaving={isSavingSettings}
+                onSave={handleSaveSettings}
+                onCancel={() => setIsEditingSettings(false)}
+              />
+            </div>
+          )}
+
           {/* Summary Card */}
           <div className={styles.card}>
             <h3 className={styles.cardSubtitle}>Zusammenfassung</h3>
@@ -411,14 +1094,12 @@ export function AdminPage() {
                 <span className={styles.statLabel}>Teilnehmer</span>
                 <span className={styles.statValue}>{entries.length}</span>
               </div>
-              <div className={styles.stat}>
-                <span className={styles.statLabel}>Würste</span>
-                <span className={styles.statValue}>{totals.totalWurst}</span>
-              </div>
-              <div className={styles.stat}>
-                <span className={styles.statLabel}>Brezeln</span>
-                <span className={styles.statValue}>{totals.totalPretzel}</span>
-              </div>
+              {catalog.map((item) => (
+                <div key={item.id} className={styles.stat}>
+                  <span className={styles.statLabel}>{item.emoji} {item.name}</span>
+                  <span className={styles.statValue}>{totals.perItem[item.id]}</span>
+                </div>
+              ))}
               {session.mode === 'SPLIT' && (
                 <div className={styles.stat}>
                   <span className={styles.statLabel}>Gesamt</span>
@@ -430,47 +1111,84 @@ export function AdminPage() {
             </div>
           </div>
 
-          {/* Entries Table */}
+          {/* Activity Feed */}
+          <ActivityFeed activities={activities} className={styles.card} />
+
+          {/* Presence Card */}
           <div className={styles.card}>
+            <h3 className={styles.cardSubtitle}>Gerade online ({viewers.length})</h3>
+            <PresenceList viewers={viewers} />
+          </div>
+
+          {/* Entries Table */}
+          <div className={`${styles.card} ${styles.cardWide}`}>
             <h3 className={styles.cardSubtitle}>Teilnehmer ({entries.length})</h3>
+            <ClaimRequests
+              requests={claimRequests}
+              busyId={resolvingClaimId}
+              onResolve={handleResolveClaim}
+            />
+            <div className={styles.addEntryRow}>
+              <input
+                type="text"
+                value={newEntryName}
+                onChange={(e) => setNewEntryName(e.target.value.slice(0, MAX_NAME_LENGTH))}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleAddEntry();
+                }}
+                placeholder="Teilnehmer ohne Handy hinzufügen"
+                maxLength={MAX_NAME_LENGTH}
+                autoComplete="off"
+                className={styles.addEntryInput}
+              />
+              <button
+                onClick={handleAddEntry}
+                disabled={isEntryBusy || !newEntryName.trim()}
+                className={styles.actionButton}
+              >
+                Hinzufügen
+              </button>
+            </div>
             {entries.length > 0 ? (
               <div className={styles.tableWrapper}>
                 <table className={styles.table}>
                   <thead>
                     <tr>
                       <th>Name</th>
-                      <th>Würste</th>
-                      <th>Brezeln</th>
+                      {catalog.map((item) => (
+                        <th key={item.id} title={item.name}>{item.emoji} {item.name}</th>
+                      ))}
                       {session.mode === 'SPLIT' && <th>Betrag</th>}
+                      <th aria-label="Aktionen" />
                     </tr>
                   </thead>
                   <tbody>
                     {entries.map((entry) => (
-                      <tr key={entry.id}>
-                        <td>{entry.display_name}</td>
-                        <td>{entry.wurst_count}</td>
-                        <td>{entry.pretzel_count}</td>
-                        {session.mode === 'SPLIT' && (
-                          <td className={styles.costCell}>
-                            {(
-                              entry.wurst_count * (session.price_wurst || 0) +
-                              entry.pretzel_count * (session.price_pretzel || 0)
-                            ).toFixed(2)}{' '}
-                            €
-                          </td>
-                        )}
-                      </tr>
+                      <AdminEntryRow
+                        key={entry.id}
+                        entry={entry}
+                        items={catalog}
+                        counts={Object.fromEntries(catalog.map((item) => [item.id, getCount(entry.id, item.id)]))}
+                        cost={session.mode === 'SPLIT' ? getEntryCost(entry.id) : null}
+                        otherEntries={entries.filter((e) => e.id !== entry.id)}
+                        isBusy={isEntryBusy}
+                        onSave={(name, counts) => handleSaveEntry(entry.id, name, counts)}
+                        onMerge={(targetId) => handleMergeEntry(entry.id, targetId)}
+                        onDelete={() => handleDeleteEntry(entry.id)}
+                      />
                     ))}
                   </tbody>
                   {session.mode === 'SPLIT' && (
                     <tfoot>
                       <tr>
                         <td><strong>Gesamt</strong></td>
-                        <td><strong>{totals.totalWurst}</strong></td>
-                        <td><strong>{totals.totalPretzel}</strong></td>
+                        {catalog.map((item) => (
+                          <td key={item.id}><strong>{totals.perItem[item.id]}</strong></td>
+                        ))}
                         <td className={styles.costCell}>
                           <strong>{totals.totalCost.toFixed(2)} €</strong>
                         </td>
+                        <td />
                       </tr>
                     </tfoot>
                   )}
@@ -480,6 +1198,17 @@ export function AdminPage() {
               <p className={styles.emptyMessage}>Noch keine Teilnehmer</p>
             )}
           </div>
+
+          {/* Event Timeline */}
+          <div className={styles.card}>
+            <h3 className={styles.cardSubtitle}>Verlauf</h3>
+            <EventTimeline
+              events={events}
+              items={catalog}
+              onRevert={handleRevert}
+              revertingId={revertingId}
+            />
+          </div>
         </div>
       </main>
 
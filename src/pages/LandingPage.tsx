@@ -3,44 +3,64 @@
  * 
  * Entry point for the app:
  * - Create new shared Einstand session
+ * - Success screen with links (also for sessions cloned on the AdminPage)
  * - Link to offline mode
  */
 
 import { useState, useCallback } from 'react';
-import { useNavigate, Link } from 'react-router-dom';
-import { supabase, isSupabaseConfigured } from '../lib/supabase';
+import { useNavigate, useLocation, Link } from 'react-router-dom';
+import { backend } from '../lib/backend';
 import type { SessionMode } from '../lib/database.types';
-import type { Toast } from '../types';
-import { PriceInput } from '../components/PriceInput';
+import type { Toast, CatalogItem } from '../types';
+import { DEFAULT_PRICE, DEFAULT_BREZEL_PRICE } from '../types';
+import { getDefaultItems, toItemsPayload } from '../utils/items';
+import { getDbErrorMessage, isLimitError } from '../utils/dbErrors';
+import { ItemCatalogEditor } from '../components/ItemCatalogEditor';
 import { ToastContainer } from '../components/ToastContainer';
 import styles from '../App.module.css';
 import landingStyles from './LandingPage.module.css';
 
-interface CreateSessionResult {
+export interface CreateSessionResult {
   sessionId: string;
   adminSecret: string;
   participantLink: string;
   adminLink: string;
 }
 
+// Router state to open the success screen directly (see AdminPage clone)
+export interface LandingLocationState {
+  createdSession: CreateSessionResult;
+  title: string;
+}
+
 // Security constants
 const MAX_TITLE_LENGTH = 100;
 
 export function LandingPage() {
   const navigate = useNavigate();
+  const locationState = useLocation().state as LandingLocationState | null;
   const [isCreating, setIsCreating] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [result, setResult] = useState<CreateSessionResult | null>(null);
+  const [result, setResult] = useState<CreateSessionResult | null>(locationState?.createdSession ?? null);
   const [toasts, setToasts] = useState<Toast[]>([]);
   
   // Form state
-  const [title, setTitle] = useState('');
+  const [title, setTitle] = useState(locationState?.title ?? '');
   const [mode, setMode] = useState<SessionMode>('INVITE');
-  const [priceWurst, setPriceWurst] = useState(2.00);
-  const [pricePretzel, setPricePretzel] = useState(1.00);
+  const [items, setItems] = useState<CatalogItem[]>(() =>
+    getDefaultItems(DEFAULT_PRICE, DEFAULT_BREZEL_PRICE)
+  );
+
+  const showToast = useCallback((message: string, type: Toast['type'] = 'info') => {
+    const id = Date.now().toString();
+    setToasts((prev) => [...prev, { id, message, type }]);
+    setTimeout(() => {
+      setToasts((prev) => prev.filter((t) => t.id !== id));
+    }, 3000);
+  }, []);
 
   const createSession = useCallback(async () => {
-    if (!isSupabaseConfigured) {
+    if (!backend.isConfigured) {
       setError('Supabase nicht konfiguriert. Nutze den Offline-Modus.');
       return;
     }
@@ -52,46 +72,40 @@ export function LandingPage() {
       // Generate admin secret client-side for immediate use
       const adminSecret = crypto.randomUUID().replace(/-/g, '');
       
-      const { data, error: insertError } = await supabase
-        .from('einstand_sessions')
-        .insert({
-          title: title.trim().slice(0, MAX_TITLE_LENGTH) || null,
-          mode,
-          price_wurst: mode === 'SPLIT' ? priceWurst : null,
-          price_pretzel: mode === 'SPLIT' ? pricePretzel : null,
-          admin_secret: adminSecret,
-        })
-        .select('id')
-        .single();
+      // Session and item catalog are created atomically by the RPC
+      const { data: sessionId, error: createError } = await backend.createSession({
+        p_title: title.trim().slice(0, MAX_TITLE_LENGTH) || null,
+        p_mode: mode,
+        p_admin_secret: adminSecret,
+        p_items: toItemsPayload(items, mode),
+      });
 
-      if (insertError) throw insertError;
-      if (!data) throw new Error('Keine Session-ID erhalten');
+      if (createError) throw createError;
+      if (!sessionId) throw new Error('Keine Session-ID erhalten');
 
       const baseUrl = window.location.origin;
-      const participantLink = `${baseUrl}/s/${data.id}`;
-      const adminLink = `${baseUrl}/a/${data.id}?key=${adminSecret}`;
+      const participantLink = `${baseUrl}/s/${sessionId}`;
+      const adminLink = `${baseUrl}/a/${sessionId}?key=${adminSecret}`;
 
       setResult({
-        sessionId: data.id,
+        sessionId,
         adminSecret,
         participantLink,
         adminLink,
       });
     } catch (err) {
       console.error('Error creating session:', err);
-      setError(err instanceof Error ? err.message : 'Fehler beim Erstellen');
+      if (isLimitError(err)) {
+        showToast(getDbErrorMessage(err, 'Fehler beim Erstellen'), 'warning');
+      } else {
+        setError(err instanceof Error ? err.message : 'Fehler beim Erstellen');
+      }
     } finally {
       setIsCreating(false);
     }
-  }, [title, mode, priceWurst, pricePretzel]);
+  }, [title, mode, items, showToast]);
 
-  const showToast = useCallback((message: string, type: Toast['type'] = 'info') => {
-    const id = Date.now().toString();
-    setToasts((prev) => [...prev, { id, message, type }]);
-    setTimeout(() => {
-      setToasts((prev) => prev.filter((t) => t.id !== id));
-    }, 3000);
-  }, []);
+  const hasValidItems = items.length > 0 && items.every((item) => item.name.trim());
 
   const dismissToast = useCallback((id: string) => {
     setToasts((prev) => prev.filter((t) => t.id !== id));
@@ -274,37 +288,32 @@ export function LandingPage() {
               </p>
             </div>
 
-            {mode === 'SPLIT' && (
-              <div className={landingStyles.priceFields}>
-                <PriceInput 
-                  price={priceWurst}
-                  onChange={setPriceWurst}
-                  label="Preis pro Wurst"
-                />
-                <PriceInput 
-                  price={pricePretzel}
-                  onChange={setPricePretzel}
-                  label="Preis pro Brezel"
-                />
-              </div>
-            )}
+            <div className={landingStyles.field}>
+              <label className={landingStyles.label}>Angebot</label>
+              <ItemCatalogEditor
+                items={items}
+                onChange={setItems}
+                showPrices={mode === 'SPLIT'}
+              />
+            </div>
 
             <button
               onClick={createSession}
-              disabled={isCreating || !isSupabaseConfigured || !title.trim()}
+              disabled={isCreating || !backend.isConfigured || !title.trim() || !hasValidItems}
               className={landingStyles.primaryButton}
             >
               {isCreating ? 'Wird erstellt...' : 'Einstand erstellen'}
             </button>
           </div>
 
-          {!isSupabaseConfigured && (
+          {!backend.isConfigured && (
             <p className={landingStyles.warning}>
               Supabase nicht konfiguriert. Online-Modus nicht verfügbar.
             </p>
           )}
         </div>
       </main>
+      <ToastContainer toasts={toasts} onDismiss={dismissToast} />
     </div>
   );
 }
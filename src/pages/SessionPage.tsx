@@ -3,21 +3,35 @@
  * 
  * Participant view for a shared Einstand session.
  * - Fetches session + entries from Supabase
- * - Realtime updates via subscription
+ * - Realtime updates via subscription, full refetch when the connection may have missed some
  * - Add/update own entry
+ * - "Das bin ich": claim an existing entry from another device
+ * - Move the own entry to another device with a one-time code or QR (?claim=CODE)
+ * - Counter clicks are queued on the device and replayed when the connection is back
+ * - Presence: who has the session open right now
  */
 
-import { useState, useCallback, useEffect, useMemo } from 'react';
-import { useParams, Link } from 'react-router-dom';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { useParams, useSearchParams, Link } from 'react-router-dom';
 import { v4 as uuidv4 } from 'uuid';
-import type { Toast } from '../types';
-import { DEFAULT_BREZEL_PRICE } from '../types';
-import { supabase, isSupabaseConfigured } from '../lib/supabase';
-import type { SessionPublic, Entry, EntryInsert } from '../lib/database.types';
+import type { Toast, Colleague } from '../types';
+import { backend, type Viewer } from '../lib/backend';
+import type { SessionPublic, Entry, Item, EntryItem, ClaimRequest } from '../lib/database.types';
+import { toCatalogItem } from '../utils/items';
+import { getDbErrorMessage, isNetworkError } from '../utils/dbErrors';
+import { useWriteQueue } from '../hooks/useWriteQueue';
+import { useConnectionStatus } from '../hooks/useConnectionStatus';
+import { useActivityFeed } from '../hooks/useActivityFeed';
+import { useRemoteAnimations } from '../hooks/useRemoteAnimations';
 import { WurstScene } from '../components/WurstScene';
 import { SceneErrorBoundary } from '../components/SceneErrorBoundary';
 import { ToastContainer } from '../components/ToastContainer';
+import { ConnectionIndicator } from '../components/ConnectionIndicator';
+import { ViewerCount } from '../components/PresenceList';
+import { ClaimRequests } from '../components/ClaimRequests';
+import type { TransferCode } from '../components/TransferCodePanel';
 import { Summary } from '../components/Summary';
+import { ActivityFeed } from '../components/ActivityFeed';
 import { ColleagueList } from '../components/ColleagueList';
 import styles from '../App.module.css';
 import pageStyles from './SessionPage.module.css';
@@ -28,12 +42,47 @@ const MAX_NAME_LENGTH = 50;
 // Local storage key for participant identity
 const getParticipantKey = (sessionId: string) => `weisswurst_participant_${sessionId}`;
 
+// Local storage key for a pending "Das bin ich" claim (same shape as the identity)
+const getClaimKey = (sessionId: string) => `weisswurst_claim_${sessionId}`;
+
+// Names are unique per session, ignoring case and surrounding spaces (as in SQL)
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
 interface ParticipantIdentity {
   entryId: string;
   displayName: string;
+  // Secret that authorizes writes to this entry (only its hash is stored server-side)
+  editToken: string;
 }
 
-// Retry helper for critical operations
+const isParticipantIdentity = (value: unknown): value is ParticipantIdentity => {
+  const parsed = value as Partial<ParticipantIdentity> | null;
+  return (
+    !!parsed &&
+    typeof parsed.entryId === 'string' &&
+    typeof parsed.displayName === 'string' &&
+    typeof parsed.editToken === 'string' &&
+    parsed.displayName.length <= MAX_NAME_LENGTH
+  );
+};
+
+// Replace or append a count row (entry_id + item_id is the key)
+const mergeEntryItem = (prev: EntryItem[], row: EntryItem): EntryItem[] => {
+  const exists = prev.some((r) => r.entry_id === row.entry_id && r.item_id === row.item_id);
+  return exists
+    ? prev.map((r) => (r.entry_id === row.entry_id && r.item_id === row.item_id ? row : r))
+    : [...prev, row];
+};
+
+// Fetched rows replace the local ones unless a live update is newer
+const reconcileEntryItems = (prev: EntryItem[], fetched: EntryItem[]): EntryItem[] =>
+  fetched.map((row) => {
+    const local = prev.find((r) => r.entry_id === row.entry_id && r.item_id === row.item_id);
+    return local && local.updated_at > row.updated_at ? local : row;
+  });
+
+// Retry helper for critical operations - only when the request got no
+// answer, everything else (limits, permissions, taken names) fails again
 const retryOperation = async <T,>(
   operation: () => Promise<T>,
   maxRetries = 3,
@@ -44,6 +93,7 @@ const retryOperation = async <T,>(
     try {
       return await operation();
     } catch (err) {
+      if (!isNetworkError(err)) throw err;
       lastError = err;
       console.warn(`Retry attempt ${attempt + 1}/${maxRetries} failed:`, err);
       if (attempt < maxRetries - 1) {
@@ -56,10 +106,14 @@ const retryOperation = async <T,>(
 
 export function SessionPage() {
   const { sessionId } = useParams<{ sessionId: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const claimCodeParam = searchParams.get('claim');
   
   // Data state
   const [session, setSession] = useState<SessionPublic | null>(null);
   const [entries, setEntries] = useState<Entry[]>([]);
+  const [items, setItems] = useState<Item[]>([]);
+  const [entryItems, setEntryItems] = useState<EntryItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   
@@ -67,14 +121,24 @@ export function SessionPage() {
   const [myIdentity, setMyIdentity] = useState<ParticipantIdentity | null>(null);
   const [inputName, setInputName] = useState('');
   const [isJoining, setIsJoining] = useState(false);
+  const [pendingClaim, setPendingClaim] = useState<ParticipantIdentity | null>(null);
+  const [isClaiming, setIsClaiming] = useState(false);
+  const [claimRequests, setClaimRequests] = useState<ClaimRequest[]>([]);
+  const [resolvingClaimId, setResolvingClaimId] = useState<string | null>(null);
+  // Bumped by the claim_requested/claim_resolved broadcasts to re-check via RPC
+  const [claimVersion, setClaimVersion] = useState(0);
+  // Bumped by identity_moved - the own token may have been replaced by a claim code
+  const [identityVersion, setIdentityVersion] = useState(0);
+  const [showCodeInput, setShowCodeInput] = useState(false);
+  const [codeInput, setCodeInput] = useState('');
+  const [isRedeeming, setIsRedeeming] = useState(false);
+  const redeemedCodeRef = useRef<string | null>(null);
   
   // UI state
   const [toasts, setToasts] = useState<Toast[]>([]);
   const [activeEntryId, setActiveEntryId] = useState<string | null>(null);
   const [isCollapsed, setIsCollapsed] = useState(false);
-
-  // Request deduplication - prevent concurrent updates to same entry
-  const [pendingOperations, setPendingOperations] = useState<Set<string>>(new Set());
+  const [viewers, setViewers] = useState<Viewer[]>([]);
 
   const showToast = useCallback((message: string, type: Toast['type'] = 'info') => {
     const id = uuidv4();
@@ -96,12 +160,7 @@ export function SessionPage() {
       try {
         const parsed = JSON.parse(stored);
         // Validate parsed data structure
-        if (
-          parsed &&
-          typeof parsed.entryId === 'string' &&
-          typeof parsed.displayName === 'string' &&
-          parsed.displayName.length <= MAX_NAME_LENGTH
-        ) {
+        if (isParticipantIdentity(parsed)) {
           setMyIdentity(parsed);
         } else {
           localStorage.removeItem(getParticipantKey(sessionId));
@@ -110,13 +169,27 @@ export function SessionPage() {
         localStorage.removeItem(getParticipantKey(sessionId));
       }
     }
+
+    const storedClaim = localStorage.getItem(getClaimKey(sessionId));
+    if (storedClaim) {
+      try {
+        const parsed = JSON.parse(storedClaim);
+        if (isParticipantIdentity(parsed)) {
+          setPendingClaim(parsed);
+        } else {
+          localStorage.removeItem(getClaimKey(sessionId));
+        }
+      } catch {
+        localStorage.removeItem(getClaimKey(sessionId));
+      }
+    }
   }, [sessionId]);
 
   // Fetch session and entries
   useEffect(() => {
-    if (!sessionId || !isSupabaseConfigured) {
+    if (!sessionId || !backend.isConfigured) {
       setLoading(false);
-      if (!isSupabaseConfigured) {
+      if (!backend.isConfigured) {
         setError('Supabase nicht konfiguriert');
       }
       return;
@@ -125,39 +198,31 @@ export function SessionPage() {
     const fetchData = async () => {
       try {
         // Fetch session
-        const { data: sessionData, error: sessionError } = await supabase
-          .from('einstand_sessions_public')
-          .select('*')
-          .eq('id', sessionId)
-          .single();
-
-        if (sessionError) {
-          if (sessionError.code === 'PGRST116') {
-            setError('Session nicht gefunden');
-          } else {
-            throw sessionError;
-          }
-          return;
-        }
+        const { data: sessionData, error: sessionError } = await backend.getSession(sessionId);
 
-        // Type assertion - view data has nullable id but we know it exists after successful fetch
-        if (sessionData?.id) {
-          setSession(sessionData as SessionPublic);
+        if (sessionError) throw sessionError;
+        if (!sessionData) {
+          setError('Session nicht gefunden');
+          return;
         }
-
-        // Fetch entries
-        const { data: entriesData, error: entriesError } = await supabase
-          .from('einstand_entries')
-          .select('*')
-          .eq('session_id', sessionId)
-          .order('created_at', { ascending: true });
-
-        if (entriesError) throw entriesError;
-        setEntries(entriesData || []);
+        setSession(sessionData);
+
+        // Fetch entries with their counts and the item catalog
+        const [entriesResult, itemsResult] = await Promise.all([
+          backend.listEntries(sessionId),
+          backend.listItems(sessionId),
+        ]);
+
+        if (entriesResult.error) throw entriesResult.error;
+        if (itemsResult.error) throw itemsResult.error;
+        const entriesData = entriesResult.data?.entries || [];
+        setEntries(entriesData);
+        setEntryItems(entriesResult.data?.entryItems || []);
+        setItems(itemsResult.data || []);
         
         // Verify localStorage identity still exists in database
         if (myIdentity) {
-          const entryExists = entriesData?.some(e => e.id === myIdentity.entryId);
+          const entryExists = entriesData.some(e => e.id === myIdentity.entryId);
           if (entryExists) {
             setActiveEntryId(myIdentity.entryId);
           } else {
@@ -179,106 +244,136 @@ export function SessionPage() {
     fetchData();
   }, [sessionId, myIdentity, showToast]);
 
+  const hasSession = !!session;
+
+  // Full refetch after the live connection may have missed changes.
+  // Queued clicks aren't touched and stay on top of the fetched counts.
+  const resync = useCallback(async () => {
+    if (!sessionId || !backend.isConfigured || !hasSession) return;
+
+    const [sessionResult, entriesResult, itemsResult] = await Promise.all([
+      backend.getSession(sessionId),
+      backend.listEntries(sessionId),
+      backend.listItems(sessionId),
+    ]);
+
+    const fetchError = sessionResult.error ?? entriesResult.error ?? itemsResult.error;
+    if (fetchError) {
+      console.warn('Resync failed:', fetchError);
+      return;
+    }
+    if (!sessionResult.data) {
+      setError('Der Einstand wurde gelöscht');
+      setSession(null);
+      return;
+    }
+
+    setSession(sessionResult.data);
+    setEntries(entriesResult.data?.entries || []);
+    setEntryItems((prev) => reconcileEntryItems(prev, entriesResult.data?.entryItems || []));
+    setItems(itemsResult.data || []);
+  }, [sessionId, hasSession]);
+
+  const { status: connectionStatus, handleStatusChanged } = useConnectionStatus(resync);
+
   // Realtime subscriptions
   useEffect(() => {
-    if (!sessionId || !isSupabaseConfigured) return;
-
-    // Subscribe to session changes
-    const sessionChannel = supabase
-      .channel(`session:${sessionId}`)
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'einstand_sessions',
-          filter: `id=eq.${sessionId}`,
-        },
-        (payload) => {
-          if (payload.eventType === 'UPDATE') {
-            // Re-fetch session to get public view (without admin_secret)
-            supabase
-              .from('einstand_sessions_public')
-              .select('*')
-              .eq('id', sessionId)
-              .single()
-              .then(({ data }) => {
-                if (data?.id) {
-                  setSession(data as SessionPublic);
-                  if (data.status === 'CLOSED') {
-                    showToast('Der Einstand wurde geschlossen', 'info');
-                  }
-                }
-              });
-          } else if (payload.eventType === 'DELETE') {
-            setError('Der Einstand wurde gelöscht');
-            setSession(null);
-          }
+    if (!sessionId || !backend.isConfigured) return;
+
+    return backend.subscribe(sessionId, {
+      onStatusChanged: handleStatusChanged,
+      onSessionChanged: (changed) => {
+        if (changed.deleted) {
+          setError('Der Einstand wurde gelöscht');
+          setSession(null);
+          return;
         }
-      )
-      .subscribe();
-
-    // Subscribe to entry changes
-    const entriesChannel = supabase
-      .channel(`entries:${sessionId}`)
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'einstand_entries',
-          filter: `session_id=eq.${sessionId}`,
-        },
-        (payload) => {
-          if (payload.eventType === 'INSERT') {
-            const newEntry = payload.new as Entry;
-            setEntries((prev) => [...prev, newEntry]);
-          } else if (payload.eventType === 'UPDATE') {
-            const updated = payload.new as Entry;
-            setEntries((prev) =>
-              prev.map((e) => (e.id === updated.id ? updated : e))
-            );
-          } else if (payload.eventType === 'DELETE') {
-            const deleted = payload.old as Entry;
-            setEntries((prev) => prev.filter((e) => e.id !== deleted.id));
-          }
+        setSession({
+          id: changed.id,
+          title: changed.title,
+          mode: changed.mode,
+          status: changed.status,
+          created_at: changed.created_at,
+        });
+        if (changed.status === 'CLOSED' && changed.previous_status === 'OPEN') {
+          showToast('Der Einstand wurde geschlossen', 'info');
         }
-      )
-      .subscribe();
+        // The item catalog may have been edited as well (update_session)
+        backend.listItems(sessionId).then(({ data }) => {
+          if (data) setItems(data);
+        });
+      },
+      onEntryInserted: (newEntry) => setEntries((prev) => [...prev, newEntry]),
+      onEntryUpdated: (updated) => {
+        setEntries((prev) =>
+          prev.map((e) => (e.id === updated.id ? updated : e))
+        );
+      },
+      onEntryDeleted: (entryId) => {
+        setEntries((prev) => prev.filter((e) => e.id !== entryId));
+        setEntryItems((prev) => prev.filter((r) => r.entry_id !== entryId));
+      },
+      onEntryItemChanged: (row) => setEntryItems((prev) => mergeEntryItem(prev, row)),
+      onClaimRequested: () => setClaimVersion((v) => v + 1),
+      onClaimResolved: () => setClaimVersion((v) => v + 1),
+      onIdentityMoved: () => setIdentityVersion((v) => v + 1),
+    });
+  }, [sessionId, showToast, handleStatusChanged]);
+
+  // Presence: this tab shows up as the own entry once joined, anonymous before
+  const presenceEntryId = myIdentity?.entryId ?? null;
+  const presenceName = myIdentity?.displayName ?? null;
 
-    return () => {
-      sessionChannel.unsubscribe();
-      entriesChannel.unsubscribe();
-    };
-  }, [sessionId, showToast]);
+  useEffect(() => {
+    if (!sessionId || !backend.isConfigured || !hasSession) return;
+
+    return backend.joinPresence(
+      sessionId,
+      { entryId: presenceEntryId, displayName: presenceName },
+      setViewers
+    );
+  }, [sessionId, hasSession, presenceEntryId, presenceName]);
+
+  const onlineEntryIds = useMemo(() => new Set(viewers.map((v) => v.entryId)), [viewers]);
+  const isOnline = useCallback((entryId: string) => onlineEntryIds.has(entryId), [onlineEntryIds]);
+
+  // Existing entry with the name typed into the join form
+  const conflictingEntry = useMemo(() => {
+    const name = normalizeName(inputName);
+    return name ? entries.find((e) => normalizeName(e.display_name) === name) ?? null : null;
+  }, [entries, inputName]);
 
   // Join session (create entry) with retry logic
   const handleJoin = useCallback(async () => {
     const sanitizedName = inputName.trim().slice(0, MAX_NAME_LENGTH);
-    if (!sessionId || !sanitizedName || isJoining) return;
+    // A taken name is offered as "Das bin ich" instead
+    if (!sessionId || !sanitizedName || isJoining || conflictingEntry) return;
     
     setIsJoining(true);
     try {
-      const entry: EntryInsert = {
-        session_id: sessionId,
-        display_name: sanitizedName,
-        wurst_count: 0,
-        pretzel_count: 0,
-      };
+      const editToken = crypto.randomUUID().replace(/-/g, '');
 
       // Retry critical join operation up to 3 times
       const data = await retryOperation(async () => {
-        const { data, error } = await supabase
-          .from('einstand_entries')
-          .insert(entry)
-          .select()
-          .single();
-
+        const { data, error } = await backend.join({
+          p_session_id: sessionId,
+          p_display_name: sanitizedName,
+          p_edit_token: editToken,
+        });
+
+        // Someone else took the name in the meantime - a retry of our own
+        // join gets its entry back instead (same edit token)
+        if (error?.code === '23505') return null;
         if (error) throw error;
         if (!data) throw new Error('Keine Daten zurückbekommen');
         return data;
       });
 
+      if (!data) {
+        showToast(`„${sanitizedName}“ ist schon vergeben`, 'warning');
+        return;
+      }
+
       // Verify entry was actually created by checking if it appears in entries state
       // Wait briefly for realtime to sync
       await new Promise(resolve => setTimeout(resolve, 500));
@@ -286,6 +381,7 @@ export function SessionPage() {
       const identity: ParticipantIdentity = {
         entryId: data.id,
         displayName: data.display_name,
+        editToken,
       };
 
       localStorage.setItem(getParticipantKey(sessionId), JSON.stringify(identity));
@@ -298,133 +394,316 @@ export function SessionPage() {
     } catch (err) {
       console.error('Error joining:', err);
       const errorMsg = err instanceof Error ? err.message : 'Unbekannter Fehler';
-      showToast(`Fehler beim Beitreten: ${errorMsg}. Bitte erneut versuchen.`, 'error');
+      showToast(getDbErrorMessage(err, `Fehler beim Beitreten: ${errorMsg}. Bitte erneut versuchen.`), 'error');
     } finally {
       setIsJoining(false);
     }
-  }, [sessionId, inputName, showToast]);
+  }, [sessionId, inputName, isJoining, conflictingEntry, showToast]);
 
-  // Increment wurst with optimistic update + rollback
-  const handleDipComplete = useCallback(async () => {
-    if (!activeEntryId) {
-      console.warn('handleDipComplete: No activeEntryId');
-      showToast('Fehler: Kein Teilnehmer ausgewählt', 'error');
-      return;
+  // "Das bin ich": ask the entry's other device or the admin to let this device in
+  const handleClaim = useCallback(async () => {
+    if (!sessionId || !conflictingEntry || isClaiming) return;
+
+    setIsClaiming(true);
+    try {
+      const editToken = crypto.randomUUID().replace(/-/g, '');
+      const { error } = await backend.mutate('request_entry_claim', {
+        p_entry_id: conflictingEntry.id,
+        p_edit_token: editToken,
+      });
+
+      if (error) throw error;
+
+      const claim: ParticipantIdentity = {
+        entryId: conflictingEntry.id,
+        displayName: conflictingEntry.display_name,
+        editToken,
+      };
+      localStorage.setItem(getClaimKey(sessionId), JSON.stringify(claim));
+      setPendingClaim(claim);
+      setInputName('');
+      showToast('Anfrage gesendet - bitte auf dem anderen Gerät bestätigen', 'info');
+    } catch (err) {
+      console.error('Error requesting claim:', err);
+      showToast(getDbErrorMessage(err, 'Fehler beim Senden der Anfrage'), 'error');
+    } finally {
+      setIsClaiming(false);
     }
+  }, [sessionId, conflictingEntry, isClaiming, showToast]);
+
+  const handleCancelClaim = useCallback(() => {
+    if (!sessionId) return;
+    localStorage.removeItem(getClaimKey(sessionId));
+    setPendingClaim(null);
+  }, [sessionId]);
+
+  // Check a pending claim on load and whenever a claim was resolved
+  useEffect(() => {
+    if (!sessionId || !pendingClaim || !backend.isConfigured) return;
+
+    backend
+      .mutate('get_claim_status', {
+        p_entry_id: pendingClaim.entryId,
+        p_edit_token: pendingClaim.editToken,
+      })
+      .then(({ data, error }) => {
+        if (error || data === 'PENDING') return;
+
+        localStorage.removeItem(getClaimKey(sessionId));
+        setPendingClaim(null);
+
+        if (data === 'CLAIMED') {
+          localStorage.setItem(getParticipantKey(sessionId), JSON.stringify(pendingClaim));
+          setMyIdentity(pendingClaim);
+          setActiveEntryId(pendingClaim.entryId);
+          showToast(`Willkommen zurück, ${pendingClaim.displayName}!`, 'success');
+        } else {
+          showToast('Deine Anfrage wurde abgelehnt', 'warning');
+        }
+      });
+  }, [sessionId, pendingClaim, claimVersion, showToast]);
 
-    // Request deduplication - prevent concurrent updates
-    const operationKey = `wurst-${activeEntryId}`;
-    if (pendingOperations.has(operationKey)) {
-      console.warn('handleDipComplete: Operation already in progress');
+  // Claims for the own entry from other devices
+  useEffect(() => {
+    if (!sessionId || !myIdentity || !backend.isConfigured) {
+      setClaimRequests([]);
       return;
     }
-    
-    const entry = entries.find((e) => e.id === activeEntryId);
-    if (!entry) {
-      console.error('handleDipComplete: Entry not found', { activeEntryId, entries });
-      showToast('Fehler: Teilnehmer nicht gefunden. Bitte Seite neu laden.', 'error');
+
+    backend
+      .mutate('get_claim_requests', {
+        p_session_id: sessionId,
+        p_edit_token: myIdentity.editToken,
+      })
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error fetching claim requests:', error);
+          return;
+        }
+        setClaimRequests(data || []);
+      });
+  }, [sessionId, myIdentity, claimVersion]);
+
+  const handleResolveClaim = useCallback(async (requestId: string, approve: boolean) => {
+    if (!myIdentity) return;
+
+    setResolvingClaimId(requestId);
+    const { data, error } = await backend.mutate('resolve_claim_request', {
+      p_request_id: requestId,
+      p_approve: approve,
+      p_edit_token: myIdentity.editToken,
+    });
+    setResolvingClaimId(null);
+
+    if (error || !data) {
+      showToast('Fehler beim Bearbeiten der Anfrage', 'error');
       return;
     }
+    setClaimRequests((prev) => prev.filter((r) => r.id !== requestId));
+    showToast(approve ? 'Anderes Gerät bestätigt' : 'Anfrage abgelehnt', 'success');
+  }, [myIdentity, showToast]);
+
+  // One-time code for moving the own entry to another device
+  const handleCreateTransfer = useCallback(async (entryId: string): Promise<TransferCode | null> => {
+    if (!sessionId || !myIdentity || entryId !== myIdentity.entryId) return null;
+
+    const { data, error } = await backend.mutate('create_claim_code', {
+      p_entry_id: entryId,
+      p_edit_token: myIdentity.editToken,
+    });
+
+    if (error || !data) {
+      console.error('Error creating claim code:', error);
+      showToast('Fehler beim Erstellen des Codes', 'error');
+      return null;
+    }
+    return { code: data, url: `${window.location.origin}/s/${sessionId}?claim=${data}` };
+  }, [sessionId, myIdentity, showToast]);
 
-    // Mark operation as pending
-    setPendingOperations(prev => new Set(prev).add(operationKey));
-
-    // Optimistic update
-    const newCount = entry.wurst_count + 1;
-    setEntries(prev => prev.map(e => 
-      e.id === activeEntryId ? { ...e, wurst_count: newCount } : e
-    ));
+  // Take over an entry from another device
+  const handleRedeemCode = useCallback(async (code: string) => {
+    if (!sessionId || !code.trim()) return;
 
+    setIsRedeeming(true);
     try {
-      // Persist to database with retry
-      await retryOperation(async () => {
-        const { error } = await supabase
-          .from('einstand_entries')
-          .update({ wurst_count: newCount })
-          .eq('id', activeEntryId);
-
-        if (error) throw error;
+      const editToken = crypto.randomUUID().replace(/-/g, '');
+      const { data, error } = await backend.mutate('redeem_claim_code', {
+        p_session_id: sessionId,
+        p_code: code.trim(),
+        p_edit_token: editToken,
       });
 
-      showToast(`+1 Wurst für ${entry.display_name}`, 'success');
-    } catch (error) {
-      console.error('handleDipComplete: Update failed', error);
-      // Rollback optimistic update
-      setEntries(prev => prev.map(e => 
-        e.id === activeEntryId ? { ...e, wurst_count: entry.wurst_count } : e
-      ));
-      const errorMsg = error instanceof Error ? error.message : 'Unbekannter Fehler';
-      showToast(`Fehler beim Speichern: ${errorMsg}`, 'error');
+      if (error) throw error;
+      if (!data) throw new Error('Keine Daten zurückbekommen');
+
+      const identity: ParticipantIdentity = {
+        entryId: data.id,
+        displayName: data.display_name,
+        editToken,
+      };
+      localStorage.setItem(getParticipantKey(sessionId), JSON.stringify(identity));
+      localStorage.removeItem(getClaimKey(sessionId));
+      setPendingClaim(null);
+      setMyIdentity(identity);
+      setActiveEntryId(data.id);
+      setShowCodeInput(false);
+      setCodeInput('');
+      showToast(`Willkommen zurück, ${data.display_name}!`, 'success');
+    } catch (err) {
+      console.error('Error redeeming claim code:', err);
+      showToast('Code ungültig oder abgelaufen', 'error');
     } finally {
-      // Clear pending operation
-      setPendingOperations(prev => {
-        const next = new Set(prev);
-        next.delete(operationKey);
-        return next;
+      setIsRedeeming(false);
+    }
+  }, [sessionId, showToast]);
+
+  // Redeem a code from a scanned QR link once, then drop it from the URL
+  useEffect(() => {
+    if (!claimCodeParam || redeemedCodeRef.current === claimCodeParam) return;
+    redeemedCodeRef.current = claimCodeParam;
+    setSearchParams({}, { replace: true });
+    if (!myIdentity) handleRedeemCode(claimCodeParam);
+  }, [claimCodeParam, myIdentity, handleRedeemCode, setSearchParams]);
+
+  // The own entry was moved to another device: this one may no longer write
+  useEffect(() => {
+    if (!sessionId || !myIdentity || identityVersion === 0) return;
+
+    backend
+      .mutate('get_claim_status', {
+        p_entry_id: myIdentity.entryId,
+        p_edit_token: myIdentity.editToken,
+      })
+      .then(({ data, error }) => {
+        if (error || data === 'CLAIMED') return;
+        localStorage.removeItem(getParticipantKey(sessionId));
+        setMyIdentity(null);
+        setActiveEntryId(null);
+        showToast('Dein Eintrag ist jetzt auf einem anderen Gerät', 'info');
       });
+  }, [sessionId, myIdentity, identityVersion, showToast]);
+
+  // Who is acting on this device - the token authorizes the write, the rest goes to the audit log
+  const actor = useMemo(() => ({
+    p_edit_token: myIdentity?.editToken ?? null,
+    p_actor: myIdentity?.displayName ?? null,
+    p_actor_entry_id: myIdentity?.entryId ?? null,
+  }), [myIdentity]);
+
+  // Only the own entry can be changed from this page
+  const canEdit = useCallback((entryId: string) => entryId === myIdentity?.entryId, [myIdentity]);
+
+  // Item catalog in display order
+  const catalog = useMemo(() => items.map(toCatalogItem), [items]);
+  const wurstItem = catalog.find((item) => item.kind === 'wurst');
+  const pretzelItem = catalog.find((item) => item.kind === 'pretzel');
+
+  // What everyone else is doing, from the live changes
+  const activities = useActivityFeed(entries, entryItems, catalog, !loading && hasSession);
+
+  // Dips and Brezeln of the others, played as ghosts in the scene
+  const remoteAnimations = useRemoteAnimations(sessionId, !loading && hasSession);
+  const sendAnimation = remoteAnimations.send;
+
+  // Counter clicks go through a persistent queue, so they survive bad Wi-Fi and reloads
+  const { queue: pendingClicks, enqueue } = useWriteQueue(sessionId, {
+    onApplied: (op, row, replayed) => {
+      // Server row is authoritative (includes clicks from other devices)
+      setEntryItems((prev) => mergeEntryItem(prev, row));
+      const item = catalog.find((i) => i.id === op.itemId);
+      const entry = entries.find((e) => e.id === op.entryId);
+      if (op.delta > 0 && !replayed && item && entry) {
+        showToast(`+1 ${item.name} für ${entry.display_name}`, 'success');
+      }
+    },
+    onRejected: (_op, error) => {
+      console.error('increment_entry failed', error);
+      showToast(getDbErrorMessage(error, `Fehler beim Speichern: ${error.message}`), 'error');
+    },
+    onStalled: () => {
+      showToast('Keine Verbindung - deine Klicks werden gespeichert und nachgereicht', 'warning');
+    },
+    onReplayed: (count) => {
+      showToast(count === 1 ? '1 Klick nachgereicht' : `${count} Klicks nachgereicht`, 'success');
+    },
+  });
+
+  // Queued deltas per entry and item, shown on top of the server counts
+  const pendingDeltas = useMemo(() => {
+    const deltas = new Map<string, number>();
+    for (const op of pendingClicks) {
+      const key = `${op.entryId}:${op.itemId}`;
+      deltas.set(key, (deltas.get(key) ?? 0) + op.delta);
+    }
+    return deltas;
+  }, [pendingClicks]);
+
+  const getPendingCount = useCallback(
+    (entryId: string) => pendingClicks.filter((op) => op.entryId === entryId).length,
+    [pendingClicks]
+  );
+
+  const getCount = useCallback((entryId: string, itemId: string) => {
+    const count = entryItems.find((r) => r.entry_id === entryId && r.item_id === itemId)?.count ?? 0;
+    return Math.max(0, count + (pendingDeltas.get(`${entryId}:${itemId}`) ?? 0));
+  }, [entryItems, pendingDeltas]);
+
+  const enqueueClick = useCallback((entryId: string, itemId: string, delta: number) => {
+    enqueue({
+      entryId,
+      itemId,
+      delta,
+      editToken: actor.p_edit_token,
+      actor: actor.p_actor,
+      actorEntryId: actor.p_actor_entry_id,
+    });
+  }, [actor, enqueue]);
+
+  // Increment item - shown right away, sent through the queue
+  const handleIncrement = useCallback((entryId: string, itemId: string) => {
+    const item = catalog.find((i) => i.id === itemId);
+    if (!sessionId || !item) return;
+
+    const entry = entries.find((e) => e.id === entryId);
+    if (!entry) {
+      console.error('handleIncrement: Entry not found', { entryId, entries });
+      showToast('Fehler: Teilnehmer nicht gefunden. Bitte Seite neu laden.', 'error');
+      return;
     }
-  }, [activeEntryId, entries, showToast, pendingOperations]);
 
-  // Increment pretzel with optimistic update + rollback
-  const handleBrezelComplete = useCallback(async () => {
+    enqueueClick(entryId, itemId, 1);
+  }, [sessionId, catalog, entries, enqueueClick, showToast]);
+
+  // Scene callbacks - Wurst dip and Brezel click count the scene-bound items
+  const handleDipComplete = useCallback(() => {
     if (!activeEntryId) {
-      console.warn('handleBrezelComplete: No activeEntryId');
+      console.warn('handleDipComplete: No activeEntryId');
       showToast('Fehler: Kein Teilnehmer ausgewählt', 'error');
       return;
     }
-
-    // Request deduplication - prevent concurrent updates
-    const operationKey = `brezel-${activeEntryId}`;
-    if (pendingOperations.has(operationKey)) {
-      console.warn('handleBrezelComplete: Operation already in progress');
+    if (!wurstItem) {
+      showToast('In diesem Einstand gibt es keine Weißwürste', 'warning');
       return;
     }
-    
+    handleIncrement(activeEntryId, wurstItem.id);
     const entry = entries.find((e) => e.id === activeEntryId);
-    if (!entry) {
-      console.error('handleBrezelComplete: Entry not found', { activeEntryId, entries });
-      showToast('Fehler: Teilnehmer nicht gefunden. Bitte Seite neu laden.', 'error');
+    if (entry && canEdit(entry.id)) sendAnimation({ kind: 'dip', displayName: entry.display_name });
+  }, [activeEntryId, wurstItem, entries, canEdit, handleIncrement, sendAnimation, showToast]);
+
+  const handleBrezelComplete = useCallback(() => {
+    if (!activeEntryId) {
+      console.warn('handleBrezelComplete: No activeEntryId');
+      showToast('Fehler: Kein Teilnehmer ausgewählt', 'error');
       return;
     }
-
-    // Mark operation as pending
-    setPendingOperations(prev => new Set(prev).add(operationKey));
-
-    // Optimistic update
-    const newCount = entry.pretzel_count + 1;
-    setEntries(prev => prev.map(e => 
-      e.id === activeEntryId ? { ...e, pretzel_count: newCount } : e
-    ));
-
-    try {
-      // Persist to database with retry
-      await retryOperation(async () => {
-        const { error } = await supabase
-          .from('einstand_entries')
-          .update({ pretzel_count: newCount })
-          .eq('id', activeEntryId);
-
-        if (error) throw error;
-      });
-
-      showToast(`+1 Brezel für ${entry.display_name}`, 'success');
-    } catch (error) {
-      console.error('handleBrezelComplete: Update failed', error);
-      // Rollback optimistic update
-      setEntries(prev => prev.map(e => 
-        e.id === activeEntryId ? { ...e, pretzel_count: entry.pretzel_count } : e
-      ));
-      const errorMsg = error instanceof Error ? error.message : 'Unbekannter Fehler';
-      showToast(`Fehler beim Speichern: ${errorMsg}`, 'error');
-    } finally {
-      // Clear pending operation
-      setPendingOperations(prev => {
-        const next = new Set(prev);
-        next.delete(operationKey);
-        return next;
-      });
+    if (!pretzelItem) {
+      showToast('In diesem Einstand gibt es keine Brezeln', 'warning');
+      return;
     }
-  }, [activeEntryId, entries, showToast, pendingOperations]);
+    handleIncrement(activeEntryId, pretzelItem.id);
+    const entry = entries.find((e) => e.id === activeEntryId);
+    if (entry && canEdit(entry.id)) sendAnimation({ kind: 'brezel', displayName: entry.display_name });
+  }, [activeEntryId, pretzelItem, entries, canEdit, handleIncrement, sendAnimation, showToast]);
 
   const handleNoSelection = useCallback(() => {
     showToast('Erst einen Namen auswählen!', 'warning');
@@ -439,10 +718,10 @@ export function SessionPage() {
     const entry = entries.find((e) => e.id === entryId);
     if (!entry) return;
 
-    const { error } = await supabase
-      .from('einstand_entries')
-      .delete()
-      .eq('id', entryId);
+    const { error } = await backend.mutate('delete_entry', {
+      p_entry_id: entryId,
+      ...actor,
+    });
 
     if (error) {
       showToast('Fehler beim Löschen: ' + error.message, 'error');
@@ -460,70 +739,83 @@ export function SessionPage() {
         setMyIdentity(null);
       }
     }
-  }, [entries, activeEntryId, myIdentity, sessionId, showToast]);
-
-  // Decrement wurst
-  const handleDecrementWurst = useCallback(async (entryId: string) => {
-    const entry = entries.find((e) => e.id === entryId);
-    if (!entry || entry.wurst_count <= 0) return;
-
-    const newCount = entry.wurst_count - 1;
-    const { error } = await supabase
-      .from('einstand_entries')
-      .update({ wurst_count: newCount })
-      .eq('id', entryId);
-
-    if (error) {
-      showToast('Fehler: ' + error.message, 'error');
+  }, [entries, activeEntryId, myIdentity, sessionId, actor, showToast]);
+
+  // Rename entry
+  const handleRenameEntry = useCallback(async (entryId: string, name: string) => {
+    const sanitizedName = name.trim().slice(0, MAX_NAME_LENGTH);
+    if (!sanitizedName) return;
+
+    const { data, error } = await backend.mutate('rename_entry', {
+      p_entry_id: entryId,
+      p_display_name: sanitizedName,
+      ...actor,
+    });
+
+    if (error?.code === '23505') {
+      showToast(`„${sanitizedName}“ ist schon vergeben`, 'warning');
+    } else if (error) {
+      showToast(getDbErrorMessage(error, 'Fehler beim Umbenennen: ' + error.message), 'error');
+    } else if (data) {
+      setEntries((prev) => prev.map((e) => (e.id === data.id ? data : e)));
+      // Keep own identity in sync
+      if (sessionId && myIdentity?.entryId === data.id) {
+        const identity: ParticipantIdentity = { ...myIdentity, displayName: data.display_name };
+        localStorage.setItem(getParticipantKey(sessionId), JSON.stringify(identity));
+        setMyIdentity(identity);
+      }
     }
-  }, [entries, showToast]);
-
-  // Decrement brezel
-  const handleDecrementBrezel = useCallback(async (entryId: string) => {
-    const entry = entries.find((e) => e.id === entryId);
-    if (!entry || entry.pretzel_count <= 0) return;
-
-    const newCount = entry.pretzel_count - 1;
-    const { error } = await supabase
-      .from('einstand_entries')
-      .update({ pretzel_count: newCount })
-      .eq('id', entryId);
+  }, [sessionId, myIdentity, actor, showToast]);
 
-    if (error) {
-      showToast('Fehler: ' + error.message, 'error');
-    }
-  }, [entries, showToast]);
+  // Decrement item (clamped at zero server-side)
+  const handleDecrement = useCallback((entryId: string, itemId: string) => {
+    if (getCount(entryId, itemId) <= 0) return;
+    enqueueClick(entryId, itemId, -1);
+  }, [getCount, enqueueClick]);
 
   // Reset counts
   const handleReset = useCallback(async (entryId: string) => {
     const entry = entries.find((e) => e.id === entryId);
     if (!entry) return;
 
-    const { error } = await supabase
-      .from('einstand_entries')
-      .update({ wurst_count: 0, pretzel_count: 0 })
-      .eq('id', entryId);
+    const { error } = await backend.mutate('reset_entry', {
+      p_entry_id: entryId,
+      ...actor,
+    });
 
     if (error) {
       showToast('Fehler: ' + error.message, 'error');
     } else {
       showToast(`${entry.display_name} zurückgesetzt`, 'success');
     }
-  }, [entries, showToast]);
-
-  // Active entry for scene
-  const activeEntry = entries.find((e) => e.id === activeEntryId);
+  }, [entries, actor, showToast]);
 
   // Convert entries to colleagues format for Summary component
-  const colleagues = useMemo(() => 
-    entries.map(entry => ({
-      id: entry.id,
-      name: entry.display_name,
-      count: entry.wurst_count,
-      brezelCount: entry.pretzel_count,
-    })),
-    [entries]
-  );
+  const colleagues = useMemo<Colleague[]>(() => {
+    const countsByEntry = new Map<string, Record<string, number>>();
+    for (const row of entryItems) {
+      const counts = countsByEntry.get(row.entry_id) ?? {};
+      counts[row.item_id] = row.count;
+      countsByEntry.set(row.entry_id, counts);
+    }
+    return entries.map(entry => {
+      const counts = countsByEntry.get(entry.id) ?? {};
+      const itemCounts = Object.fromEntries(catalog.map((item) => [
+        item.id,
+        Math.max(0, (counts[item.id] ?? 0) + (pendingDeltas.get(`${entry.id}:${item.id}`) ?? 0)),
+      ]));
+      return {
+        id: entry.id,
+        name: entry.display_name,
+        count: wurstItem ? itemCounts[wurstItem.id] : 0,
+        brezelCount: pretzelItem ? itemCounts[pretzelItem.id] : 0,
+        itemCounts,
+      };
+    });
+  }, [entries, entryItems, catalog, wurstItem, pretzelItem, pendingDeltas]);
+
+  // Active entry for scene
+  const activeColleague = colleagues.find((c) => c.id === activeEntryId);
 
   // Loading state
   if (loading) {
@@ -569,6 +861,11 @@ export function SessionPage() {
             <div className={styles.titleCenter}>
               <h1 className={styles.title}>{session.title || 'Weißwurst Einstand'}</h1>
             </div>
+
+            <div className={pageStyles.headerStatus}>
+              <ViewerCount viewers={viewers} />
+              <ConnectionIndicator status={connectionStatus} />
+            </div>
           </div>
         </div>
       </header>
@@ -598,13 +895,17 @@ export function SessionPage() {
                 <SceneErrorBoundary>
                   <WurstScene 
                     hasActiveColleague={!!activeEntryId && !isClosed}
-                    activeColleagueName={activeEntry?.display_name}
-                    wurstCount={activeEntry?.wurst_count ?? 0}
-                    brezelCount={activeEntry?.pretzel_count ?? 0}
+                    activeColleagueName={activeColleague?.name}
+                    wurstCount={activeColleague?.count ?? 0}
+                    brezelCount={activeColleague?.brezelCount ?? 0}
                     onDipComplete={isClosed ? () => {} : handleDipComplete}
                     onBrezelComplete={isClosed ? () => {} : handleBrezelComplete}
                     onNoSelection={handleNoSelection}
                     onBeerClick={handleBeerClick}
+                    remoteAnimation={remoteAnimations.current}
+                    onRemoteAnimationComplete={remoteAnimations.finish}
+                    remoteMuted={remoteAnimations.isMuted}
+                    onToggleRemoteMuted={remoteAnimations.toggleMuted}
                   />
                 </SceneErrorBoundary>
               </div>
@@ -614,9 +915,11 @@ export function SessionPage() {
             <Summary 
               colleagues={colleagues}
               mode={session.mode === 'SPLIT' ? 'split' : 'invite'}
-              pricePerWurst={session.price_wurst || 0}
-              pricePerBrezel={session.price_pretzel || DEFAULT_BREZEL_PRICE}
+              items={catalog}
             />
+
+            {/* Activity Feed */}
+            <ActivityFeed activities={activities} />
           </div>
 
           {/* Right Column */}
@@ -642,12 +945,76 @@ export function SessionPage() {
               
               {!isCollapsed && (
               <div className={styles.colleagueList}>
+                <ClaimRequests
+                  requests={claimRequests}
+                  busyId={resolvingClaimId}
+                  onResolve={handleResolveClaim}
+                />
+                {!isClosed && !myIdentity && pendingClaim && (
+                  <div className={pageStyles.claimNotice}>
+                    <span>
+                      Warte auf Bestätigung für <strong>{pendingClaim.displayName}</strong> -
+                      von deinem anderen Gerät oder vom Organisator.
+                    </span>
+                    <button type="button" onClick={handleCancelClaim} className={pageStyles.claimSecondaryButton}>
+                      Abbrechen
+                    </button>
+                  </div>
+                )}
+                {!myIdentity && !pendingClaim && (showCodeInput ? (
+                  <div className={pageStyles.claimNotice}>
+                    <input
+                      type="text"
+                      value={codeInput}
+                      onChange={(e) => setCodeInput(e.target.value.slice(0, 12))}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') handleRedeemCode(codeInput);
+                      }}
+                      placeholder="Code, z.B. ABCD-EFGH"
+                      autoComplete="off"
+                      autoCapitalize="characters"
+                      className={pageStyles.joinInput}
+                      aria-label="Code vom anderen Gerät"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => handleRedeemCode(codeInput)}
+                      disabled={isRedeeming || !codeInput.trim()}
+                      className={pageStyles.joinButton}
+                    >
+                      {isRedeeming ? '...' : 'Übernehmen'}
+                    </button>
+                  </div>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => setShowCodeInput(true)}
+                    className={pageStyles.codeLink}
+                  >
+                    Schon auf einem anderen Gerät dabei? Code eingeben
+                  </button>
+                ))}
+                {!isClosed && !myIdentity && !pendingClaim && conflictingEntry && (
+                  <div className={pageStyles.claimNotice}>
+                    <span>
+                      <strong>{conflictingEntry.display_name}</strong> ist schon dabei.
+                      Du auf einem anderen Gerät? Sonst wähle einen anderen Namen.
+                    </span>
+                    <button
+                      type="button"
+                      onClick={handleClaim}
+                      disabled={isClaiming}
+                      className={pageStyles.joinButton}
+                    >
+                      {isClaiming ? '...' : 'Das bin ich'}
+                    </button>
+                  </div>
+                )}
                 <ColleagueList 
                   colleagues={colleagues}
                   activeColleagueId={activeEntryId}
                   mode={session.mode === 'SPLIT' ? 'split' : 'invite'}
-                  pricePerWurst={session.price_wurst || 0}
-                  pricePerBrezel={session.price_pretzel || DEFAULT_BREZEL_PRICE}
+                  items={catalog}
                   sortMode="alphabetical"
                   onColleaguesChange={(updatedColleagues) => {
                     // Detect deletion by comparing lengths
@@ -658,15 +1025,27 @@ export function SessionPage() {
                       if (deletedColleague) {
                         handleDeleteEntry(deletedColleague.id);
                       }
+                      return;
+                    }
+                    // Detect rename
+                    const renamedColleague = updatedColleagues.find(
+                      u => colleagues.find(c => c.id === u.id && c.name !== u.name)
+                    );
+                    if (renamedColleague) {
+                      handleRenameEntry(renamedColleague.id, renamedColleague.name);
                     }
                   }}
                   onActiveChange={(id) => !isClosed && setActiveEntryId(id)}
                   onSortModeChange={() => {}}
                   readOnly={false}
+                  canEdit={canEdit}
                   highlightId={myIdentity?.entryId}
+                  onTransfer={handleCreateTransfer}
                   showJoinForm={!isClosed}
-                  onDecrementWurst={handleDecrementWurst}
-                  onDecrementBrezel={handleDecrementBrezel}
+                  onIncrement={isClosed ? undefined : handleIncrement}
+                  pendingCount={getPendingCount}
+                  isOnline={isOnline}
+                  onDecrement={handleDecrement}
                   onReset={handleReset}
                   joinFormProps={{
                     inputValue: inputName,
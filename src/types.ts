@@ -3,26 +3,61 @@ export interface Colleague {
   name: string;
   count: number;
   brezelCount: number;
+  /** Counts per catalog item id (shared sessions). Offline colleagues only use count/brezelCount. */
+  itemCounts?: Record<string, number>;
+}
+
+/**
+ * Wurst and Brezel items are bound to the 3D scene,
+ * extras (Obazda, Radi, Weißbier, ...) are counted via buttons.
+ */
+export type ItemKind = 'wurst' | 'pretzel' | 'extra';
+
+export interface CatalogItem {
+  id: string;
+  name: string;
+  emoji: string;
+  unit: string;
+  price: number;
+  kind: ItemKind;
 }
 
 export type AppMode = 'invite' | 'split';
 
 export type SortMode = 'alphabetical' | 'count';
 
-export interface AppState {
+/** One local Einstand in offline mode */
+export interface OfflineEvent {
+  id: string;
+  name: string;
+  createdAt: string;
+  archived: boolean;
   colleagues: Colleague[];
   activeColleagueId: string | null;
   mode: AppMode;
   pricePerWurst: number;
   pricePerBrezel: number;
+}
+
+export interface AppState {
+  events: OfflineEvent[];
+  /** Always an existing, not archived event (see ensureActiveEvent) */
+  activeEventId: string | null;
   sortMode: SortMode;
   schemaVersion: number;
 }
 
+export interface ToastAction {
+  label: string;
+  onClick: () => void;
+}
+
 export interface Toast {
   id: string;
   message: string;
   type: 'info' | 'success' | 'error' | 'warning';
+  // e.g. "Rückgängig" after deleting - the toast closes when it's used
+  action?: ToastAction;
 }
 
 export const DEFAULT_PRICE = 2.0;
@@ -30,8 +65,11 @@ export const DEFAULT_BREZEL_PRICE = 1.0;
 
 export const STORAGE_KEY = 'weisswurst-einstand';
 
+// Characters of the stored JSON - changes beyond it are refused
+export const MAX_STORAGE_LENGTH = 500000;
+
 /**
  * Schema version for localStorage migrations.
  * Increment when making breaking changes to AppState.
  */
-export const SCHEMA_VERSION = 1;
+export const SCHEMA_VERSION = 2;
@@ -0,0 +1,20 @@
+import type { AdminRole } from '../lib/database.types';
+
+export type AdminPermission =
+  | 'view'
+  | 'edit_entries'
+  | 'close'
+  | 'settings'
+  | 'delete'
+  | 'manage_links'
+  | 'clone';
+
+/**
+ * Mirrors role_has_permission() in the database. Only used to hide
+ * actions in the UI - the RPCs check the permission themselves.
+ */
+const COHOST_PERMISSIONS: AdminPermission[] = ['view', 'edit_entries', 'close'];
+
+export function hasPermission(role: AdminRole, permission: AdminPermission): boolean {
+  return role === 'OWNER' || COHOST_PERMISSIONS.includes(permission);
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { SCHEMA_VERSION, type AppState, type Colleague } from '../types';
+import { MAX_BACKUP_BYTES, createBackup, mergeImportedState, parseBackup } from './backup';
+import { MAX_EVENTS, createOfflineEvent } from './offlineEvents';
+
+const anna: Colleague = { id: 'anna', name: 'Anna', count: 2, brezelCount: 1 };
+
+function createState(...ids: string[]): AppState {
+  const events = ids.map((id) => createOfflineEvent({ id, name: `Einstand ${id}`, colleagues: [anna] }));
+  return { events, activeEventId: ids[0], sortMode: 'alphabetical', schemaVersion: SCHEMA_VERSION };
+}
+
+describe('parseBackup', () => {
+  it('reads back what createBackup wrote', () => {
+    const state = createState('first', 'second');
+    const backup = createBackup(state);
+
+    expect(backup).not.toContain('\n');
+    expect(parseBackup(backup)).toEqual({ state, error: null });
+  });
+
+  it('migrates a backup from before versioning', () => {
+    const legacy = { colleagues: [{ id: 'anna', name: 'Anna', count: 2 }], pricePerWurst: 2.5 };
+    const { state, error } = parseBackup(JSON.stringify(legacy));
+
+    expect(error).toBeNull();
+    expect(state?.events).toHaveLength(1);
+    expect(state?.events[0].colleagues).toEqual([{ ...anna, brezelCount: 0 }]);
+    expect(state?.events[0].pricePerWurst).toBe(2.5);
+    expect(state?.activeEventId).toBe(state?.events[0].id);
+  });
+
+  it('rejects files from a newer version', () => {
+    const backup = JSON.stringify({ ...createState('first'), schemaVersion: SCHEMA_VERSION + 1 });
+    expect(parseBackup(backup).error).toBe('Die Datei stammt aus einer unbekannten Version');
+  });
+
+  it('rejects anything that is not a complete state', () => {
+    const state = createState('first');
+    const withoutColleagues = { ...state.events[0], colleagues: undefined };
+
+    expect(parseBackup('{"events":').error).toBe('Die Datei ist kein gültiges JSON');
+    expect(parseBackup('[]').error).toBe('Die Datei enthält keine Einstand-Daten');
+    expect(parseBackup(JSON.stringify({ ...state, events: [withoutColleagues] })).error)
+      .toBe('Die Datei ist beschädigt oder unvollständig');
+    expect(parseBackup(JSON.stringify({ ...state, events: [] })).error)
+      .toBe('Die Datei ist beschädigt oder unvollständig');
+  });
+
+  it('keeps only the known fields', () => {
+    const state = createState('first');
+    const backup = JSON.stringify({
+      ...state,
+      events: [{ ...state.events[0], colleagues: [{ ...anna, isAdmin: true }], extra: 'x' }],
+    });
+
+    expect(parseBackup(backup).state).toEqual(state);
+  });
+
+  it('rejects files above the size limit', () => {
+    expect(parseBackup(' '.repeat(MAX_BACKUP_BYTES + 1)).error).toBe('Die Datei ist zu groß');
+  });
+
+  it('rejects a state that would not fit the storage, even if pretty-printed small enough', () => {
+    const colleagues = Array.from({ length: 100 }, (_, index) => ({
+      id: `colleague-${index}-${'x'.repeat(40)}`,
+      name: 'N'.repeat(50),
+      count: 999,
+      brezelCount: 999,
+    }));
+    const events = Array.from({ length: MAX_EVENTS }, (_, index) =>
+      createOfflineEvent({ id: `event-${index}`, colleagues })
+    );
+    const backup = JSON.stringify({ ...createState(), events, activeEventId: 'event-0' });
+
+    expect(backup.length).toBeLessThanOrEqual(MAX_BACKUP_BYTES);
+    expect(parseBackup(backup).error).toBe('Die Datei ist zu groß');
+  });
+});
+
+describe('mergeImportedState', () => {
+  it('adds only the events that are not there yet, the local ones win', () => {
+    const current = createState('first');
+    const imported = createState('first', 'second');
+    imported.events[0] = { ...imported.events[0], name: 'Umbenannt' };
+
+    const { state, added } = mergeImportedState(current, imported);
+    expect(added).toBe(1);
+    expect(state.events.map((e) => [e.id, e.name])).toEqual([
+      ['first', 'Einstand first'],
+      ['second', 'Einstand second'],
+    ]);
+    expect(state.activeEventId).toBe('first');
+  });
+});
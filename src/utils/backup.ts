@@ -0,0 +1,145 @@
+import { MAX_STORAGE_LENGTH, SCHEMA_VERSION, type AppState, type Colleague, type OfflineEvent } from '../types';
+import { migrateData } from './migrations';
+import { MAX_EVENTS, MAX_EVENT_NAME_LENGTH, ensureActiveEvent, isStateTooLarge } from './offlineEvents';
+
+// Security constants. Files may be pretty-printed, so they may be larger -
+// the imported state itself has to fit the storage limit
+export const MAX_BACKUP_BYTES = 4 * MAX_STORAGE_LENGTH;
+const MAX_COLLEAGUES = 100;
+const MAX_NAME_LENGTH = 50;
+const MAX_COUNT = 999;
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface BackupResult {
+  state: AppState | null;
+  error: string | null;
+}
+
+// Compact, like the stored state - so every export can be imported again
+export function createBackup(state: AppState): string {
+  return JSON.stringify({ ...state, schemaVersion: SCHEMA_VERSION, exportedAt: new Date().toISOString() });
+}
+
+export function getBackupFileName(date = new Date()): string {
+  return `weisswurst-backup-${date.toISOString().slice(0, 10)}.json`;
+}
+
+const isString = (value: unknown, maxLength: number) =>
+  typeof value === 'string' && value.length > 0 && value.length <= maxLength;
+const isCount = (value: unknown) => Number.isInteger(value) && (value as number) >= 0 && (value as number) <= MAX_COUNT;
+const isPrice = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 1000;
+
+function isValidColleague(value: unknown): value is Colleague {
+  const colleague = value as Partial<Colleague> | null;
+  return (
+    !!colleague &&
+    isString(colleague.id, 100) &&
+    isString(colleague.name, MAX_NAME_LENGTH) &&
+    isCount(colleague.count) &&
+    isCount(colleague.brezelCount)
+  );
+}
+
+function isValidEvent(value: unknown): value is OfflineEvent {
+  const event = value as Partial<OfflineEvent> | null;
+  return (
+    !!event &&
+    isString(event.id, 100) &&
+    isString(event.name, MAX_EVENT_NAME_LENGTH) &&
+    typeof event.createdAt === 'string' &&
+    !Number.isNaN(Date.parse(event.createdAt)) &&
+    typeof event.archived === 'boolean' &&
+    Array.isArray(event.colleagues) &&
+    event.colleagues.length <= MAX_COLLEAGUES &&
+    event.colleagues.every(isValidColleague) &&
+    (event.activeColleagueId === null || typeof event.activeColleagueId === 'string') &&
+    (event.mode === 'invite' || event.mode === 'split') &&
+    isPrice(event.pricePerWurst) &&
+    isPrice(event.pricePerBrezel)
+  );
+}
+
+/**
+ * Reads an exported backup (or the raw localStorage value): migrates it
+ * to the current schema and checks every field. Only the known fields
+ * are kept.
+ */
+export function parseBackup(text: string): BackupResult {
+  if (text.length > MAX_BACKUP_BYTES) {
+    return { state: null, error: 'Die Datei ist zu groß' };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { state: null, error: 'Die Datei ist kein gültiges JSON' };
+  }
+
+  const data = parsed as Partial<AppState> | null;
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return { state: null, error: 'Die Datei enthält keine Einstand-Daten' };
+  }
+  // No version: data from before versioning (v0), migrated like the rest
+  const version = data.schemaVersion ?? 0;
+  if (typeof version !== 'number' || version > SCHEMA_VERSION) {
+    return { state: null, error: 'Die Datei stammt aus einer unbekannten Version' };
+  }
+
+  let migrated: AppState;
+  try {
+    migrated = migrateData(data, SCHEMA_VERSION);
+  } catch {
+    return { state: null, error: 'Die Datei enthält keine Einstand-Daten' };
+  }
+
+  const { events, activeEventId, sortMode } = migrated;
+  if (
+    !Array.isArray(events) ||
+    events.length === 0 ||
+    events.length > MAX_EVENTS ||
+    !events.every(isValidEvent) ||
+    new Set(events.map((e) => e.id)).size !== events.length ||
+    (sortMode !== 'alphabetical' && sortMode !== 'count')
+  ) {
+    return { state: null, error: 'Die Datei ist beschädigt oder unvollständig' };
+  }
+
+  const state = ensureActiveEvent({
+    events: events.map((event) => ({
+      id: event.id,
+      name: event.name,
+      createdAt: event.createdAt,
+      archived: event.archived,
+      colleagues: event.colleagues.map(({ id, name, count, brezelCount }) => ({ id, name, count, brezelCount })),
+      activeColleagueId: event.colleagues.some((c) => c.id === event.activeColleagueId)
+        ? event.activeColleagueId
+        : null,
+      mode: event.mode,
+      pricePerWurst: event.pricePerWurst,
+      pricePerBrezel: event.pricePerBrezel,
+    })),
+    activeEventId: typeof activeEventId === 'string' ? activeEventId : null,
+    sortMode,
+    schemaVersion: SCHEMA_VERSION,
+  });
+  if (isStateTooLarge(state)) {
+    return { state: null, error: 'Die Datei ist zu groß' };
+  }
+
+  return { state, error: null };
+}
+
+/**
+ * Merge keeps everything local and adds the imported events that aren't
+ * there yet (same id = same event, the local one wins).
+ */
+export function mergeImportedState(current: AppState, imported: AppState): { state: AppState; added: number } {
+  const knownIds = new Set(current.events.map((e) => e.id));
+  const added = imported.events.filter((e) => !knownIds.has(e.id));
+  return {
+    state: { ...current, events: [...current.events, ...added] },
+    added: added.length,
+  };
+}
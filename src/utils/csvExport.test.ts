@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import type { Colleague } from '../types';
+import { createCostsCsv, getCsvFileName, type CostReport } from './csvExport';
+import { getDefaultItems } from './items';
+
+const colleagues: Colleague[] = [
+  { id: 'sepp', name: 'Sepp "Wurst"', count: 0, brezelCount: 2 },
+  { id: 'max', name: 'Müller; Max', count: 3, brezelCount: 1 },
+  { id: 'evil', name: '=HYPERLINK("x")', count: 0, brezelCount: 0 },
+];
+
+function createReport(fields: Partial<CostReport> = {}): CostReport {
+  return {
+    title: 'Einstand Anna',
+    mode: 'split',
+    createdAt: null,
+    items: getDefaultItems(2.5, 1.2),
+    colleagues,
+    ...fields,
+  };
+}
+
+const getLines = (csv: string) => csv.slice(1).split('\r\n');
+
+describe('createCostsCsv', () => {
+  it('starts with the byte order mark and ends every line with CRLF', () => {
+    const csv = createCostsCsv(createReport());
+    expect(csv.startsWith('\uFEFFEinstand;Einstand Anna\r\n')).toBe(true);
+    expect(csv.endsWith('\r\n')).toBe(true);
+    expect(csv.replace(/\r\n/g, '')).not.toMatch(/[\r\n]/);
+  });
+
+  it('separates with semicolons and writes amounts with a decimal comma', () => {
+    const lines = getLines(createCostsCsv(createReport()));
+
+    expect(lines).toContain('Name;Weißwurst (Stück);Brezel (Stück);Betrag (€)');
+    expect(lines).toContain('"Müller; Max";3;1;8,70');
+    expect(lines).toContain('Summe;3;3;11,10');
+    expect(lines).toContain('Preis (€);2,50;1,20');
+  });
+
+  it('quotes names with separators or quotes and defuses formulas', () => {
+    const lines = getLines(createCostsCsv(createReport()));
+
+    expect(lines).toContain('"Sepp ""Wurst""";0;2;2,40');
+    expect(lines).toContain(`"'=HYPERLINK(""x"")";0;0;0,00`);
+  });
+
+  it('leaves out the amounts when the host pays', () => {
+    const lines = getLines(createCostsCsv(createReport({ mode: 'invite' })));
+
+    expect(lines).toContain('Modus;Ich lade ein');
+    expect(lines).toContain('"Müller; Max";3;1');
+    expect(lines).toContain('Name;Weißwurst (Stück);Brezel (Stück)');
+    expect(lines.some((line) => line.startsWith('Gesamtkosten'))).toBe(false);
+  });
+});
+
+describe('getCsvFileName', () => {
+  it('turns the title into a file name', () => {
+    const date = new Date('2026-03-01T12:00:00Z');
+    expect(getCsvFileName('Weißwurst-Frühstück!', date)).toBe('weisswurst-fruehstueck-2026-03-01.csv');
+    expect(getCsvFileName('???', date)).toBe('einstand-2026-03-01.csv');
+  });
+});
@@ -0,0 +1,93 @@
+import type { AppMode, CatalogItem, Colleague } from '../types';
+import { getColleagueCost, getItemCount, getItemTotal, getMustardEstimate } from './items';
+
+/**
+ * Everything the spreadsheet shows of one Einstand (shared or offline)
+ */
+export interface CostReport {
+  title: string;
+  mode: AppMode;
+  createdAt: string | null;
+  // Shared sessions only ('Offen' / 'Geschlossen')
+  status?: string;
+  items: CatalogItem[];
+  colleagues: Colleague[];
+}
+
+// Excel only detects UTF-8 with the byte order mark
+const BOM = '\uFEFF';
+const SEPARATOR = ';';
+
+const formatDecimal = (value: number) =>
+  value.toLocaleString('de-DE', { minimumFractionDigits: 2, maximumFractionDigits: 2, useGrouping: false });
+
+/**
+ * Quotes fields with separators, quotes or line breaks, and defuses
+ * names that a spreadsheet would run as a formula (=, +, -, @).
+ */
+function escapeField(value: string | number): string {
+  let field = String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(field)) field = `'${field}`;
+  return /[;"\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+}
+
+const toLine = (fields: (string | number)[]) => fields.map(escapeField).join(SEPARATOR);
+
+/**
+ * Participants with their counts (and amounts when costs are split),
+ * totals, the mustard estimate and the metadata, as CSV that Excel
+ * opens correctly in German settings.
+ */
+export function createCostsCsv(report: CostReport, exportedAt = new Date()): string {
+  const { title, mode, createdAt, status, items, colleagues } = report;
+  const isSplit = mode === 'split';
+  const totalWurst = items
+    .filter((item) => item.kind === 'wurst')
+    .reduce((sum, item) => sum + getItemTotal(colleagues, item), 0);
+  const mustard = getMustardEstimate(totalWurst);
+  const itemsCost = colleagues.reduce((sum, c) => sum + getColleagueCost(c, items), 0);
+
+  const lines: (string | number)[][] = [
+    ['Einstand', title],
+    ...(createdAt ? [['Erstellt am', new Date(createdAt).toLocaleDateString('de-DE')]] : []),
+    ...(status ? [['Status', status]] : []),
+    ['Modus', isSplit ? 'Kosten teilen' : 'Ich lade ein'],
+    ['Exportiert am', exportedAt.toLocaleString('de-DE')],
+    [],
+    ['Name', ...items.map((item) => `${item.name} (${item.unit})`), ...(isSplit ? ['Betrag (€)'] : [])],
+    ...[...colleagues]
+      .sort((a, b) => a.name.localeCompare(b.name, 'de'))
+      .map((colleague) => [
+        colleague.name,
+        ...items.map((item) => getItemCount(colleague, item)),
+        ...(isSplit ? [formatDecimal(getColleagueCost(colleague, items))] : []),
+      ]),
+    ['Summe', ...items.map((item) => getItemTotal(colleagues, item)), ...(isSplit ? [formatDecimal(itemsCost)] : [])],
+    ...(isSplit ? [['Preis (€)', ...items.map((item) => formatDecimal(item.price))]] : []),
+  ];
+
+  if (totalWurst > 0) {
+    lines.push(
+      [],
+      ['Süßer Senf (g)', mustard.grams],
+      ['Gläser 335ml', mustard.jars335],
+      ['Gläser 200ml', mustard.jars200],
+      ['Senfkosten (€)', formatDecimal(mustard.price)]
+    );
+  }
+
+  if (isSplit) {
+    lines.push([], ['Gesamtkosten inkl. Senf (€)', formatDecimal(itemsCost + mustard.price)]);
+  }
+
+  return BOM + lines.map(toLine).join('\r\n') + '\r\n';
+}
+
+export function getCsvFileName(title: string, date = new Date()): string {
+  const slug = title
+    .toLowerCase()
+    .replace(/ä/g, 'ae').replace(/ö/g, 'oe').replace(/ü/g, 'ue').replace(/ß/g, 'ss')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+  return `${slug || 'einstand'}-${date.toISOString().slice(0, 10)}.csv`;
+}
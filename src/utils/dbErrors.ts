@@ -0,0 +1,66 @@
+/**
+ * German messages for the limit errors raised by the database
+ * (see supabase/migrations/015_limits.sql) and for writes to an entry
+ * without its edit token (42501, see 006_edit_tokens.sql)
+ */
+import { NETWORK_ERROR_CODE } from '../lib/backend/types';
+
+const LIMIT_CODES = ['WW001', 'WW002', 'WW003', '23505', '23514'];
+
+const CONSTRAINT_MESSAGES: Record<string, string> = {
+  einstand_entries_display_name_length: 'Der Name muss 1 bis 50 Zeichen lang sein',
+  einstand_sessions_title_length: 'Der Titel darf höchstens 100 Zeichen lang sein',
+  einstand_items_name_length: 'Artikelnamen dürfen höchstens 30 Zeichen lang sein',
+  einstand_items_unit_length: 'Einheiten dürfen höchstens 15 Zeichen lang sein',
+  einstand_entry_items_count_range: 'Mehr als 999 pro Artikel geht nicht',
+};
+
+interface DbError {
+  code?: string;
+  message?: string;
+}
+
+function asDbError(err: unknown): DbError | null {
+  return typeof err === 'object' && err !== null ? (err as DbError) : null;
+}
+
+/**
+ * True for errors a retry can't fix (limit reached, name taken, ...)
+ */
+export function isLimitError(err: unknown): boolean {
+  const code = asDbError(err)?.code;
+  return code !== undefined && LIMIT_CODES.includes(code);
+}
+
+/**
+ * True if the request never got an answer from the database (offline,
+ * server down). Everything else - including errors without a known
+ * code - would fail the same way again.
+ */
+export function isNetworkError(err: unknown): boolean {
+  return asDbError(err)?.code === NETWORK_ERROR_CODE;
+}
+
+export function getDbErrorMessage(err: unknown, fallback: string): string {
+  const error = asDbError(err);
+  switch (error?.code) {
+    case 'WW001':
+      return 'Der Einstand ist voll (höchstens 100 Teilnehmer)';
+    case 'WW002':
+      return 'Höchstens 12 Artikel pro Einstand';
+    case 'WW003':
+      return 'Zu viele Anfragen, bitte kurz warten';
+    case '23505':
+      return 'Der Name ist schon vergeben';
+    case '42501':
+      return 'Das ist nicht dein Eintrag - nur der Organisator kann ihn ändern';
+    case '23514': {
+      const constraint = Object.keys(CONSTRAINT_MESSAGES).find((name) =>
+        error.message?.includes(name)
+      );
+      return constraint ? CONSTRAINT_MESSAGES[constraint] : 'Ungültige Eingabe';
+    }
+    default:
+      return fallback;
+  }
+}
@@ -0,0 +1,14 @@
+/**
+ * Offers text as a file download (no server round trip).
+ */
+export function downloadFile(content: string, fileName: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoked after the click has been handled
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,127 @@
+import type { CatalogItem, Colleague, ItemKind } from '../types';
+import type { Item, ItemKind as DbItemKind, SessionMode, Json } from '../lib/database.types';
+
+// Security constants
+export const MAX_ITEMS = 12;
+export const MAX_ITEM_NAME_LENGTH = 30;
+export const MAX_ITEM_UNIT_LENGTH = 15;
+
+/**
+ * Suggestions offered in the catalog editor besides Wurst and Brezel
+ */
+export const ITEM_PRESETS: Omit<CatalogItem, 'id'>[] = [
+  { name: 'Obazda', emoji: '🧀', unit: 'Portion', price: 3.5, kind: 'extra' },
+  { name: 'Radi', emoji: '🥗', unit: 'Portion', price: 2.5, kind: 'extra' },
+  { name: 'Weißbier', emoji: '🍺', unit: 'Glas', price: 4.0, kind: 'extra' },
+];
+
+export function getDefaultItems(pricePerWurst: number, pricePerBrezel: number): CatalogItem[] {
+  return [
+    { id: 'wurst', name: 'Weißwurst', emoji: '🌭', unit: 'Stück', price: pricePerWurst, kind: 'wurst' },
+    { id: 'brezel', name: 'Brezel', emoji: '🥨', unit: 'Stück', price: pricePerBrezel, kind: 'pretzel' },
+  ];
+}
+
+export function toCatalogItem(item: Item): CatalogItem {
+  return {
+    id: item.id,
+    name: item.name,
+    emoji: item.emoji,
+    unit: item.unit,
+    price: item.price ?? 0,
+    kind: item.kind.toLowerCase() as ItemKind,
+  };
+}
+
+export function toDbItemKind(kind: ItemKind): DbItemKind {
+  return kind.toUpperCase() as DbItemKind;
+}
+
+/**
+ * Item catalog as p_items for the create_session/update_session RPCs
+ */
+export function toItemsPayload(items: CatalogItem[], mode: SessionMode): Json {
+  return items.map((item) => ({
+    id: item.id,
+    name: item.name.trim(),
+    emoji: item.emoji.trim(),
+    unit: item.unit.trim(),
+    price: mode === 'SPLIT' ? item.price : null,
+    kind: toDbItemKind(item.kind),
+  }));
+}
+
+export function getItemCount(colleague: Colleague, item: CatalogItem): number {
+  if (colleague.itemCounts) {
+    return colleague.itemCounts[item.id] ?? 0;
+  }
+  if (item.kind === 'wurst') return colleague.count;
+  if (item.kind === 'pretzel') return colleague.brezelCount || 0;
+  return 0;
+}
+
+/**
+ * Returns a copy of the colleague with the item count changed by delta (never below 0)
+ */
+export function adjustItemCount(colleague: Colleague, item: CatalogItem, delta: number): Colleague {
+  const newCount = Math.max(0, getItemCount(colleague, item) + delta);
+  if (colleague.itemCounts) {
+    return { ...colleague, itemCounts: { ...colleague.itemCounts, [item.id]: newCount } };
+  }
+  if (item.kind === 'wurst') return { ...colleague, count: newCount };
+  if (item.kind === 'pretzel') return { ...colleague, brezelCount: newCount };
+  return colleague;
+}
+
+/**
+ * Returns a copy of the colleague with every item count set to 0
+ */
+export function resetItemCounts(colleague: Colleague): Colleague {
+  const itemCounts = colleague.itemCounts
+    ? Object.fromEntries(Object.keys(colleague.itemCounts).map((itemId) => [itemId, 0]))
+    : undefined;
+  return { ...colleague, count: 0, brezelCount: 0, itemCounts };
+}
+
+export function getColleagueCost(colleague: Colleague, items: CatalogItem[]): number {
+  return items.reduce((sum, item) => sum + getItemCount(colleague, item) * (item.price || 0), 0);
+}
+
+export function getItemTotal(colleagues: Colleague[], item: CatalogItem): number {
+  return colleagues.reduce((sum, c) => sum + getItemCount(c, item), 0);
+}
+
+export interface MustardEstimate {
+  grams: number;
+  jars335: number;
+  jars200: number;
+  jar335Price: number;
+  jar200Price: number;
+  price: number;
+}
+
+/**
+ * Sweet mustard for a number of Würste: about 45g per 2 Würste
+ * (average of 40-50g), bought in 335ml jars and topped up with 200ml
+ * jars (1ml ≈ 1g).
+ */
+export function getMustardEstimate(totalWurst: number): MustardEstimate {
+  const jar335ml = 335;
+  const jar200ml = 200;
+  const jar335Price = 2.5;
+  const jar200Price = 2.0;
+
+  const grams = Math.ceil(totalWurst / 2) * 45;
+  const jars335 = Math.floor(grams / jar335ml);
+  const remainingGrams = grams % jar335ml;
+  const jars200 = remainingGrams > 0 ? Math.ceil(remainingGrams / jar200ml) : 0;
+
+  return {
+    grams,
+    jars335,
+    jars200,
+    jar335Price,
+    jar200Price,
+    price: jars335 * jar335Price + jars200 * jar200Price,
+  };
+}
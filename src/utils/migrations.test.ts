@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { SCHEMA_VERSION, type AppState } from '../types';
+import { migrateData } from './migrations';
+import { createOfflineEvent } from './offlineEvents';
+
+describe('migrateData', () => {
+  it('moves a v0 state into one event and fills in the Brezel fields', () => {
+    const legacy = {
+      colleagues: [{ id: 'anna', name: 'Anna', count: 2 }],
+      activeColleagueId: 'anna',
+      mode: 'split',
+      pricePerWurst: 2.5,
+    } as unknown as Partial<AppState>;
+
+    const migrated = migrateData(legacy, SCHEMA_VERSION);
+    expect(migrated).toEqual({
+      events: [expect.objectContaining({
+        name: 'Mein Einstand',
+        archived: false,
+        colleagues: [{ id: 'anna', name: 'Anna', count: 2, brezelCount: 0 }],
+        activeColleagueId: 'anna',
+        mode: 'split',
+        pricePerWurst: 2.5,
+        pricePerBrezel: 1.0,
+      })],
+      activeEventId: migrated.events[0].id,
+      sortMode: 'alphabetical',
+      schemaVersion: SCHEMA_VERSION,
+    });
+  });
+
+  it('keeps the v1 fields, including the sorting', () => {
+    const v1 = {
+      colleagues: [{ id: 'anna', name: 'Anna', count: 2, brezelCount: 3 }],
+      activeColleagueId: null,
+      mode: 'invite',
+      pricePerWurst: 3,
+      pricePerBrezel: 1.5,
+      sortMode: 'count',
+      schemaVersion: 1,
+    } as unknown as Partial<AppState>;
+
+    const migrated = migrateData(v1, SCHEMA_VERSION);
+    expect(migrated.sortMode).toBe('count');
+    expect(migrated.events[0]).toMatchObject({
+      colleagues: [{ id: 'anna', name: 'Anna', count: 2, brezelCount: 3 }],
+      activeColleagueId: null,
+      pricePerWurst: 3,
+      pricePerBrezel: 1.5,
+    });
+  });
+
+  it('gives an empty v0 state one default event', () => {
+    const migrated = migrateData<AppState>({}, SCHEMA_VERSION);
+    expect(migrated.events).toHaveLength(1);
+    expect(migrated.events[0].colleagues).toEqual([]);
+    expect(migrated.activeEventId).toBe(migrated.events[0].id);
+  });
+
+  it('leaves current data alone', () => {
+    const event = createOfflineEvent();
+    const current: AppState = { events: [event], activeEventId: event.id, sortMode: 'count', schemaVersion: SCHEMA_VERSION };
+    expect(migrateData(current, SCHEMA_VERSION)).toEqual(current);
+  });
+});
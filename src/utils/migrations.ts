@@ -0,0 +1,64 @@
+import type { AppState, Colleague, OfflineEvent } from '../types';
+import { createOfflineEvent } from './offlineEvents';
+
+// Up to v1 the state held exactly one event at the top level
+type LegacyEventFields = Pick<
+  OfflineEvent,
+  'colleagues' | 'activeColleagueId' | 'mode' | 'pricePerWurst' | 'pricePerBrezel'
+>;
+
+/**
+ * Migrates old data to the current schema version.
+ * Add migration steps here when incrementing SCHEMA_VERSION.
+ */
+export function migrateData<T extends AppState>(data: Partial<T>, currentVersion: number): T {
+  let migrated = { ...data } as T;
+  const storedVersion = data.schemaVersion ?? 0;
+  
+  // No migration needed if already at current version
+  if (storedVersion >= currentVersion) {
+    return migrated;
+  }
+  
+  // Migration from v0 (no version) to v1
+  if (storedVersion < 1) {
+    const legacy = migrated as unknown as Partial<LegacyEventFields>;
+
+    // Ensure brezelCount exists on all colleagues
+    if (legacy.colleagues) {
+      legacy.colleagues = legacy.colleagues.map((c: Partial<Colleague>) => ({
+        ...c,
+        brezelCount: c.brezelCount ?? 0,
+      })) as Colleague[];
+    }
+    
+    // Ensure pricePerBrezel exists
+    legacy.pricePerBrezel = legacy.pricePerBrezel ?? 1.0;
+    
+    // Ensure sortMode exists
+    migrated.sortMode = migrated.sortMode ?? 'alphabetical';
+  }
+  
+  // Migration from v1 to v2: the single event becomes the first of a list
+  if (storedVersion < 2) {
+    const { colleagues, activeColleagueId, mode, pricePerWurst, pricePerBrezel, ...rest } =
+      migrated as unknown as Partial<LegacyEventFields> & T;
+    const event = createOfflineEvent({
+      name: 'Mein Einstand',
+      ...(colleagues && { colleagues }),
+      ...(activeColleagueId !== undefined && { activeColleagueId }),
+      ...(mode && { mode }),
+      ...(pricePerWurst !== undefined && { pricePerWurst }),
+      ...(pricePerBrezel !== undefined && { pricePerBrezel }),
+    });
+    migrated = { ...rest, events: [event], activeEventId: event.id } as T;
+  }
+  
+  // Add future migrations here:
+  // if (storedVersion < 3) { ... }
+  
+  // Update schema version
+  migrated.schemaVersion = currentVersion;
+  
+  return migrated;
+}
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_STORAGE_LENGTH, SCHEMA_VERSION, type AppState, type Colleague } from '../types';
+import {
+  createOfflineEvent,
+  isStateTooLarge,
+  keepNavigation,
+  restoreColleague,
+  restoreCounts,
+  restoreEvent,
+} from './offlineEvents';
+
+const anna: Colleague = { id: 'anna', name: 'Anna', count: 2, brezelCount: 1 };
+const bert: Colleague = { id: 'bert', name: 'Bert', count: 0, brezelCount: 0 };
+
+function createState(): AppState {
+  const first = createOfflineEvent({ id: 'first', colleagues: [anna, bert] });
+  const second = createOfflineEvent({ id: 'second' });
+  return { events: [first, second], activeEventId: 'first', sortMode: 'alphabetical', schemaVersion: SCHEMA_VERSION };
+}
+
+describe('undo from the toast', () => {
+  it('brings back a deleted event where it was', () => {
+    const state = createState();
+    const [first, second] = state.events;
+    const restored = restoreEvent({ ...state, events: [second] }, first, 0);
+
+    expect(restored.events.map((e) => e.id)).toEqual(['first', 'second']);
+    expect(restoreEvent(restored, first, 0)).toBe(restored);
+  });
+
+  it('brings back a deleted colleague and keeps the clicks since', () => {
+    const state = createState();
+    // Bert got three Würste after Anna was deleted
+    const afterDelete = {
+      ...state,
+      events: [{ ...state.events[0], colleagues: [{ ...bert, count: 3 }] }, state.events[1]],
+    };
+
+    const restored = restoreColleague(afterDelete, 'first', anna, 0);
+    expect(restored.events[0].colleagues).toEqual([anna, { ...bert, count: 3 }]);
+    expect(restoreColleague(restored, 'first', anna, 0)).toBe(restored);
+  });
+
+  it('adds the counts from before a reset to the ones since', () => {
+    const state = createState();
+    const afterReset = {
+      ...state,
+      events: [{ ...state.events[0], colleagues: [{ ...anna, count: 1, brezelCount: 0 }, bert] }, state.events[1]],
+    };
+
+    const restored = restoreCounts(afterReset, 'first', anna);
+    expect(restored.events[0].colleagues[0]).toEqual({ ...anna, count: 3, brezelCount: 1 });
+  });
+
+  it('leaves the state alone once the event is gone', () => {
+    const state = createState();
+    const withoutFirst = { ...state, events: [state.events[1]] };
+
+    expect(restoreColleague(withoutFirst, 'first', anna, 0)).toBe(withoutFirst);
+    expect(restoreCounts(withoutFirst, 'first', anna)).toBe(withoutFirst);
+  });
+});
+
+describe('keepNavigation', () => {
+  it('undoes the content but keeps the active event, sorting and selection', () => {
+    const earlier = createState();
+    const [first, second] = earlier.events;
+    // Since then: Bert counted, then second event opened and sorted by count
+    const current: AppState = {
+      ...earlier,
+      events: [
+        { ...first, colleagues: [anna, { ...bert, count: 1 }], activeColleagueId: 'bert' },
+        second,
+      ],
+      activeEventId: 'second',
+      sortMode: 'count',
+    };
+
+    const undone = keepNavigation(current, earlier);
+    expect(undone.events[0].colleagues).toEqual([anna, bert]);
+    expect(undone.events[0].activeColleagueId).toBe('bert');
+    expect(undone.activeEventId).toBe('second');
+    expect(undone.sortMode).toBe('count');
+  });
+
+  it('drops a selection the undone state has no colleague for', () => {
+    const earlier = createState();
+    const carl: Colleague = { id: 'carl', name: 'Carl', count: 0, brezelCount: 0 };
+    const current: AppState = {
+      ...earlier,
+      events: [{ ...earlier.events[0], colleagues: [anna, bert, carl], activeColleagueId: 'carl' }, earlier.events[1]],
+    };
+
+    expect(keepNavigation(current, earlier).events[0].activeColleagueId).toBeNull();
+  });
+
+  it('falls back to an open event when the active one is undone', () => {
+    const earlier = createState();
+    const created = createOfflineEvent({ id: 'created', createdAt: '2030-01-01T00:00:00.000Z' });
+    const current: AppState = { ...earlier, events: [...earlier.events, created], activeEventId: 'created' };
+
+    const undone = keepNavigation(current, earlier);
+    expect(undone.events.map((e) => e.id)).toEqual(['first', 'second']);
+    expect(['first', 'second']).toContain(undone.activeEventId);
+  });
+});
+
+describe('isStateTooLarge', () => {
+  it('measures the stored JSON against the storage limit', () => {
+    const state = createState();
+    const room = MAX_STORAGE_LENGTH - JSON.stringify(state).length;
+    const withName = (length: number) => ({
+      ...state,
+      events: [{ ...state.events[0], name: state.events[0].name + 'x'.repeat(length) }, state.events[1]],
+    });
+
+    expect(isStateTooLarge(withName(room))).toBe(false);
+    expect(isStateTooLarge(withName(room + 1))).toBe(true);
+  });
+});
@@ -0,0 +1,137 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  DEFAULT_PRICE,
+  DEFAULT_BREZEL_PRICE,
+  MAX_STORAGE_LENGTH,
+  type AppState,
+  type Colleague,
+  type OfflineEvent,
+} from '../types';
+
+// Security constants
+export const MAX_EVENT_NAME_LENGTH = 50;
+export const MAX_EVENTS = 50;
+
+export function getDefaultEventName(createdAt: string): string {
+  return `Einstand vom ${new Date(createdAt).toLocaleDateString('de-DE')}`;
+}
+
+export function createOfflineEvent(fields: Partial<OfflineEvent> = {}): OfflineEvent {
+  const createdAt = fields.createdAt ?? new Date().toISOString();
+  return {
+    id: uuidv4(),
+    name: getDefaultEventName(createdAt),
+    archived: false,
+    colleagues: [],
+    activeColleagueId: null,
+    mode: 'invite',
+    pricePerWurst: DEFAULT_PRICE,
+    pricePerBrezel: DEFAULT_BREZEL_PRICE,
+    ...fields,
+    createdAt,
+  };
+}
+
+/**
+ * Keeps activeEventId on an existing, not archived event - falls back
+ * to the newest open one and creates a fresh event if there is none.
+ */
+export function ensureActiveEvent<T extends AppState>(state: T): T {
+  const isOpen = (event: OfflineEvent) => !event.archived;
+  if (state.events.some((e) => e.id === state.activeEventId && isOpen(e))) return state;
+
+  const fallback = [...state.events].filter(isOpen).sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0];
+  if (fallback) return { ...state, activeEventId: fallback.id };
+
+  const event = createOfflineEvent();
+  return { ...state, events: [...state.events, event], activeEventId: event.id };
+}
+
+export function isStateTooLarge(state: AppState): boolean {
+  return JSON.stringify(state).length > MAX_STORAGE_LENGTH;
+}
+
+export function getActiveEvent(state: AppState): OfflineEvent {
+  return state.events.find((e) => e.id === state.activeEventId) ?? state.events[0];
+}
+
+/**
+ * Whether anything worth undoing changed between two states - switching
+ * the event, selecting a colleague or sorting the list is not a step.
+ */
+export function hasContentChanged(prev: AppState, next: AppState): boolean {
+  if (prev.events.length !== next.events.length) return true;
+  return next.events.some((event, index) => {
+    const before = prev.events[index];
+    return (
+      before.id !== event.id ||
+      before.name !== event.name ||
+      before.archived !== event.archived ||
+      before.colleagues !== event.colleagues ||
+      before.mode !== event.mode ||
+      before.pricePerWurst !== event.pricePerWurst ||
+      before.pricePerBrezel !== event.pricePerBrezel
+    );
+  });
+}
+
+/**
+ * `target` with the navigation of `current` - active event, sorting and
+ * the selected colleague of each event. Undo and restoring a snapshot
+ * bring back content only; the selection stays where the user is now.
+ */
+export function keepNavigation(current: AppState, target: AppState): AppState {
+  const selections = new Map(current.events.map((e) => [e.id, e.activeColleagueId]));
+  return ensureActiveEvent({
+    ...target,
+    events: target.events.map((event) => {
+      if (!selections.has(event.id)) return event;
+      const selected = selections.get(event.id) ?? null;
+      const activeColleagueId = event.colleagues.some((c) => c.id === selected) ? selected : null;
+      return activeColleagueId === event.activeColleagueId ? event : { ...event, activeColleagueId };
+    }),
+    activeEventId: current.activeEventId,
+    sortMode: current.sortMode,
+  });
+}
+
+// Undo from the toast after a delete or reset: brings back only what that
+// change removed, everything done since stays. No-op if it's back already.
+
+const insertAt = <T>(list: T[], index: number, value: T) => [...list.slice(0, index), value, ...list.slice(index)];
+
+function updateEventById(state: AppState, eventId: string, update: (event: OfflineEvent) => OfflineEvent): AppState {
+  const event = state.events.find((e) => e.id === eventId);
+  const updated = event && update(event);
+  if (!updated || updated === event) return state;
+  return { ...state, events: state.events.map((e) => (e.id === eventId ? updated : e)) };
+}
+
+export function restoreEvent(state: AppState, event: OfflineEvent, index: number): AppState {
+  if (state.events.some((e) => e.id === event.id)) return state;
+  return { ...state, events: insertAt(state.events, index, event) };
+}
+
+export function restoreColleague(state: AppState, eventId: string, colleague: Colleague, index: number): AppState {
+  return updateEventById(state, eventId, (event) =>
+    event.colleagues.some((c) => c.id === colleague.id)
+      ? event
+      : { ...event, colleagues: insertAt(event.colleagues, index, colleague) }
+  );
+}
+
+// Adds the counts from before the reset, so clicks since then aren't lost
+export function restoreCounts(state: AppState, eventId: string, colleague: Colleague): AppState {
+  return updateEventById(state, eventId, (event) =>
+    event.colleagues.some((c) => c.id === colleague.id)
+      ? {
+          ...event,
+          colleagues: event.colleagues.map((c) =>
+            c.id === colleague.id
+              ? { ...c, count: c.count + colleague.count, brezelCount: c.brezelCount + colleague.brezelCount }
+              : c
+          ),
+        }
+      : event
+  );
+}
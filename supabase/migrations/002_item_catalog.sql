@@ -0,0 +1,251 @@
+-- ============================================================
+-- Weißwurst Einstand - Item Catalog
+-- ============================================================
+--
+-- Replaces the hard-wired Wurst/Brezel columns with a per-session
+-- item catalog (Weißwurst, Brezel, Obazda, Radi, Weißbier, ...).
+--
+-- - einstand_items: what a session offers (name, emoji, unit, price)
+-- - einstand_entry_items: how many of each item a participant took
+-- - WURST/PRETZEL items are bound to the 3D scene (max. one each),
+--   EXTRA items are counted via buttons on the participant card
+-- - Sessions are created through create_session() so that the
+--   session and its items are inserted atomically
+--
+-- ============================================================
+
+-- ============================================================
+-- TABLES
+-- ============================================================
+
+-- Items offered in a session
+CREATE TABLE IF NOT EXISTS einstand_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES einstand_sessions(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  emoji TEXT NOT NULL DEFAULT '🍽️',
+  unit TEXT NOT NULL DEFAULT 'Stück',
+  price NUMERIC(10, 2) CHECK (price IS NULL OR price >= 0),
+  kind TEXT NOT NULL CHECK (kind IN ('WURST', 'PRETZEL', 'EXTRA')) DEFAULT 'EXTRA',
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Per-entry item counts
+-- session_id is denormalized so realtime subscriptions can filter on it
+CREATE TABLE IF NOT EXISTS einstand_entry_items (
+  entry_id UUID NOT NULL REFERENCES einstand_entries(id) ON DELETE CASCADE,
+  item_id UUID NOT NULL REFERENCES einstand_items(id) ON DELETE CASCADE,
+  session_id UUID NOT NULL REFERENCES einstand_sessions(id) ON DELETE CASCADE,
+  count INTEGER NOT NULL DEFAULT 0 CHECK (count >= 0),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (entry_id, item_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_items_session_id ON einstand_items(session_id);
+CREATE INDEX IF NOT EXISTS idx_entry_items_session_id ON einstand_entry_items(session_id);
+
+-- Only one scene-bound Wurst and Brezel item per session
+CREATE UNIQUE INDEX IF NOT EXISTS idx_items_scene_kind
+  ON einstand_items(session_id, kind)
+  WHERE kind <> 'EXTRA';
+
+-- Trigger for entry items updated_at
+DROP TRIGGER IF EXISTS entry_items_updated_at ON einstand_entry_items;
+CREATE TRIGGER entry_items_updated_at
+  BEFORE UPDATE ON einstand_entry_items
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================
+-- BACKFILL (existing sessions keep their Wurst/Brezel counts)
+-- ============================================================
+
+INSERT INTO einstand_items (session_id, name, emoji, unit, price, kind, sort_order)
+SELECT s.id, 'Weißwurst', '🌭', 'Stück', s.price_wurst, 'WURST', 0
+FROM einstand_sessions s
+WHERE NOT EXISTS (
+  SELECT 1 FROM einstand_items i WHERE i.session_id = s.id AND i.kind = 'WURST'
+);
+
+INSERT INTO einstand_items (session_id, name, emoji, unit, price, kind, sort_order)
+SELECT s.id, 'Brezel', '🥨', 'Stück', s.price_pretzel, 'PRETZEL', 1
+FROM einstand_sessions s
+WHERE NOT EXISTS (
+  SELECT 1 FROM einstand_items i WHERE i.session_id = s.id AND i.kind = 'PRETZEL'
+);
+
+INSERT INTO einstand_entry_items (entry_id, item_id, session_id, count)
+SELECT e.id, i.id, e.session_id, e.wurst_count
+FROM einstand_entries e
+JOIN einstand_items i ON i.session_id = e.session_id AND i.kind = 'WURST'
+WHERE e.wurst_count > 0
+ON CONFLICT (entry_id, item_id) DO NOTHING;
+
+INSERT INTO einstand_entry_items (entry_id, item_id, session_id, count)
+SELECT e.id, i.id, e.session_id, e.pretzel_count
+FROM einstand_entries e
+JOIN einstand_items i ON i.session_id = e.session_id AND i.kind = 'PRETZEL'
+WHERE e.pretzel_count > 0
+ON CONFLICT (entry_id, item_id) DO NOTHING;
+
+-- ============================================================
+-- DROP LEGACY COLUMNS
+-- ============================================================
+
+DROP VIEW IF EXISTS einstand_sessions_public;
+
+ALTER TABLE einstand_sessions DROP COLUMN IF EXISTS price_wurst;
+ALTER TABLE einstand_sessions DROP COLUMN IF EXISTS price_pretzel;
+ALTER TABLE einstand_entries DROP COLUMN IF EXISTS wurst_count;
+ALTER TABLE einstand_entries DROP COLUMN IF EXISTS pretzel_count;
+
+CREATE OR REPLACE VIEW einstand_sessions_public AS
+SELECT
+  id,
+  title,
+  mode,
+  status,
+  created_at
+FROM einstand_sessions
+WHERE deleted_at IS NULL;
+
+GRANT SELECT ON einstand_sessions_public TO anon, authenticated;
+
+-- ============================================================
+-- RPC FUNCTIONS
+-- ============================================================
+
+-- Create session with its item catalog
+-- p_items: [{ "name", "emoji", "unit", "price", "kind" }, ...]
+CREATE OR REPLACE FUNCTION create_session(
+  p_title TEXT,
+  p_mode TEXT,
+  p_admin_secret TEXT,
+  p_items JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session_id UUID;
+BEGIN
+  IF jsonb_typeof(p_items) IS DISTINCT FROM 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'At least one item is required';
+  END IF;
+
+  INSERT INTO einstand_sessions (title, mode, admin_secret)
+  VALUES (p_title, p_mode, p_admin_secret)
+  RETURNING id INTO v_session_id;
+
+  INSERT INTO einstand_items (session_id, name, emoji, unit, price, kind, sort_order)
+  SELECT
+    v_session_id,
+    item->>'name',
+    COALESCE(NULLIF(item->>'emoji', ''), '🍽️'),
+    COALESCE(NULLIF(item->>'unit', ''), 'Stück'),
+    CASE WHEN p_mode = 'SPLIT' THEN (item->>'price')::NUMERIC ELSE NULL END,
+    COALESCE(item->>'kind', 'EXTRA'),
+    (t.ord - 1)::INTEGER
+  FROM jsonb_array_elements(p_items) WITH ORDINALITY AS t(item, ord);
+
+  RETURN v_session_id;
+END;
+$$;
+
+-- ============================================================
+-- ROW LEVEL SECURITY
+-- ============================================================
+
+ALTER TABLE einstand_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE einstand_entry_items ENABLE ROW LEVEL SECURITY;
+
+-- Sessions are only created through create_session()
+DROP POLICY IF EXISTS "sessions_insert_anon" ON einstand_sessions;
+REVOKE INSERT ON einstand_sessions FROM anon, authenticated;
+
+-- SELECT: Allow reading items of non-deleted sessions
+-- INSERT/UPDATE/DELETE: Blocked via RLS - items are written by RPC functions
+CREATE POLICY "items_select_active_session"
+  ON einstand_items
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM einstand_sessions s
+      WHERE s.id = einstand_items.session_id
+        AND s.deleted_at IS NULL
+    )
+  );
+
+-- SELECT: Allow reading counts of non-deleted sessions
+CREATE POLICY "entry_items_select_active_session"
+  ON einstand_entry_items
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM einstand_sessions s
+      WHERE s.id = einstand_entry_items.session_id
+        AND s.deleted_at IS NULL
+    )
+  );
+
+-- INSERT: Allow adding counts only in OPEN sessions, for entries and items of that session
+CREATE POLICY "entry_items_insert_open_session"
+  ON einstand_entry_items
+  FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM einstand_sessions s
+      WHERE s.id = einstand_entry_items.session_id
+        AND s.status = 'OPEN'
+        AND s.deleted_at IS NULL
+    )
+    AND EXISTS (
+      SELECT 1 FROM einstand_entries e
+      WHERE e.id = einstand_entry_items.entry_id
+        AND e.session_id = einstand_entry_items.session_id
+    )
+    AND EXISTS (
+      SELECT 1 FROM einstand_items i
+      WHERE i.id = einstand_entry_items.item_id
+        AND i.session_id = einstand_entry_items.session_id
+    )
+  );
+
+-- UPDATE: Allow updating counts only in OPEN sessions
+CREATE POLICY "entry_items_update_open_session"
+  ON einstand_entry_items
+  FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM einstand_sessions s
+      WHERE s.id = einstand_entry_items.session_id
+        AND s.status = 'OPEN'
+        AND s.deleted_at IS NULL
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM einstand_sessions s
+      WHERE s.id = einstand_entry_items.session_id
+        AND s.status = 'OPEN'
+        AND s.deleted_at IS NULL
+    )
+  );
+
+-- ============================================================
+-- GRANTS
+-- ============================================================
+
+GRANT SELECT ON einstand_items TO anon, authenticated;
+GRANT SELECT, INSERT, UPDATE ON einstand_entry_items TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION create_session TO anon, authenticated;
+
+-- ============================================================
+-- REALTIME
+-- ============================================================
+
+ALTER PUBLICATION supabase_realtime ADD TABLE einstand_items;
+ALTER PUBLICATION supabase_realtime ADD TABLE einstand_entry_items;
@@ -0,0 +1,59 @@
+-- ============================================================
+-- Weißwurst Einstand - Atomic Counter Updates
+-- ============================================================
+--
+-- Clients used to read the count from local state and write back
+-- count + 1, so two devices counting for the same person at the
+-- same time lost clicks. increment_entry() applies the delta
+-- server-side in a single statement instead.
+--
+-- - Delta is applied to the current row value (row-locked upsert)
+-- - Counts are clamped at zero
+-- - Only allowed while the session is OPEN and not deleted
+-- - Returns the updated count row
+--
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION increment_entry(
+  p_entry_id UUID,
+  p_item UUID,
+  p_delta INTEGER
+)
+RETURNS einstand_entry_items
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session_id UUID;
+  v_row einstand_entry_items;
+BEGIN
+  IF p_delta IS NULL OR p_delta = 0 THEN
+    RAISE EXCEPTION 'Delta must not be zero';
+  END IF;
+
+  -- Entry must belong to an OPEN session that offers the item
+  SELECT e.session_id INTO v_session_id
+  FROM einstand_entries e
+  JOIN einstand_sessions s ON s.id = e.session_id
+  JOIN einstand_items i ON i.session_id = e.session_id
+  WHERE e.id = p_entry_id
+    AND i.id = p_item
+    AND s.status = 'OPEN'
+    AND s.deleted_at IS NULL;
+
+  IF v_session_id IS NULL THEN
+    RAISE EXCEPTION 'Entry not found or session not open';
+  END IF;
+
+  INSERT INTO einstand_entry_items (entry_id, item_id, session_id, count)
+  VALUES (p_entry_id, p_item, v_session_id, GREATEST(p_delta, 0))
+  ON CONFLICT (entry_id, item_id)
+  DO UPDATE SET count = GREATEST(einstand_entry_items.count + p_delta, 0)
+  RETURNING * INTO v_row;
+
+  RETURN v_row;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION increment_entry TO anon, authenticated;
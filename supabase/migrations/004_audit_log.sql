@@ -0,0 +1,506 @@
+-- ============================================================
+-- Weißwurst Einstand - Audit Log
+-- ============================================================
+--
+-- Append-only log of every change to entries and counts, so the
+-- admin can see who changed what ("I only had two, not four").
+--
+-- - einstand_events: JOIN, INCREMENT, DECREMENT, RESET, RENAME,
+--   DELETE and REVERT events with actor, device identity and time
+-- - All entry/count writes go through RPCs that log an event;
+--   direct INSERT/UPDATE/DELETE on the tables is revoked
+-- - Events are never updated or deleted. A revert is a new REVERT
+--   event pointing at the original one (reverts_event_id)
+-- - The log is only readable with the admin secret
+--
+-- Actor fields are reported by the client: actor is the display
+-- name, actor_entry_id the ParticipantIdentity stored on the device
+-- (localStorage, see getParticipantKey in SessionPage).
+--
+-- ============================================================
+
+-- ============================================================
+-- TABLES
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS einstand_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES einstand_sessions(id) ON DELETE CASCADE,
+  -- No FK: events must survive the deletion of their entry
+  entry_id UUID,
+  event_type TEXT NOT NULL CHECK (
+    event_type IN ('JOIN', 'INCREMENT', 'DECREMENT', 'RESET', 'RENAME', 'DELETE', 'REVERT')
+  ),
+  item_id UUID,
+  delta INTEGER,
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  actor TEXT,
+  actor_entry_id UUID,
+  reverts_event_id UUID REFERENCES einstand_events(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_events_session_created
+  ON einstand_events(session_id, created_at DESC);
+
+-- A single event can only be reverted once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_events_reverts_event_id
+  ON einstand_events(reverts_event_id)
+  WHERE reverts_event_id IS NOT NULL;
+
+-- ============================================================
+-- INTERNAL HELPERS (not callable by clients)
+-- ============================================================
+
+-- Append an event to the log
+CREATE OR REPLACE FUNCTION log_event(
+  p_session_id UUID,
+  p_entry_id UUID,
+  p_event_type TEXT,
+  p_item_id UUID,
+  p_delta INTEGER,
+  p_payload JSONB,
+  p_actor TEXT,
+  p_actor_entry_id UUID,
+  p_reverts_event_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event_id UUID;
+BEGIN
+  INSERT INTO einstand_events (
+    session_id, entry_id, event_type, item_id, delta, payload,
+    actor, actor_entry_id, reverts_event_id
+  )
+  VALUES (
+    p_session_id, p_entry_id, p_event_type, p_item_id, p_delta, COALESCE(p_payload, '{}'::jsonb),
+    left(p_actor, 50), p_actor_entry_id, p_reverts_event_id
+  )
+  RETURNING id INTO v_event_id;
+
+  RETURN v_event_id;
+END;
+$$;
+
+-- Load an entry whose session is OPEN, or fail
+CREATE OR REPLACE FUNCTION get_open_entry(p_entry_id UUID)
+RETURNS einstand_entries
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry einstand_entries;
+BEGIN
+  SELECT e.* INTO v_entry
+  FROM einstand_entries e
+  JOIN einstand_sessions s ON s.id = e.session_id
+  WHERE e.id = p_entry_id
+    AND s.status = 'OPEN'
+    AND s.deleted_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Entry not found or session not open';
+  END IF;
+
+  RETURN v_entry;
+END;
+$$;
+
+-- Add counts ({ "<item_id>": <count> }) back to an entry
+CREATE OR REPLACE FUNCTION restore_entry_counts(
+  p_entry_id UUID,
+  p_counts JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO einstand_entry_items (entry_id, item_id, session_id, count)
+  SELECT e.id, i.id, e.session_id, c.value::INTEGER
+  FROM jsonb_each_text(COALESCE(p_counts, '{}'::jsonb)) AS c(key, value)
+  JOIN einstand_entries e ON e.id = p_entry_id
+  JOIN einstand_items i ON i.id = c.key::UUID AND i.session_id = e.session_id
+  ON CONFLICT (entry_id, item_id)
+  DO UPDATE SET count = einstand_entry_items.count + EXCLUDED.count;
+END;
+$$;
+
+-- Snapshot of an entry's non-zero counts as { "<item_id>": <count> }
+CREATE OR REPLACE FUNCTION get_entry_counts(p_entry_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(jsonb_object_agg(item_id, count) FILTER (WHERE count > 0), '{}'::jsonb)
+  FROM einstand_entry_items
+  WHERE entry_id = p_entry_id;
+$$;
+
+-- ============================================================
+-- PARTICIPANT RPC FUNCTIONS (logged)
+-- ============================================================
+
+-- Join session (create entry)
+CREATE OR REPLACE FUNCTION join_session(
+  p_session_id UUID,
+  p_display_name TEXT
+)
+RETURNS einstand_entries
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry einstand_entries;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM einstand_sessions
+    WHERE id = p_session_id
+      AND status = 'OPEN'
+      AND deleted_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Session not found or not open';
+  END IF;
+
+  INSERT INTO einstand_entries (session_id, display_name)
+  VALUES (p_session_id, p_display_name)
+  RETURNING * INTO v_entry;
+
+  PERFORM log_event(
+    p_session_id, v_entry.id, 'JOIN', NULL, NULL,
+    jsonb_build_object('display_name', v_entry.display_name),
+    v_entry.display_name, v_entry.id
+  );
+
+  RETURN v_entry;
+END;
+$$;
+
+-- Increment/decrement counter (replaces the unlogged version)
+DROP FUNCTION IF EXISTS increment_entry(UUID, UUID, INTEGER);
+
+CREATE OR REPLACE FUNCTION increment_entry(
+  p_entry_id UUID,
+  p_item UUID,
+  p_delta INTEGER,
+  p_actor TEXT DEFAULT NULL,
+  p_actor_entry_id UUID DEFAULT NULL
+)
+RETURNS einstand_entry_items
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry einstand_entries;
+  v_old_count INTEGER;
+  v_row einstand_entry_items;
+BEGIN
+  IF p_delta IS NULL OR p_delta = 0 THEN
+    RAISE EXCEPTION 'Delta must not be zero';
+  END IF;
+
+  v_entry := get_open_entry(p_entry_id);
+
+  IF NOT EXISTS (
+    SELECT 1 FROM einstand_items
+    WHERE id = p_item AND session_id = v_entry.session_id
+  ) THEN
+    RAISE EXCEPTION 'Item not found';
+  END IF;
+
+  SELECT count INTO v_old_count
+  FROM einstand_entry_items
+  WHERE entry_id = p_entry_id AND item_id = p_item
+  FOR UPDATE;
+
+  INSERT INTO einstand_entry_items (entry_id, item_id, session_id, count)
+  VALUES (p_entry_id, p_item, v_entry.session_id, GREATEST(p_delta, 0))
+  ON CONFLICT (entry_id, item_id)
+  DO UPDATE SET count = GREATEST(einstand_entry_items.count + p_delta, 0)
+  RETURNING * INTO v_row;
+
+  -- Log the delta that was actually applied (clamping may swallow it)
+  IF v_row.count <> COALESCE(v_old_count, 0) THEN
+    PERFORM log_event(
+      v_entry.session_id, p_entry_id,
+      CASE WHEN p_delta > 0 THEN 'INCREMENT' ELSE 'DECREMENT' END,
+      p_item, v_row.count - COALESCE(v_old_count, 0),
+      jsonb_build_object('display_name', v_entry.display_name),
+      p_actor, p_actor_entry_id
+    );
+  END IF;
+
+  RETURN v_row;
+END;
+$$;
+
+-- Reset all counts of an entry
+CREATE OR REPLACE FUNCTION reset_entry(
+  p_entry_id UUID,
+  p_actor TEXT DEFAULT NULL,
+  p_actor_entry_id UUID DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry einstand_entries;
+  v_before JSONB;
+BEGIN
+  v_entry := get_open_entry(p_entry_id);
+  v_before := get_entry_counts(p_entry_id);
+
+  UPDATE einstand_entry_items
+  SET count = 0
+  WHERE entry_id = p_entry_id
+    AND count > 0;
+
+  IF v_before <> '{}'::jsonb THEN
+    PERFORM log_event(
+      v_entry.session_id, p_entry_id, 'RESET', NULL, NULL,
+      jsonb_build_object('display_name', v_entry.display_name, 'before', v_before),
+      p_actor, p_actor_entry_id
+    );
+  END IF;
+
+  RETURN TRUE;
+END;
+$$;
+
+-- Rename entry
+CREATE OR REPLACE FUNCTION rename_entry(
+  p_entry_id UUID,
+  p_display_name TEXT,
+  p_actor TEXT DEFAULT NULL,
+  p_actor_entry_id UUID DEFAULT NULL
+)
+RETURNS einstand_entries
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry einstand_entries;
+  v_updated einstand_entries;
+BEGIN
+  v_entry := get_open_entry(p_entry_id);
+
+  UPDATE einstand_entries
+  SET display_name = p_display_name
+  WHERE id = p_entry_id
+  RETURNING * INTO v_updated;
+
+  IF v_updated.display_name IS DISTINCT FROM v_entry.display_name THEN
+    PERFORM log_event(
+      v_entry.session_id, p_entry_id, 'RENAME', NULL, NULL,
+      jsonb_build_object(
+        'display_name', v_updated.display_name,
+        'before', v_entry.display_name,
+        'after', v_updated.display_name
+      ),
+      p_actor, p_actor_entry_id
+    );
+  END IF;
+
+  RETURN v_updated;
+END;
+$$;
+
+-- Delete entry (snapshot is kept in the event for reverts)
+CREATE OR REPLACE FUNCTION delete_entry(
+  p_entry_id UUID,
+  p_actor TEXT DEFAULT NULL,
+  p_actor_entry_id UUID DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry einstand_entries;
+  v_counts JSONB;
+BEGIN
+  v_entry := get_open_entry(p_entry_id);
+  v_counts := get_entry_counts(p_entry_id);
+
+  DELETE FROM einstand_entries WHERE id = p_entry_id;
+
+  PERFORM log_event(
+    v_entry.session_id, p_entry_id, 'DELETE', NULL, NULL,
+    jsonb_build_object(
+      'display_name', v_entry.display_name,
+      'created_at', v_entry.created_at,
+      'counts', v_counts
+    ),
+    p_actor, p_actor_entry_id
+  );
+
+  RETURN TRUE;
+END;
+$$;
+
+-- ============================================================
+-- ADMIN RPC FUNCTIONS
+-- ============================================================
+
+-- Read the timeline (admin only)
+CREATE OR REPLACE FUNCTION get_session_events(
+  p_session_id UUID,
+  p_admin_secret TEXT,
+  p_limit INTEGER DEFAULT 500
+)
+RETURNS SETOF einstand_events
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM einstand_sessions
+    WHERE id = p_session_id
+      AND admin_secret = p_admin_secret
+      AND deleted_at IS NULL
+  ) THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT *
+  FROM einstand_events
+  WHERE session_id = p_session_id
+  ORDER BY created_at DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 1000);
+END;
+$$;
+
+-- Revert a single event (admin only, also while CLOSED)
+CREATE OR REPLACE FUNCTION revert_event(
+  p_session_id UUID,
+  p_admin_secret TEXT,
+  p_event_id UUID
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event einstand_events;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM einstand_sessions
+    WHERE id = p_session_id
+      AND admin_secret = p_admin_secret
+      AND deleted_at IS NULL
+  ) THEN
+    RETURN FALSE;
+  END IF;
+
+  SELECT * INTO v_event
+  FROM einstand_events
+  WHERE id = p_event_id
+    AND session_id = p_session_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event not found';
+  END IF;
+
+  IF v_event.event_type = 'REVERT' THEN
+    RAISE EXCEPTION 'A revert cannot be reverted';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM einstand_events WHERE reverts_event_id = p_event_id) THEN
+    RAISE EXCEPTION 'Event already reverted';
+  END IF;
+
+  CASE v_event.event_type
+    WHEN 'INCREMENT', 'DECREMENT' THEN
+      UPDATE einstand_entry_items
+      SET count = GREATEST(count - v_event.delta, 0)
+      WHERE entry_id = v_event.entry_id
+        AND item_id = v_event.item_id;
+
+    WHEN 'RESET' THEN
+      PERFORM restore_entry_counts(v_event.entry_id, v_event.payload->'before');
+
+    WHEN 'RENAME' THEN
+      UPDATE einstand_entries
+      SET display_name = v_event.payload->>'before'
+      WHERE id = v_event.entry_id;
+
+    WHEN 'DELETE' THEN
+      INSERT INTO einstand_entries (id, session_id, display_name, created_at)
+      VALUES (
+        v_event.entry_id,
+        p_session_id,
+        v_event.payload->>'display_name',
+        COALESCE((v_event.payload->>'created_at')::TIMESTAMPTZ, now())
+      )
+      ON CONFLICT (id) DO NOTHING;
+      PERFORM restore_entry_counts(v_event.entry_id, v_event.payload->'counts');
+
+    WHEN 'JOIN' THEN
+      DELETE FROM einstand_entries WHERE id = v_event.entry_id;
+  END CASE;
+
+  PERFORM log_event(
+    p_session_id, v_event.entry_id, 'REVERT', v_event.item_id, v_event.delta,
+    jsonb_build_object(
+      'display_name', v_event.payload->>'display_name',
+      'reverted_type', v_event.event_type
+    ),
+    'Admin', NULL, p_event_id
+  );
+
+  RETURN TRUE;
+END;
+$$;
+
+-- ============================================================
+-- LOCK DOWN DIRECT WRITES (everything goes through logged RPCs)
+-- ============================================================
+
+DROP POLICY IF EXISTS "entries_insert_open_session" ON einstand_entries;
+DROP POLICY IF EXISTS "entries_update_open_session" ON einstand_entries;
+DROP POLICY IF EXISTS "entries_delete_open_session" ON einstand_entries;
+DROP POLICY IF EXISTS "entry_items_insert_open_session" ON einstand_entry_items;
+DROP POLICY IF EXISTS "entry_items_update_open_session" ON einstand_entry_items;
+
+REVOKE INSERT, UPDATE, DELETE ON einstand_entries FROM anon, authenticated;
+REVOKE INSERT, UPDATE, DELETE ON einstand_entry_items FROM anon, authenticated;
+
+-- ============================================================
+-- ROW LEVEL SECURITY / GRANTS
+-- ============================================================
+
+-- No policies: the log is only readable through get_session_events()
+ALTER TABLE einstand_events ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON einstand_events FROM anon, authenticated;
+
+REVOKE EXECUTE ON FUNCTION log_event FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION get_open_entry FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION restore_entry_counts FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION get_entry_counts FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION join_session TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION increment_entry TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION reset_entry TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION rename_entry TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION delete_entry TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_session_events TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION revert_event TO anon, authenticated;
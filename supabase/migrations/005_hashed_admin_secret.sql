@@ -0,0 +1,398 @@
+-- ============================================================
+-- Weißwurst Einstand - Hashed Admin Secrets
+-- ============================================================
+--
+-- admin_secret used to be stored in plaintext and the base table
+-- was readable by anon, so every admin secret could be read with a
+-- plain SELECT. Now:
+--
+-- - Secrets are stored as a bcrypt hash (pgcrypto crypt/gen_salt)
+-- - einstand_sessions is closed to anon/authenticated SELECT;
+--   participants read einstand_sessions_public, admins call
+--   get_admin_session()
+-- - All admin RPCs compare against the hash via verify_admin_secret()
+-- - Session changes are pushed as realtime broadcasts on the
+--   "session:<id>" topic (postgres_changes needs SELECT on the table)
+--
+-- pgcrypto lives in the "extensions" schema on Supabase, so functions
+-- that hash use search_path = public, extensions.
+--
+-- ============================================================
+
+CREATE EXTENSION IF NOT EXISTS "pgcrypto";
+
+-- ============================================================
+-- SCHEMA: hash existing secrets
+-- ============================================================
+
+ALTER TABLE einstand_sessions ADD COLUMN IF NOT EXISTS admin_secret_hash TEXT;
+
+UPDATE einstand_sessions
+SET admin_secret_hash = crypt(admin_secret, gen_salt('bf'))
+WHERE admin_secret_hash IS NULL;
+
+ALTER TABLE einstand_sessions ALTER COLUMN admin_secret_hash SET NOT NULL;
+ALTER TABLE einstand_sessions DROP COLUMN IF EXISTS admin_secret;
+
+-- ============================================================
+-- INTERNAL HELPERS (not callable by clients)
+-- ============================================================
+
+-- Check an admin secret against the stored hash
+CREATE OR REPLACE FUNCTION verify_admin_secret(
+  p_session_id UUID,
+  p_admin_secret TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM einstand_sessions
+    WHERE id = p_session_id
+      AND p_admin_secret IS NOT NULL
+      AND admin_secret_hash = crypt(p_admin_secret, admin_secret_hash)
+  );
+$$;
+
+-- Used by RLS policies instead of reading einstand_sessions directly
+CREATE OR REPLACE FUNCTION is_session_active(p_session_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM einstand_sessions
+    WHERE id = p_session_id
+      AND deleted_at IS NULL
+  );
+$$;
+
+-- ============================================================
+-- RPC FUNCTIONS
+-- ============================================================
+
+-- Create session with its item catalog (stores the secret hashed)
+CREATE OR REPLACE FUNCTION create_session(
+  p_title TEXT,
+  p_mode TEXT,
+  p_admin_secret TEXT,
+  p_items JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_session_id UUID;
+BEGIN
+  IF jsonb_typeof(p_items) IS DISTINCT FROM 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'At least one item is required';
+  END IF;
+
+  IF p_admin_secret IS NULL OR length(p_admin_secret) < 16 THEN
+    RAISE EXCEPTION 'Admin secret too short';
+  END IF;
+
+  INSERT INTO einstand_sessions (title, mode, admin_secret_hash)
+  VALUES (p_title, p_mode, crypt(p_admin_secret, gen_salt('bf')))
+  RETURNING id INTO v_session_id;
+
+  INSERT INTO einstand_items (session_id, name, emoji, unit, price, kind, sort_order)
+  SELECT
+    v_session_id,
+    item->>'name',
+    COALESCE(NULLIF(item->>'emoji', ''), '🍽️'),
+    COALESCE(NULLIF(item->>'unit', ''), 'Stück'),
+    CASE WHEN p_mode = 'SPLIT' THEN (item->>'price')::NUMERIC ELSE NULL END,
+    COALESCE(item->>'kind', 'EXTRA'),
+    (t.ord - 1)::INTEGER
+  FROM jsonb_array_elements(p_items) WITH ORDINALITY AS t(item, ord);
+
+  RETURN v_session_id;
+END;
+$$;
+
+-- Read session for the admin page (admin only, never returns the hash)
+CREATE OR REPLACE FUNCTION get_admin_session(
+  p_session_id UUID,
+  p_admin_secret TEXT
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  mode TEXT,
+  status TEXT,
+  created_at TIMESTAMPTZ,
+  deleted_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT s.id, s.title, s.mode, s.status, s.created_at, s.deleted_at
+  FROM einstand_sessions s
+  WHERE s.id = p_session_id
+    AND s.deleted_at IS NULL
+    AND verify_admin_secret(s.id, p_admin_secret);
+$$;
+
+-- Close session (admin only)
+CREATE OR REPLACE FUNCTION close_session(
+  p_session_id UUID,
+  p_admin_secret TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_found BOOLEAN;
+BEGIN
+  UPDATE einstand_sessions
+  SET status = 'CLOSED'
+  WHERE id = p_session_id
+    AND verify_admin_secret(p_session_id, p_admin_secret)
+    AND deleted_at IS NULL
+    AND status = 'OPEN';
+
+  GET DIAGNOSTICS v_found = ROW_COUNT;
+  RETURN v_found > 0;
+END;
+$$;
+
+-- Delete session (soft delete, admin only)
+CREATE OR REPLACE FUNCTION delete_session(
+  p_session_id UUID,
+  p_admin_secret TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_found BOOLEAN;
+BEGIN
+  UPDATE einstand_sessions
+  SET deleted_at = now()
+  WHERE id = p_session_id
+    AND verify_admin_secret(p_session_id, p_admin_secret)
+    AND deleted_at IS NULL;
+
+  GET DIAGNOSTICS v_found = ROW_COUNT;
+  RETURN v_found > 0;
+END;
+$$;
+
+-- Reopen session (admin only)
+CREATE OR REPLACE FUNCTION reopen_session(
+  p_session_id UUID,
+  p_admin_secret TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_found BOOLEAN;
+BEGIN
+  UPDATE einstand_sessions
+  SET status = 'OPEN'
+  WHERE id = p_session_id
+    AND verify_admin_secret(p_session_id, p_admin_secret)
+    AND deleted_at IS NULL
+    AND status = 'CLOSED';
+
+  GET DIAGNOSTICS v_found = ROW_COUNT;
+  RETURN v_found > 0;
+END;
+$$;
+
+-- Read the timeline (admin only)
+CREATE OR REPLACE FUNCTION get_session_events(
+  p_session_id UUID,
+  p_admin_secret TEXT,
+  p_limit INTEGER DEFAULT 500
+)
+RETURNS SETOF einstand_events
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_session_active(p_session_id)
+    OR NOT verify_admin_secret(p_session_id, p_admin_secret) THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT *
+  FROM einstand_events
+  WHERE session_id = p_session_id
+  ORDER BY created_at DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 1000);
+END;
+$$;
+
+-- Revert a single event (admin only, also while CLOSED)
+CREATE OR REPLACE FUNCTION revert_event(
+  p_session_id UUID,
+  p_admin_secret TEXT,
+  p_event_id UUID
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event einstand_events;
+BEGIN
+  IF NOT is_session_active(p_session_id)
+    OR NOT verify_admin_secret(p_session_id, p_admin_secret) THEN
+    RETURN FALSE;
+  END IF;
+
+  SELECT * INTO v_event
+  FROM einstand_events
+  WHERE id = p_event_id
+    AND session_id = p_session_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event not found';
+  END IF;
+
+  IF v_event.event_type = 'REVERT' THEN
+    RAISE EXCEPTION 'A revert cannot be reverted';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM einstand_events WHERE reverts_event_id = p_event_id) THEN
+    RAISE EXCEPTION 'Event already reverted';
+  END IF;
+
+  CASE v_event.event_type
+    WHEN 'INCREMENT', 'DECREMENT' THEN
+      UPDATE einstand_entry_items
+      SET count = GREATEST(count - v_event.delta, 0)
+      WHERE entry_id = v_event.entry_id
+        AND item_id = v_event.item_id;
+
+    WHEN 'RESET' THEN
+      PERFORM restore_entry_counts(v_event.entry_id, v_event.payload->'before');
+
+    WHEN 'RENAME' THEN
+      UPDATE einstand_entries
+      SET display_name = v_event.payload->>'before'
+      WHERE id = v_event.entry_id;
+
+    WHEN 'DELETE' THEN
+      INSERT INTO einstand_entries (id, session_id, display_name, created_at)
+      VALUES (
+        v_event.entry_id,
+        p_session_id,
+        v_event.payload->>'display_name',
+        COALESCE((v_event.payload->>'created_at')::TIMESTAMPTZ, now())
+      )
+      ON CONFLICT (id) DO NOTHING;
+      PERFORM restore_entry_counts(v_event.entry_id, v_event.payload->'counts');
+
+    WHEN 'JOIN' THEN
+      DELETE FROM einstand_entries WHERE id = v_event.entry_id;
+  END CASE;
+
+  PERFORM log_event(
+    p_session_id, v_event.entry_id, 'REVERT', v_event.item_id, v_event.delta,
+    jsonb_build_object(
+      'display_name', v_event.payload->>'display_name',
+      'reverted_type', v_event.event_type
+    ),
+    'Admin', NULL, p_event_id
+  );
+
+  RETURN TRUE;
+END;
+$$;
+
+-- ============================================================
+-- REALTIME BROADCAST (replaces postgres_changes on sessions)
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION broadcast_session_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM realtime.send(
+    jsonb_build_object(
+      'id', NEW.id,
+      'title', NEW.title,
+      'mode', NEW.mode,
+      'status', NEW.status,
+      'previous_status', OLD.status,
+      'created_at', NEW.created_at,
+      'deleted', NEW.deleted_at IS NOT NULL
+    ),
+    'session_changed',
+    'session:' || NEW.id::TEXT,
+    false
+  );
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sessions_broadcast ON einstand_sessions;
+CREATE TRIGGER sessions_broadcast
+  AFTER UPDATE ON einstand_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION broadcast_session_change();
+
+ALTER PUBLICATION supabase_realtime DROP TABLE einstand_sessions;
+
+-- ============================================================
+-- ROW LEVEL SECURITY (policies must not read the closed table)
+-- ============================================================
+
+DROP POLICY IF EXISTS "sessions_select_not_deleted" ON einstand_sessions;
+REVOKE SELECT ON einstand_sessions FROM anon, authenticated;
+
+DROP POLICY IF EXISTS "entries_select_active_session" ON einstand_entries;
+CREATE POLICY "entries_select_active_session"
+  ON einstand_entries
+  FOR SELECT
+  USING (is_session_active(session_id));
+
+DROP POLICY IF EXISTS "items_select_active_session" ON einstand_items;
+CREATE POLICY "items_select_active_session"
+  ON einstand_items
+  FOR SELECT
+  USING (is_session_active(session_id));
+
+DROP POLICY IF EXISTS "entry_items_select_active_session" ON einstand_entry_items;
+CREATE POLICY "entry_items_select_active_session"
+  ON einstand_entry_items
+  FOR SELECT
+  USING (is_session_active(session_id));
+
+-- ============================================================
+-- GRANTS
+-- ============================================================
+
+REVOKE EXECUTE ON FUNCTION verify_admin_secret FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION broadcast_session_change FROM PUBLIC, anon, authenticated;
+
+-- Needed by the RLS policies above (only reveals whether a session is active)
+GRANT EXECUTE ON FUNCTION is_session_active TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_admin_session TO anon, authenticated;
@@ -0,0 +1,321 @@
+-- ============================================================
+-- Weißwurst Einstand - Per-Participant Edit Tokens
+-- ============================================================
+--
+-- Until now any anonymous client could change or delete any entry
+-- of an open session. Now every entry write needs either the edit
+-- token of that entry or the admin secret:
+--
+-- - join_session() takes an edit token generated on the device and
+--   stores its SHA-256 hash in einstand_entry_tokens
+-- - increment_entry, reset_entry, rename_entry and delete_entry take
+--   p_edit_token / p_admin_secret and check them via
+--   get_writable_entry()
+-- - Tokens are random 128 bit values, so a plain SHA-256 is enough
+--   (and cheap on every counter click); admin secrets stay bcrypt
+--
+-- Tokens have no FK to the entry, so a reverted DELETE gives the
+-- participant their access back. Entries created before this
+-- migration have no token and can only be changed by the admin.
+--
+-- ============================================================
+
+-- ============================================================
+-- TABLES
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS einstand_entry_tokens (
+  -- No FK: the token must survive a (revertable) entry deletion
+  entry_id UUID PRIMARY KEY,
+  session_id UUID NOT NULL REFERENCES einstand_sessions(id) ON DELETE CASCADE,
+  token_hash TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_entry_tokens_session_id ON einstand_entry_tokens(session_id);
+
+-- ============================================================
+-- INTERNAL HELPERS (not callable by clients)
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION hash_edit_token(p_token TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public, extensions
+AS $$
+  SELECT encode(digest(p_token, 'sha256'), 'hex');
+$$;
+
+-- Load an entry of an OPEN session the caller may change, or fail
+CREATE OR REPLACE FUNCTION get_writable_entry(
+  p_entry_id UUID,
+  p_edit_token TEXT,
+  p_admin_secret TEXT
+)
+RETURNS einstand_entries
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry einstand_entries;
+BEGIN
+  v_entry := get_open_entry(p_entry_id);
+
+  IF NOT EXISTS (
+    SELECT 1 FROM einstand_entry_tokens
+    WHERE entry_id = p_entry_id
+      AND p_edit_token IS NOT NULL
+      AND token_hash = hash_edit_token(p_edit_token)
+  ) AND NOT verify_admin_secret(v_entry.session_id, p_admin_secret) THEN
+    RAISE EXCEPTION 'Not allowed to change this entry' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN v_entry;
+END;
+$$;
+
+-- ============================================================
+-- PARTICIPANT RPC FUNCTIONS (replace the unguarded versions)
+-- ============================================================
+
+DROP FUNCTION IF EXISTS join_session(UUID, TEXT);
+DROP FUNCTION IF EXISTS increment_entry(UUID, UUID, INTEGER, TEXT, UUID);
+DROP FUNCTION IF EXISTS reset_entry(UUID, TEXT, UUID);
+DROP FUNCTION IF EXISTS rename_entry(UUID, TEXT, TEXT, UUID);
+DROP FUNCTION IF EXISTS delete_entry(UUID, TEXT, UUID);
+
+-- Join session (create entry and register its edit token)
+CREATE OR REPLACE FUNCTION join_session(
+  p_session_id UUID,
+  p_display_name TEXT,
+  p_edit_token TEXT
+)
+RETURNS einstand_entries
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry einstand_entries;
+BEGIN
+  IF p_edit_token IS NULL OR length(p_edit_token) < 16 THEN
+    RAISE EXCEPTION 'Edit token too short';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM einstand_sessions
+    WHERE id = p_session_id
+      AND status = 'OPEN'
+      AND deleted_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Session not found or not open';
+  END IF;
+
+  INSERT INTO einstand_entries (session_id, display_name)
+  VALUES (p_session_id, p_display_name)
+  RETURNING * INTO v_entry;
+
+  INSERT INTO einstand_entry_tokens (entry_id, session_id, token_hash)
+  VALUES (v_entry.id, p_session_id, hash_edit_token(p_edit_token));
+
+  PERFORM log_event(
+    p_session_id, v_entry.id, 'JOIN', NULL, NULL,
+    jsonb_build_object('display_name', v_entry.display_name),
+    v_entry.display_name, v_entry.id
+  );
+
+  RETURN v_entry;
+END;
+$$;
+
+-- Increment/decrement counter
+CREATE OR REPLACE FUNCTION increment_entry(
+  p_entry_id UUID,
+  p_item UUID,
+  p_delta INTEGER,
+  p_edit_token TEXT DEFAULT NULL,
+  p_admin_secret TEXT DEFAULT NULL,
+  p_actor TEXT DEFAULT NULL,
+  p_actor_entry_id UUID DEFAULT NULL
+)
+RETURNS einstand_entry_items
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry einstand_entries;
+  v_old_count INTEGER;
+  v_row einstand_entry_items;
+BEGIN
+  IF p_delta IS NULL OR p_delta = 0 THEN
+    RAISE EXCEPTION 'Delta must not be zero';
+  END IF;
+
+  v_entry := get_writable_entry(p_entry_id, p_edit_token, p_admin_secret);
+
+  IF NOT EXISTS (
+    SELECT 1 FROM einstand_items
+    WHERE id = p_item AND session_id = v_entry.session_id
+  ) THEN
+    RAISE EXCEPTION 'Item not found';
+  END IF;
+
+  SELECT count INTO v_old_count
+  FROM einstand_entry_items
+  WHERE entry_id = p_entry_id AND item_id = p_item
+  FOR UPDATE;
+
+  INSERT INTO einstand_entry_items (entry_id, item_id, session_id, count)
+  VALUES (p_entry_id, p_item, v_entry.session_id, GREATEST(p_delta, 0))
+  ON CONFLICT (entry_id, item_id)
+  DO UPDATE SET count = GREATEST(einstand_entry_items.count + p_delta, 0)
+  RETURNING * INTO v_row;
+
+  -- Log the delta that was actually applied (clamping may swallow it)
+  IF v_row.count <> COALESCE(v_old_count, 0) THEN
+    PERFORM log_event(
+      v_entry.session_id, p_entry_id,
+      CASE WHEN p_delta > 0 THEN 'INCREMENT' ELSE 'DECREMENT' END,
+      p_item, v_row.count - COALESCE(v_old_count, 0),
+      jsonb_build_object('display_name', v_entry.display_name),
+      p_actor, p_actor_entry_id
+    );
+  END IF;
+
+  RETURN v_row;
+END;
+$$;
+
+-- Reset all counts of an entry
+CREATE OR REPLACE FUNCTION reset_entry(
+  p_entry_id UUID,
+  p_edit_token TEXT DEFAULT NULL,
+  p_admin_secret TEXT DEFAULT NULL,
+  p_actor TEXT DEFAULT NULL,
+  p_actor_entry_id UUID DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry einstand_entries;
+  v_before JSONB;
+BEGIN
+  v_entry := get_writable_entry(p_entry_id, p_edit_token, p_admin_secret);
+  v_before := get_entry_counts(p_entry_id);
+
+  UPDATE einstand_entry_items
+  SET count = 0
+  WHERE entry_id = p_entry_id
+    AND count > 0;
+
+  IF v_before <> '{}'::jsonb THEN
+    PERFORM log_event(
+      v_entry.session_id, p_entry_id, 'RESET', NULL, NULL,
+      jsonb_build_object('display_name', v_entry.display_name, 'before', v_before),
+      p_actor, p_actor_entry_id
+    );
+  END IF;
+
+  RETURN TRUE;
+END;
+$$;
+
+-- Rename entry
+CREATE OR REPLACE FUNCTION rename_entry(
+  p_entry_id UUID,
+  p_display_name TEXT,
+  p_edit_token TEXT DEFAULT NULL,
+  p_admin_secret TEXT DEFAULT NULL,
+  p_actor TEXT DEFAULT NULL,
+  p_actor_entry_id UUID DEFAULT NULL
+)
+RETURNS einstand_entries
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry einstand_entries;
+  v_updated einstand_entries;
+BEGIN
+  v_entry := get_writable_entry(p_entry_id, p_edit_token, p_admin_secret);
+
+  UPDATE einstand_entries
+  SET display_name = p_display_name
+  WHERE id = p_entry_id
+  RETURNING * INTO v_updated;
+
+  IF v_updated.display_name IS DISTINCT FROM v_entry.display_name THEN
+    PERFORM log_event(
+      v_entry.session_id, p_entry_id, 'RENAME', NULL, NULL,
+      jsonb_build_object(
+        'display_name', v_updated.display_name,
+        'before', v_entry.display_name,
+        'after', v_updated.display_name
+      ),
+      p_actor, p_actor_entry_id
+    );
+  END IF;
+
+  RETURN v_updated;
+END;
+$$;
+
+-- Delete entry (snapshot is kept in the event for reverts)
+CREATE OR REPLACE FUNCTION delete_entry(
+  p_entry_id UUID,
+  p_edit_token TEXT DEFAULT NULL,
+  p_admin_secret TEXT DEFAULT NULL,
+  p_actor TEXT DEFAULT NULL,
+  p_actor_entry_id UUID DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry einstand_entries;
+  v_counts JSONB;
+BEGIN
+  v_entry := get_writable_entry(p_entry_id, p_edit_token, p_admin_secret);
+  v_counts := get_entry_counts(p_entry_id);
+
+  DELETE FROM einstand_entries WHERE id = p_entry_id;
+
+  PERFORM log_event(
+    v_entry.session_id, p_entry_id, 'DELETE', NULL, NULL,
+    jsonb_build_object(
+      'display_name', v_entry.display_name,
+      'created_at', v_entry.created_at,
+      'counts', v_counts
+    ),
+    p_actor, p_actor_entry_id
+  );
+
+  RETURN TRUE;
+END;
+$$;
+
+-- ============================================================
+-- ROW LEVEL SECURITY / GRANTS
+-- ============================================================
+
+-- No policies: tokens are only read by the functions above
+ALTER TABLE einstand_entry_tokens ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON einstand_entry_tokens FROM anon, authenticated;
+
+REVOKE EXECUTE ON FUNCTION hash_edit_token FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION get_writable_entry FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION join_session TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION increment_entry TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION reset_entry TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION rename_entry TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION delete_entry TO anon, authenticated;
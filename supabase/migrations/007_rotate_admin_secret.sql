@@ -0,0 +1,42 @@
+-- ============================================================
+-- Weißwurst Einstand - Admin Secret Rotation
+-- ============================================================
+--
+-- Admin links get forwarded by accident. rotate_admin_secret()
+-- replaces the secret hash, so the old ?key= stops working
+-- immediately without deleting the session.
+--
+-- The new secret is generated on the client (like in
+-- create_session) and only its hash is stored.
+--
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION rotate_admin_secret(
+  p_session_id UUID,
+  p_admin_secret TEXT,
+  p_new_admin_secret TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_found BOOLEAN;
+BEGIN
+  IF p_new_admin_secret IS NULL OR length(p_new_admin_secret) < 16 THEN
+    RAISE EXCEPTION 'Admin secret too short';
+  END IF;
+
+  UPDATE einstand_sessions
+  SET admin_secret_hash = crypt(p_new_admin_secret, gen_salt('bf'))
+  WHERE id = p_session_id
+    AND verify_admin_secret(p_session_id, p_admin_secret)
+    AND deleted_at IS NULL;
+
+  GET DIAGNOSTICS v_found = ROW_COUNT;
+  RETURN v_found > 0;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION rotate_admin_secret TO anon, authenticated;
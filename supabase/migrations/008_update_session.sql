@@ -0,0 +1,100 @@
+-- ============================================================
+-- Weißwurst Einstand - Edit Session Settings
+-- ============================================================
+--
+-- Title, mode and the item catalog could only be set once in
+-- create_session(). update_session() changes them later (admin
+-- only), e.g. when the butcher's price changes or the event
+-- switches from INVITE to SPLIT.
+--
+-- p_items: [{ "id"?, "name", "emoji", "unit", "price", "kind" }, ...]
+-- - Items with the id of an existing item are updated (kind stays)
+-- - Items without a known id are added
+-- - Missing items are removed, unless someone already has counts
+-- - Prices are only stored in SPLIT mode (like create_session)
+--
+-- The session row is always touched, so the sessions_broadcast
+-- trigger notifies open SessionPage clients on "session:<id>".
+--
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION update_session(
+  p_session_id UUID,
+  p_admin_secret TEXT,
+  p_title TEXT,
+  p_mode TEXT,
+  p_items JSONB
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item JSONB;
+  v_ord BIGINT;
+BEGIN
+  IF NOT is_session_active(p_session_id)
+    OR NOT verify_admin_secret(p_session_id, p_admin_secret) THEN
+    RETURN FALSE;
+  END IF;
+
+  IF jsonb_typeof(p_items) IS DISTINCT FROM 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'At least one item is required';
+  END IF;
+
+  -- Items that are removed must not have counts
+  IF EXISTS (
+    SELECT 1 FROM einstand_entry_items ei
+    WHERE ei.session_id = p_session_id
+      AND ei.count > 0
+      AND ei.item_id::TEXT NOT IN (
+        SELECT COALESCE(item->>'id', '') FROM jsonb_array_elements(p_items) AS item
+      )
+  ) THEN
+    RAISE EXCEPTION 'Cannot remove an item that has already been counted';
+  END IF;
+
+  DELETE FROM einstand_items
+  WHERE session_id = p_session_id
+    AND id::TEXT NOT IN (
+      SELECT COALESCE(item->>'id', '') FROM jsonb_array_elements(p_items) AS item
+    );
+
+  FOR v_item, v_ord IN
+    SELECT t.item, t.ord FROM jsonb_array_elements(p_items) WITH ORDINALITY AS t(item, ord)
+  LOOP
+    UPDATE einstand_items
+    SET
+      name = v_item->>'name',
+      emoji = COALESCE(NULLIF(v_item->>'emoji', ''), '🍽️'),
+      unit = COALESCE(NULLIF(v_item->>'unit', ''), 'Stück'),
+      price = CASE WHEN p_mode = 'SPLIT' THEN (v_item->>'price')::NUMERIC ELSE NULL END,
+      sort_order = (v_ord - 1)::INTEGER
+    WHERE session_id = p_session_id
+      AND id::TEXT = v_item->>'id';
+
+    IF NOT FOUND THEN
+      INSERT INTO einstand_items (session_id, name, emoji, unit, price, kind, sort_order)
+      VALUES (
+        p_session_id,
+        v_item->>'name',
+        COALESCE(NULLIF(v_item->>'emoji', ''), '🍽️'),
+        COALESCE(NULLIF(v_item->>'unit', ''), 'Stück'),
+        CASE WHEN p_mode = 'SPLIT' THEN (v_item->>'price')::NUMERIC ELSE NULL END,
+        COALESCE(v_item->>'kind', 'EXTRA'),
+        (v_ord - 1)::INTEGER
+      );
+    END IF;
+  END LOOP;
+
+  UPDATE einstand_sessions
+  SET title = p_title,
+      mode = p_mode
+  WHERE id = p_session_id;
+
+  RETURN TRUE;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION update_session TO anon, authenticated;
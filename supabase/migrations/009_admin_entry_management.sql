@@ -0,0 +1,248 @@
+-- ============================================================
+-- Weißwurst Einstand - Admin Entry Management
+-- ============================================================
+--
+-- The organizer reconciles the bill, usually after closing the
+-- session. With the admin secret they can now:
+--
+-- - rename and delete entries (rename_entry/delete_entry with
+--   p_admin_secret), also while the session is CLOSED
+-- - set an absolute count (set_entry_count)
+-- - add a participant without a phone (admin_add_entry)
+-- - merge duplicate entries (merge_entries)
+--
+-- Everything is logged with actor 'Admin'. A merge is logged as
+-- INCREMENTs on the target plus a DELETE of the source, so every
+-- part of it can be reverted from the timeline.
+--
+-- ============================================================
+
+-- ============================================================
+-- INTERNAL HELPERS (not callable by clients)
+-- ============================================================
+
+-- Admins may change entries of OPEN and CLOSED sessions,
+-- participants only their own entry while OPEN
+CREATE OR REPLACE FUNCTION get_writable_entry(
+  p_entry_id UUID,
+  p_edit_token TEXT,
+  p_admin_secret TEXT
+)
+RETURNS einstand_entries
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry einstand_entries;
+BEGIN
+  SELECT e.* INTO v_entry
+  FROM einstand_entries e
+  JOIN einstand_sessions s ON s.id = e.session_id
+  WHERE e.id = p_entry_id
+    AND s.deleted_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Entry not found';
+  END IF;
+
+  IF verify_admin_secret(v_entry.session_id, p_admin_secret) THEN
+    RETURN v_entry;
+  END IF;
+
+  v_entry := get_open_entry(p_entry_id);
+
+  IF NOT EXISTS (
+    SELECT 1 FROM einstand_entry_tokens
+    WHERE entry_id = p_entry_id
+      AND p_edit_token IS NOT NULL
+      AND token_hash = hash_edit_token(p_edit_token)
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to change this entry' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN v_entry;
+END;
+$$;
+
+-- ============================================================
+-- ADMIN RPC FUNCTIONS
+-- ============================================================
+
+-- Set an absolute count (admin only, also while CLOSED)
+CREATE OR REPLACE FUNCTION set_entry_count(
+  p_entry_id UUID,
+  p_item UUID,
+  p_count INTEGER,
+  p_admin_secret TEXT
+)
+RETURNS einstand_entry_items
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry einstand_entries;
+  v_old_count INTEGER;
+  v_row einstand_entry_items;
+BEGIN
+  IF p_count IS NULL OR p_count < 0 THEN
+    RAISE EXCEPTION 'Count must not be negative';
+  END IF;
+
+  -- No edit token: only the admin path of get_writable_entry can pass
+  v_entry := get_writable_entry(p_entry_id, NULL, p_admin_secret);
+
+  IF NOT EXISTS (
+    SELECT 1 FROM einstand_items
+    WHERE id = p_item AND session_id = v_entry.session_id
+  ) THEN
+    RAISE EXCEPTION 'Item not found';
+  END IF;
+
+  SELECT count INTO v_old_count
+  FROM einstand_entry_items
+  WHERE entry_id = p_entry_id AND item_id = p_item
+  FOR UPDATE;
+
+  INSERT INTO einstand_entry_items (entry_id, item_id, session_id, count)
+  VALUES (p_entry_id, p_item, v_entry.session_id, p_count)
+  ON CONFLICT (entry_id, item_id)
+  DO UPDATE SET count = p_count
+  RETURNING * INTO v_row;
+
+  IF p_count <> COALESCE(v_old_count, 0) THEN
+    PERFORM log_event(
+      v_entry.session_id, p_entry_id,
+      CASE WHEN p_count > COALESCE(v_old_count, 0) THEN 'INCREMENT' ELSE 'DECREMENT' END,
+      p_item, p_count - COALESCE(v_old_count, 0),
+      jsonb_build_object('display_name', v_entry.display_name),
+      'Admin', NULL
+    );
+  END IF;
+
+  RETURN v_row;
+END;
+$$;
+
+-- Add a participant (admin only, also while CLOSED)
+CREATE OR REPLACE FUNCTION admin_add_entry(
+  p_session_id UUID,
+  p_admin_secret TEXT,
+  p_display_name TEXT
+)
+RETURNS einstand_entries
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry einstand_entries;
+BEGIN
+  IF NOT is_session_active(p_session_id)
+    OR NOT verify_admin_secret(p_session_id, p_admin_secret) THEN
+    RAISE EXCEPTION 'Session not found or invalid admin secret';
+  END IF;
+
+  IF p_display_name IS NULL OR btrim(p_display_name) = '' THEN
+    RAISE EXCEPTION 'Name must not be empty';
+  END IF;
+
+  INSERT INTO einstand_entries (session_id, display_name)
+  VALUES (p_session_id, btrim(p_display_name))
+  RETURNING * INTO v_entry;
+
+  PERFORM log_event(
+    p_session_id, v_entry.id, 'JOIN', NULL, NULL,
+    jsonb_build_object('display_name', v_entry.display_name),
+    'Admin', NULL
+  );
+
+  RETURN v_entry;
+END;
+$$;
+
+-- Merge a duplicate entry into another one (admin only, also while CLOSED)
+CREATE OR REPLACE FUNCTION merge_entries(
+  p_session_id UUID,
+  p_admin_secret TEXT,
+  p_source_entry_id UUID,
+  p_target_entry_id UUID
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_source einstand_entries;
+  v_target einstand_entries;
+  v_counts JSONB;
+  v_item_id UUID;
+  v_count INTEGER;
+BEGIN
+  IF NOT is_session_active(p_session_id)
+    OR NOT verify_admin_secret(p_session_id, p_admin_secret) THEN
+    RETURN FALSE;
+  END IF;
+
+  IF p_source_entry_id = p_target_entry_id THEN
+    RAISE EXCEPTION 'Cannot merge an entry into itself';
+  END IF;
+
+  SELECT * INTO v_source
+  FROM einstand_entries
+  WHERE id = p_source_entry_id AND session_id = p_session_id
+  FOR UPDATE;
+
+  SELECT * INTO v_target
+  FROM einstand_entries
+  WHERE id = p_target_entry_id AND session_id = p_session_id
+  FOR UPDATE;
+
+  IF v_source.id IS NULL OR v_target.id IS NULL THEN
+    RAISE EXCEPTION 'Entry not found';
+  END IF;
+
+  v_counts := get_entry_counts(p_source_entry_id);
+
+  -- Move counts to the target, one logged INCREMENT per item
+  FOR v_item_id, v_count IN
+    SELECT key::UUID, value::INTEGER FROM jsonb_each_text(v_counts)
+  LOOP
+    INSERT INTO einstand_entry_items (entry_id, item_id, session_id, count)
+    VALUES (p_target_entry_id, v_item_id, p_session_id, v_count)
+    ON CONFLICT (entry_id, item_id)
+    DO UPDATE SET count = einstand_entry_items.count + EXCLUDED.count;
+
+    PERFORM log_event(
+      p_session_id, p_target_entry_id, 'INCREMENT', v_item_id, v_count,
+      jsonb_build_object('display_name', v_target.display_name, 'merged_from', v_source.display_name),
+      'Admin', NULL
+    );
+  END LOOP;
+
+  DELETE FROM einstand_entries WHERE id = p_source_entry_id;
+
+  PERFORM log_event(
+    p_session_id, p_source_entry_id, 'DELETE', NULL, NULL,
+    jsonb_build_object(
+      'display_name', v_source.display_name,
+      'created_at', v_source.created_at,
+      'counts', v_counts,
+      'merged_into', v_target.display_name
+    ),
+    'Admin', NULL
+  );
+
+  RETURN TRUE;
+END;
+$$;
+
+-- ============================================================
+-- GRANTS
+-- ============================================================
+
+GRANT EXECUTE ON FUNCTION set_entry_count TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION admin_add_entry TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION merge_entries TO anon, authenticated;
@@ -0,0 +1,138 @@
+-- ============================================================
+-- Weißwurst Einstand - Restore and Purge Deleted Sessions
+-- ============================================================
+--
+-- delete_session() only sets deleted_at. Now:
+--
+-- - restore_session() undoes the deletion with the admin link,
+--   for session_retention_days() after deleting
+-- - get_admin_session() also returns sessions inside that window
+--   (deleted_at set, purge_after = when the rows are gone), so the
+--   AdminPage can offer the restore
+-- - purge_deleted_sessions() hard-deletes sessions past the window;
+--   entries, items, counts, tokens and events go with them
+--   (ON DELETE CASCADE). It runs daily via pg_cron where available,
+--   otherwise call it from any scheduler:
+--     SELECT purge_deleted_sessions();
+--
+-- ============================================================
+
+-- ============================================================
+-- INTERNAL HELPERS (not callable by clients)
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION session_retention_days()
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT 14;
+$$;
+
+-- ============================================================
+-- ADMIN RPC FUNCTIONS
+-- ============================================================
+
+-- Read session for the admin page, including recently deleted ones
+DROP FUNCTION IF EXISTS get_admin_session(UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION get_admin_session(
+  p_session_id UUID,
+  p_admin_secret TEXT
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  mode TEXT,
+  status TEXT,
+  created_at TIMESTAMPTZ,
+  deleted_at TIMESTAMPTZ,
+  purge_after TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    s.id, s.title, s.mode, s.status, s.created_at, s.deleted_at,
+    s.deleted_at + make_interval(days => session_retention_days())
+  FROM einstand_sessions s
+  WHERE s.id = p_session_id
+    AND (
+      s.deleted_at IS NULL
+      OR s.deleted_at > now() - make_interval(days => session_retention_days())
+    )
+    AND verify_admin_secret(s.id, p_admin_secret);
+$$;
+
+-- Undo a soft delete (admin only, inside the retention window)
+CREATE OR REPLACE FUNCTION restore_session(
+  p_session_id UUID,
+  p_admin_secret TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_found BOOLEAN;
+BEGIN
+  UPDATE einstand_sessions
+  SET deleted_at = NULL
+  WHERE id = p_session_id
+    AND verify_admin_secret(p_session_id, p_admin_secret)
+    AND deleted_at IS NOT NULL
+    AND deleted_at > now() - make_interval(days => session_retention_days());
+
+  GET DIAGNOSTICS v_found = ROW_COUNT;
+  RETURN v_found > 0;
+END;
+$$;
+
+-- ============================================================
+-- PURGE JOB
+-- ============================================================
+
+-- Hard-delete sessions whose retention window has passed
+CREATE OR REPLACE FUNCTION purge_deleted_sessions()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  DELETE FROM einstand_sessions
+  WHERE deleted_at IS NOT NULL
+    AND deleted_at <= now() - make_interval(days => session_retention_days());
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+-- Daily at 03:17 if pg_cron is available (Supabase: enable it under Database > Extensions)
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron') THEN
+    CREATE EXTENSION IF NOT EXISTS pg_cron;
+    PERFORM cron.schedule(
+      'purge-deleted-einstand-sessions',
+      '17 3 * * *',
+      'SELECT public.purge_deleted_sessions()'
+    );
+  END IF;
+END;
+$$;
+
+-- ============================================================
+-- GRANTS
+-- ============================================================
+
+REVOKE EXECUTE ON FUNCTION purge_deleted_sessions FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION get_admin_session TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION restore_session TO anon, authenticated;
@@ -0,0 +1,73 @@
+-- ============================================================
+-- Weißwurst Einstand - Clone Session as Template
+-- ============================================================
+--
+-- clone_session() creates a new session with the mode and item
+-- catalog (incl. prices) of an existing one (admin only). The new
+-- admin secret is generated on the client, like in create_session.
+--
+-- With p_copy_participants the previous participants are added to
+-- the new session with zero counts. They have no edit token yet,
+-- so until they claim their entry only the admin can change it.
+--
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION clone_session(
+  p_session_id UUID,
+  p_admin_secret TEXT,
+  p_new_admin_secret TEXT,
+  p_title TEXT,
+  p_copy_participants BOOLEAN DEFAULT FALSE
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_source einstand_sessions;
+  v_new_id UUID;
+  v_entry einstand_entries;
+BEGIN
+  IF NOT is_session_active(p_session_id)
+    OR NOT verify_admin_secret(p_session_id, p_admin_secret) THEN
+    RAISE EXCEPTION 'Session not found or invalid admin secret';
+  END IF;
+
+  IF p_new_admin_secret IS NULL OR length(p_new_admin_secret) < 16 THEN
+    RAISE EXCEPTION 'Admin secret too short';
+  END IF;
+
+  SELECT * INTO v_source FROM einstand_sessions WHERE id = p_session_id;
+
+  INSERT INTO einstand_sessions (title, mode, admin_secret_hash)
+  VALUES (p_title, v_source.mode, crypt(p_new_admin_secret, gen_salt('bf')))
+  RETURNING id INTO v_new_id;
+
+  INSERT INTO einstand_items (session_id, name, emoji, unit, price, kind, sort_order)
+  SELECT v_new_id, name, emoji, unit, price, kind, sort_order
+  FROM einstand_items
+  WHERE session_id = p_session_id;
+
+  IF p_copy_participants THEN
+    FOR v_entry IN
+      INSERT INTO einstand_entries (session_id, display_name)
+      SELECT v_new_id, display_name
+      FROM einstand_entries
+      WHERE session_id = p_session_id
+      ORDER BY created_at
+      RETURNING *
+    LOOP
+      PERFORM log_event(
+        v_new_id, v_entry.id, 'JOIN', NULL, NULL,
+        jsonb_build_object('display_name', v_entry.display_name),
+        'Admin', NULL
+      );
+    END LOOP;
+  END IF;
+
+  RETURN v_new_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION clone_session TO anon, authenticated;
@@ -0,0 +1,679 @@
+-- ============================================================
+-- Weißwurst Einstand - Admin Roles (Owner and Co-Host)
+-- ============================================================
+--
+-- Until now a single admin secret granted everything. Secrets now
+-- live in einstand_session_roles, one bcrypt hash per role:
+--
+-- - OWNER:  everything (the existing admin links keep working)
+-- - COHOST: view, correct entries and counts, close and reopen;
+--           no settings, no deleting, no cloning, no link management
+--
+-- Each admin RPC checks one permission via has_admin_permission().
+-- The matrix lives in role_has_permission() and is mirrored in
+-- src/utils/adminRoles.ts. verify_admin_secret() now means "is the
+-- owner", so RPCs not redefined here (update_session, delete_session,
+-- restore_session) stay owner-only. Entry changes go through
+-- get_writable_entry(), which now also accepts the co-host secret.
+--
+-- ============================================================
+
+-- ============================================================
+-- TABLES
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS einstand_session_roles (
+  session_id UUID NOT NULL REFERENCES einstand_sessions(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('OWNER', 'COHOST')),
+  secret_hash TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (session_id, role)
+);
+
+-- Move existing admin secrets over as owner secrets
+INSERT INTO einstand_session_roles (session_id, role, secret_hash)
+SELECT id, 'OWNER', admin_secret_hash
+FROM einstand_sessions
+ON CONFLICT (session_id, role) DO NOTHING;
+
+ALTER TABLE einstand_sessions DROP COLUMN IF EXISTS admin_secret_hash;
+
+-- ============================================================
+-- INTERNAL HELPERS (not callable by clients)
+-- ============================================================
+
+-- Role of a secret for a session, NULL if it matches none
+CREATE OR REPLACE FUNCTION get_admin_role(
+  p_session_id UUID,
+  p_admin_secret TEXT
+)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT role
+  FROM einstand_session_roles
+  WHERE session_id = p_session_id
+    AND p_admin_secret IS NOT NULL
+    AND secret_hash = crypt(p_admin_secret, secret_hash)
+  ORDER BY role = 'OWNER' DESC
+  LIMIT 1;
+$$;
+
+-- Permissions: view, edit_entries, close, settings, delete, manage_links, clone
+CREATE OR REPLACE FUNCTION role_has_permission(
+  p_role TEXT,
+  p_permission TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_role
+    WHEN 'OWNER' THEN TRUE
+    WHEN 'COHOST' THEN p_permission IN ('view', 'edit_entries', 'close')
+    ELSE FALSE
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION has_admin_permission(
+  p_session_id UUID,
+  p_admin_secret TEXT,
+  p_permission TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role_has_permission(get_admin_role(p_session_id, p_admin_secret), p_permission);
+$$;
+
+-- Owner check, used by all owner-only RPCs
+CREATE OR REPLACE FUNCTION verify_admin_secret(
+  p_session_id UUID,
+  p_admin_secret TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(get_admin_role(p_session_id, p_admin_secret) = 'OWNER', FALSE);
+$$;
+
+-- Owner and co-host may change entries of OPEN and CLOSED sessions,
+-- participants only their own entry while OPEN
+CREATE OR REPLACE FUNCTION get_writable_entry(
+  p_entry_id UUID,
+  p_edit_token TEXT,
+  p_admin_secret TEXT
+)
+RETURNS einstand_entries
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry einstand_entries;
+BEGIN
+  SELECT e.* INTO v_entry
+  FROM einstand_entries e
+  JOIN einstand_sessions s ON s.id = e.session_id
+  WHERE e.id = p_entry_id
+    AND s.deleted_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Entry not found';
+  END IF;
+
+  IF has_admin_permission(v_entry.session_id, p_admin_secret, 'edit_entries') THEN
+    RETURN v_entry;
+  END IF;
+
+  v_entry := get_open_entry(p_entry_id);
+
+  IF NOT EXISTS (
+    SELECT 1 FROM einstand_entry_tokens
+    WHERE entry_id = p_entry_id
+      AND p_edit_token IS NOT NULL
+      AND token_hash = hash_edit_token(p_edit_token)
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to change this entry' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN v_entry;
+END;
+$$;
+
+-- ============================================================
+-- SESSION RPC FUNCTIONS (owner secret in the roles table)
+-- ============================================================
+
+-- Create session with its item catalog (owner secret goes to the roles table)
+CREATE OR REPLACE FUNCTION create_session(
+  p_title TEXT,
+  p_mode TEXT,
+  p_admin_secret TEXT,
+  p_items JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_session_id UUID;
+BEGIN
+  IF jsonb_typeof(p_items) IS DISTINCT FROM 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'At least one item is required';
+  END IF;
+
+  IF p_admin_secret IS NULL OR length(p_admin_secret) < 16 THEN
+    RAISE EXCEPTION 'Admin secret too short';
+  END IF;
+
+  INSERT INTO einstand_sessions (title, mode)
+  VALUES (p_title, p_mode)
+  RETURNING id INTO v_session_id;
+
+  INSERT INTO einstand_session_roles (session_id, role, secret_hash)
+  VALUES (v_session_id, 'OWNER', crypt(p_admin_secret, gen_salt('bf')));
+
+  INSERT INTO einstand_items (session_id, name, emoji, unit, price, kind, sort_order)
+  SELECT
+    v_session_id,
+    item->>'name',
+    COALESCE(NULLIF(item->>'emoji', ''), '🍽️'),
+    COALESCE(NULLIF(item->>'unit', ''), 'Stück'),
+    CASE WHEN p_mode = 'SPLIT' THEN (item->>'price')::NUMERIC ELSE NULL END,
+    COALESCE(item->>'kind', 'EXTRA'),
+    (t.ord - 1)::INTEGER
+  FROM jsonb_array_elements(p_items) WITH ORDINALITY AS t(item, ord);
+
+  RETURN v_session_id;
+END;
+$$;
+
+-- Clone mode and item catalog into a new session (owner only)
+CREATE OR REPLACE FUNCTION clone_session(
+  p_session_id UUID,
+  p_admin_secret TEXT,
+  p_new_admin_secret TEXT,
+  p_title TEXT,
+  p_copy_participants BOOLEAN DEFAULT FALSE
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_source einstand_sessions;
+  v_new_id UUID;
+  v_entry einstand_entries;
+BEGIN
+  IF NOT is_session_active(p_session_id)
+    OR NOT verify_admin_secret(p_session_id, p_admin_secret) THEN
+    RAISE EXCEPTION 'Session not found or invalid admin secret';
+  END IF;
+
+  IF p_new_admin_secret IS NULL OR length(p_new_admin_secret) < 16 THEN
+    RAISE EXCEPTION 'Admin secret too short';
+  END IF;
+
+  SELECT * INTO v_source FROM einstand_sessions WHERE id = p_session_id;
+
+  INSERT INTO einstand_sessions (title, mode)
+  VALUES (p_title, v_source.mode)
+  RETURNING id INTO v_new_id;
+
+  INSERT INTO einstand_session_roles (session_id, role, secret_hash)
+  VALUES (v_new_id, 'OWNER', crypt(p_new_admin_secret, gen_salt('bf')));
+
+  INSERT INTO einstand_items (session_id, name, emoji, unit, price, kind, sort_order)
+  SELECT v_new_id, name, emoji, unit, price, kind, sort_order
+  FROM einstand_items
+  WHERE session_id = p_session_id;
+
+  IF p_copy_participants THEN
+    FOR v_entry IN
+      INSERT INTO einstand_entries (session_id, display_name)
+      SELECT v_new_id, display_name
+      FROM einstand_entries
+      WHERE session_id = p_session_id
+      ORDER BY created_at
+      RETURNING *
+    LOOP
+      PERFORM log_event(
+        v_new_id, v_entry.id, 'JOIN', NULL, NULL,
+        jsonb_build_object('display_name', v_entry.display_name),
+        'Admin', NULL
+      );
+    END LOOP;
+  END IF;
+
+  RETURN v_new_id;
+END;
+$$;
+
+-- Replace the owner secret (owner only)
+CREATE OR REPLACE FUNCTION rotate_admin_secret(
+  p_session_id UUID,
+  p_admin_secret TEXT,
+  p_new_admin_secret TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_found BOOLEAN;
+BEGIN
+  IF p_new_admin_secret IS NULL OR length(p_new_admin_secret) < 16 THEN
+    RAISE EXCEPTION 'Admin secret too short';
+  END IF;
+
+  UPDATE einstand_session_roles
+  SET secret_hash = crypt(p_new_admin_secret, gen_salt('bf'))
+  WHERE session_id = p_session_id
+    AND role = 'OWNER'
+    AND is_session_active(p_session_id)
+    AND verify_admin_secret(p_session_id, p_admin_secret);
+
+  GET DIAGNOSTICS v_found = ROW_COUNT;
+  RETURN v_found > 0;
+END;
+$$;
+
+-- ============================================================
+-- ADMIN RPC FUNCTIONS (one permission per action)
+-- ============================================================
+
+DROP FUNCTION IF EXISTS get_admin_session(UUID, TEXT);
+
+-- Read session for the admin page with the caller's role
+CREATE OR REPLACE FUNCTION get_admin_session(
+  p_session_id UUID,
+  p_admin_secret TEXT
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  mode TEXT,
+  status TEXT,
+  created_at TIMESTAMPTZ,
+  deleted_at TIMESTAMPTZ,
+  purge_after TIMESTAMPTZ,
+  role TEXT,
+  has_cohost BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    s.id, s.title, s.mode, s.status, s.created_at, s.deleted_at,
+    s.deleted_at + make_interval(days => session_retention_days()),
+    r.role,
+    EXISTS (
+      SELECT 1 FROM einstand_session_roles c
+      WHERE c.session_id = s.id AND c.role = 'COHOST'
+    )
+  FROM einstand_sessions s
+  CROSS JOIN LATERAL (SELECT get_admin_role(s.id, p_admin_secret) AS role) r
+  WHERE s.id = p_session_id
+    AND (
+      s.deleted_at IS NULL
+      OR s.deleted_at > now() - make_interval(days => session_retention_days())
+    )
+    AND role_has_permission(r.role, 'view');
+$$;
+
+-- Close session (owner and co-host)
+CREATE OR REPLACE FUNCTION close_session(
+  p_session_id UUID,
+  p_admin_secret TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_found BOOLEAN;
+BEGIN
+  UPDATE einstand_sessions
+  SET status = 'CLOSED'
+  WHERE id = p_session_id
+    AND has_admin_permission(p_session_id, p_admin_secret, 'close')
+    AND deleted_at IS NULL
+    AND status = 'OPEN';
+
+  GET DIAGNOSTICS v_found = ROW_COUNT;
+  RETURN v_found > 0;
+END;
+$$;
+
+-- Reopen session (owner and co-host)
+CREATE OR REPLACE FUNCTION reopen_session(
+  p_session_id UUID,
+  p_admin_secret TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_found BOOLEAN;
+BEGIN
+  UPDATE einstand_sessions
+  SET status = 'OPEN'
+  WHERE id = p_session_id
+    AND has_admin_permission(p_session_id, p_admin_secret, 'close')
+    AND deleted_at IS NULL
+    AND status = 'CLOSED';
+
+  GET DIAGNOSTICS v_found = ROW_COUNT;
+  RETURN v_found > 0;
+END;
+$$;
+
+-- Read the timeline (owner and co-host)
+CREATE OR REPLACE FUNCTION get_session_events(
+  p_session_id UUID,
+  p_admin_secret TEXT,
+  p_limit INTEGER DEFAULT 500
+)
+RETURNS SETOF einstand_events
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_session_active(p_session_id)
+    OR NOT has_admin_permission(p_session_id, p_admin_secret, 'view') THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT *
+  FROM einstand_events
+  WHERE session_id = p_session_id
+  ORDER BY created_at DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 1000);
+END;
+$$;
+
+-- Revert a single event (owner and co-host, also while CLOSED)
+CREATE OR REPLACE FUNCTION revert_event(
+  p_session_id UUID,
+  p_admin_secret TEXT,
+  p_event_id UUID
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event einstand_events;
+BEGIN
+  IF NOT is_session_active(p_session_id)
+    OR NOT has_admin_permission(p_session_id, p_admin_secret, 'edit_entries') THEN
+    RETURN FALSE;
+  END IF;
+
+  SELECT * INTO v_event
+  FROM einstand_events
+  WHERE id = p_event_id
+    AND session_id = p_session_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event not found';
+  END IF;
+
+  IF v_event.event_type = 'REVERT' THEN
+    RAISE EXCEPTION 'A revert cannot be reverted';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM einstand_events WHERE reverts_event_id = p_event_id) THEN
+    RAISE EXCEPTION 'Event already reverted';
+  END IF;
+
+  CASE v_event.event_type
+    WHEN 'INCREMENT', 'DECREMENT' THEN
+      UPDATE einstand_entry_items
+      SET count = GREATEST(count - v_event.delta, 0)
+      WHERE entry_id = v_event.entry_id
+        AND item_id = v_event.item_id;
+
+    WHEN 'RESET' THEN
+      PERFORM restore_entry_counts(v_event.entry_id, v_event.payload->'before');
+
+    WHEN 'RENAME' THEN
+      UPDATE einstand_entries
+      SET display_name = v_event.payload->>'before'
+      WHERE id = v_event.entry_id;
+
+    WHEN 'DELETE' THEN
+      INSERT INTO einstand_entries (id, session_id, display_name, created_at)
+      VALUES (
+        v_event.entry_id,
+        p_session_id,
+        v_event.payload->>'display_name',
+        COALESCE((v_event.payload->>'created_at')::TIMESTAMPTZ, now())
+      )
+      ON CONFLICT (id) DO NOTHING;
+      PERFORM restore_entry_counts(v_event.entry_id, v_event.payload->'counts');
+
+    WHEN 'JOIN' THEN
+      DELETE FROM einstand_entries WHERE id = v_event.entry_id;
+  END CASE;
+
+  PERFORM log_event(
+    p_session_id, v_event.entry_id, 'REVERT', v_event.item_id, v_event.delta,
+    jsonb_build_object(
+      'display_name', v_event.payload->>'display_name',
+      'reverted_type', v_event.event_type
+    ),
+    'Admin', NULL, p_event_id
+  );
+
+  RETURN TRUE;
+END;
+$$;
+
+-- Add a participant (owner and co-host, also while CLOSED)
+CREATE OR REPLACE FUNCTION admin_add_entry(
+  p_session_id UUID,
+  p_admin_secret TEXT,
+  p_display_name TEXT
+)
+RETURNS einstand_entries
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry einstand_entries;
+BEGIN
+  IF NOT is_session_active(p_session_id)
+    OR NOT has_admin_permission(p_session_id, p_admin_secret, 'edit_entries') THEN
+    RAISE EXCEPTION 'Session not found or invalid admin secret';
+  END IF;
+
+  IF p_display_name IS NULL OR btrim(p_display_name) = '' THEN
+    RAISE EXCEPTION 'Name must not be empty';
+  END IF;
+
+  INSERT INTO einstand_entries (session_id, display_name)
+  VALUES (p_session_id, btrim(p_display_name))
+  RETURNING * INTO v_entry;
+
+  PERFORM log_event(
+    p_session_id, v_entry.id, 'JOIN', NULL, NULL,
+    jsonb_build_object('display_name', v_entry.display_name),
+    'Admin', NULL
+  );
+
+  RETURN v_entry;
+END;
+$$;
+
+-- Merge a duplicate entry into another one (owner and co-host, also while CLOSED)
+CREATE OR REPLACE FUNCTION merge_entries(
+  p_session_id UUID,
+  p_admin_secret TEXT,
+  p_source_entry_id UUID,
+  p_target_entry_id UUID
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_source einstand_entries;
+  v_target einstand_entries;
+  v_counts JSONB;
+  v_item_id UUID;
+  v_count INTEGER;
+BEGIN
+  IF NOT is_session_active(p_session_id)
+    OR NOT has_admin_permission(p_session_id, p_admin_secret, 'edit_entries') THEN
+    RETURN FALSE;
+  END IF;
+
+  IF p_source_entry_id = p_target_entry_id THEN
+    RAISE EXCEPTION 'Cannot merge an entry into itself';
+  END IF;
+
+  SELECT * INTO v_source
+  FROM einstand_entries
+  WHERE id = p_source_entry_id AND session_id = p_session_id
+  FOR UPDATE;
+
+  SELECT * INTO v_target
+  FROM einstand_entries
+  WHERE id = p_target_entry_id AND session_id = p_session_id
+  FOR UPDATE;
+
+  IF v_source.id IS NULL OR v_target.id IS NULL THEN
+    RAISE EXCEPTION 'Entry not found';
+  END IF;
+
+  v_counts := get_entry_counts(p_source_entry_id);
+
+  -- Move counts to the target, one logged INCREMENT per item
+  FOR v_item_id, v_count IN
+    SELECT key::UUID, value::INTEGER FROM jsonb_each_text(v_counts)
+  LOOP
+    INSERT INTO einstand_entry_items (entry_id, item_id, session_id, count)
+    VALUES (p_target_entry_id, v_item_id, p_session_id, v_count)
+    ON CONFLICT (entry_id, item_id)
+    DO UPDATE SET count = einstand_entry_items.count + EXCLUDED.count;
+
+    PERFORM log_event(
+      p_session_id, p_target_entry_id, 'INCREMENT', v_item_id, v_count,
+      jsonb_build_object('display_name', v_target.display_name, 'merged_from', v_source.display_name),
+      'Admin', NULL
+    );
+  END LOOP;
+
+  DELETE FROM einstand_entries WHERE id = p_source_entry_id;
+
+  PERFORM log_event(
+    p_session_id, p_source_entry_id, 'DELETE', NULL, NULL,
+    jsonb_build_object(
+      'display_name', v_source.display_name,
+      'created_at', v_source.created_at,
+      'counts', v_counts,
+      'merged_into', v_target.display_name
+    ),
+    'Admin', NULL
+  );
+
+  RETURN TRUE;
+END;
+$$;
+
+-- Create or renew the co-host link (owner only, the old link stops working)
+CREATE OR REPLACE FUNCTION set_cohost_secret(
+  p_session_id UUID,
+  p_admin_secret TEXT,
+  p_cohost_secret TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+  IF NOT is_session_active(p_session_id)
+    OR NOT has_admin_permission(p_session_id, p_admin_secret, 'manage_links') THEN
+    RETURN FALSE;
+  END IF;
+
+  IF p_cohost_secret IS NULL OR length(p_cohost_secret) < 16 THEN
+    RAISE EXCEPTION 'Co-host secret too short';
+  END IF;
+
+  INSERT INTO einstand_session_roles (session_id, role, secret_hash)
+  VALUES (p_session_id, 'COHOST', crypt(p_cohost_secret, gen_salt('bf')))
+  ON CONFLICT (session_id, role)
+  DO UPDATE SET secret_hash = EXCLUDED.secret_hash, created_at = now();
+
+  RETURN TRUE;
+END;
+$$;
+
+-- Revoke the co-host link (owner only)
+CREATE OR REPLACE FUNCTION revoke_cohost_secret(
+  p_session_id UUID,
+  p_admin_secret TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_found BOOLEAN;
+BEGIN
+  IF NOT has_admin_permission(p_session_id, p_admin_secret, 'manage_links') THEN
+    RETURN FALSE;
+  END IF;
+
+  DELETE FROM einstand_session_roles
+  WHERE session_id = p_session_id
+    AND role = 'COHOST';
+
+  GET DIAGNOSTICS v_found = ROW_COUNT;
+  RETURN v_found > 0;
+END;
+$$;
+
+-- ============================================================
+-- ROW LEVEL SECURITY / GRANTS
+-- ============================================================
+
+-- No policies: the hashes are only read by the functions above
+ALTER TABLE einstand_session_roles ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON einstand_session_roles FROM anon, authenticated;
+
+REVOKE EXECUTE ON FUNCTION get_admin_role FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION has_admin_permission FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION get_admin_session TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION set_cohost_secret TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION revoke_cohost_secret TO anon, authenticated;
@@ -0,0 +1,325 @@
+-- ============================================================
+-- Weißwurst Einstand - Unique Names and "Das bin ich" Claims
+-- ============================================================
+--
+-- People who switch from laptop to phone used to end up as "Max"
+-- and "Max". Now:
+--
+-- - display_name is unique per session, case-insensitive and
+--   ignoring surrounding spaces (unique index, so join, rename,
+--   admin_add_entry and reverts all get the same check)
+-- - Joining again with the same name and edit token returns the
+--   existing entry (the answer to the first try got lost)
+-- - Instead of a duplicate, the join form offers "Das bin ich":
+--   request_entry_claim() files a request with the new device's
+--   edit token (one open request per entry, a new one replaces it)
+-- - The request is approved by whoever holds the entry's edit
+--   token (the old device) or by an admin/co-host. Approval adds
+--   the new token, so both devices can edit the entry
+-- - Requests and decisions are broadcast on session:<id>
+--   ('claim_requested', 'claim_resolved'); the payload only holds
+--   ids, the clients re-check via RPC
+--
+-- Existing duplicates are renamed to "Max (2)", "Max (3)", ... -
+-- skipping numbers some other entry already has
+--
+-- ============================================================
+
+-- ============================================================
+-- TABLES
+-- ============================================================
+
+-- An entry can now have several tokens (one per device)
+ALTER TABLE einstand_entry_tokens DROP CONSTRAINT IF EXISTS einstand_entry_tokens_pkey;
+ALTER TABLE einstand_entry_tokens ADD PRIMARY KEY (entry_id, token_hash);
+
+CREATE TABLE IF NOT EXISTS einstand_claim_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  entry_id UUID NOT NULL REFERENCES einstand_entries(id) ON DELETE CASCADE,
+  session_id UUID NOT NULL REFERENCES einstand_sessions(id) ON DELETE CASCADE,
+  token_hash TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (entry_id, token_hash)
+);
+
+CREATE INDEX IF NOT EXISTS idx_claim_requests_session_id ON einstand_claim_requests(session_id);
+
+-- Rename existing duplicates before the unique index is created.
+-- The number skips names that are taken already ("Max (2)" may exist).
+DO $$
+DECLARE
+  v_duplicate RECORD;
+  v_n INTEGER;
+  v_name TEXT;
+BEGIN
+  FOR v_duplicate IN
+    SELECT id, session_id, btrim(display_name) AS display_name
+    FROM (
+      SELECT
+        *,
+        row_number() OVER (
+          PARTITION BY session_id, lower(btrim(display_name))
+          ORDER BY created_at, id
+        ) AS n
+      FROM einstand_entries
+    ) ranked
+    WHERE n > 1
+    ORDER BY created_at, id
+  LOOP
+    v_n := 2;
+    LOOP
+      v_name := v_duplicate.display_name || ' (' || v_n || ')';
+      EXIT WHEN NOT EXISTS (
+        SELECT 1 FROM einstand_entries
+        WHERE session_id = v_duplicate.session_id
+          AND lower(btrim(display_name)) = lower(v_name)
+      );
+      v_n := v_n + 1;
+    END LOOP;
+
+    UPDATE einstand_entries SET display_name = v_name WHERE id = v_duplicate.id;
+  END LOOP;
+END;
+$$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_entries_session_name_unique
+  ON einstand_entries (session_id, lower(btrim(display_name)));
+
+-- ============================================================
+-- INTERNAL HELPERS (not callable by clients)
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION entry_has_token(
+  p_entry_id UUID,
+  p_edit_token TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM einstand_entry_tokens
+    WHERE entry_id = p_entry_id
+      AND p_edit_token IS NOT NULL
+      AND token_hash = hash_edit_token(p_edit_token)
+  );
+$$;
+
+-- ============================================================
+-- RPC FUNCTIONS
+-- ============================================================
+
+-- Join session (the name must not be taken yet - except by the entry
+-- this edit token created, so a retried join gets it back)
+CREATE OR REPLACE FUNCTION join_session(
+  p_session_id UUID,
+  p_display_name TEXT,
+  p_edit_token TEXT
+)
+RETURNS einstand_entries
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry einstand_entries;
+BEGIN
+  IF p_edit_token IS NULL OR length(p_edit_token) < 16 THEN
+    RAISE EXCEPTION 'Edit token too short';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM einstand_sessions
+    WHERE id = p_session_id
+      AND status = 'OPEN'
+      AND deleted_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Session not found or not open';
+  END IF;
+
+  SELECT * INTO v_entry
+  FROM einstand_entries
+  WHERE session_id = p_session_id
+    AND lower(btrim(display_name)) = lower(btrim(p_display_name));
+
+  IF FOUND THEN
+    IF entry_has_token(v_entry.id, p_edit_token) THEN
+      RETURN v_entry;
+    END IF;
+    RAISE EXCEPTION 'Name already taken' USING ERRCODE = 'unique_violation';
+  END IF;
+
+  INSERT INTO einstand_entries (session_id, display_name)
+  VALUES (p_session_id, btrim(p_display_name))
+  RETURNING * INTO v_entry;
+
+  INSERT INTO einstand_entry_tokens (entry_id, session_id, token_hash)
+  VALUES (v_entry.id, p_session_id, hash_edit_token(p_edit_token));
+
+  PERFORM log_event(
+    p_session_id, v_entry.id, 'JOIN', NULL, NULL,
+    jsonb_build_object('display_name', v_entry.display_name),
+    v_entry.display_name, v_entry.id
+  );
+
+  RETURN v_entry;
+END;
+$$;
+
+-- "Das bin ich": ask to use an existing entry with a new edit token
+CREATE OR REPLACE FUNCTION request_entry_claim(
+  p_entry_id UUID,
+  p_edit_token TEXT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry einstand_entries;
+  v_request_id UUID;
+BEGIN
+  IF p_edit_token IS NULL OR length(p_edit_token) < 16 THEN
+    RAISE EXCEPTION 'Edit token too short';
+  END IF;
+
+  v_entry := get_open_entry(p_entry_id);
+
+  -- One open request per entry: a new one replaces it
+  DELETE FROM einstand_claim_requests
+  WHERE entry_id = p_entry_id
+    AND token_hash <> hash_edit_token(p_edit_token);
+
+  INSERT INTO einstand_claim_requests (entry_id, session_id, token_hash)
+  VALUES (p_entry_id, v_entry.session_id, hash_edit_token(p_edit_token))
+  ON CONFLICT (entry_id, token_hash) DO UPDATE SET created_at = now()
+  RETURNING id INTO v_request_id;
+
+  PERFORM realtime.send(
+    jsonb_build_object('entry_id', p_entry_id),
+    'claim_requested',
+    'session:' || v_entry.session_id::TEXT,
+    false
+  );
+
+  RETURN v_request_id;
+END;
+$$;
+
+-- State of a claim for the requesting device: CLAIMED, PENDING or NONE (rejected)
+CREATE OR REPLACE FUNCTION get_claim_status(
+  p_entry_id UUID,
+  p_edit_token TEXT
+)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN entry_has_token(p_entry_id, p_edit_token) THEN 'CLAIMED'
+    WHEN EXISTS (
+      SELECT 1 FROM einstand_claim_requests
+      WHERE entry_id = p_entry_id
+        AND token_hash = hash_edit_token(p_edit_token)
+    ) THEN 'PENDING'
+    ELSE 'NONE'
+  END;
+$$;
+
+-- Open requests: all of the session for admins, only the own entry's for participants
+CREATE OR REPLACE FUNCTION get_claim_requests(
+  p_session_id UUID,
+  p_edit_token TEXT DEFAULT NULL,
+  p_admin_secret TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  entry_id UUID,
+  display_name TEXT,
+  created_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT r.id, r.entry_id, e.display_name, r.created_at
+  FROM einstand_claim_requests r
+  JOIN einstand_entries e ON e.id = r.entry_id
+  WHERE r.session_id = p_session_id
+    AND is_session_active(p_session_id)
+    AND (
+      has_admin_permission(p_session_id, p_admin_secret, 'edit_entries')
+      OR entry_has_token(r.entry_id, p_edit_token)
+    )
+  ORDER BY r.created_at;
+$$;
+
+-- Approve or reject a claim (edit token of the entry or admin/co-host)
+CREATE OR REPLACE FUNCTION resolve_claim_request(
+  p_request_id UUID,
+  p_approve BOOLEAN,
+  p_edit_token TEXT DEFAULT NULL,
+  p_admin_secret TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request einstand_claim_requests;
+BEGIN
+  SELECT * INTO v_request
+  FROM einstand_claim_requests
+  WHERE id = p_request_id
+  FOR UPDATE;
+
+  IF NOT FOUND
+    OR NOT is_session_active(v_request.session_id)
+    OR NOT (
+      has_admin_permission(v_request.session_id, p_admin_secret, 'edit_entries')
+      OR entry_has_token(v_request.entry_id, p_edit_token)
+    ) THEN
+    RETURN FALSE;
+  END IF;
+
+  IF p_approve THEN
+    INSERT INTO einstand_entry_tokens (entry_id, session_id, token_hash)
+    VALUES (v_request.entry_id, v_request.session_id, v_request.token_hash)
+    ON CONFLICT (entry_id, token_hash) DO NOTHING;
+  END IF;
+
+  DELETE FROM einstand_claim_requests WHERE id = p_request_id;
+
+  PERFORM realtime.send(
+    jsonb_build_object('entry_id', v_request.entry_id),
+    'claim_resolved',
+    'session:' || v_request.session_id::TEXT,
+    false
+  );
+
+  RETURN TRUE;
+END;
+$$;
+
+-- ============================================================
+-- ROW LEVEL SECURITY / GRANTS
+-- ============================================================
+
+-- No policies: requests are only read through the functions above
+ALTER TABLE einstand_claim_requests ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON einstand_claim_requests FROM anon, authenticated;
+
+REVOKE EXECUTE ON FUNCTION entry_has_token FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION join_session TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION request_entry_claim TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_claim_status TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_claim_requests TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION resolve_claim_request TO anon, authenticated;
@@ -0,0 +1,161 @@
+-- ============================================================
+-- Weißwurst Einstand - Claim Codes (Move Identity to Another Device)
+-- ============================================================
+--
+-- The participant identity (entry id + edit token) only lives in
+-- the browser's localStorage. To take it to another device:
+--
+-- - create_claim_code() gives the owner of an entry a short
+--   one-time code (8 characters, valid for claim_code_minutes()).
+--   The SessionPage shows it on the own card, also as a QR code
+-- - redeem_claim_code() on the other device replaces the entry's
+--   edit tokens with the new device's token, so the identity
+--   moves there; the old device is told via an 'identity_moved'
+--   broadcast on session:<id>
+--
+-- Only the SHA-256 hash of a code is stored, like edit tokens.
+--
+-- ============================================================
+
+-- ============================================================
+-- TABLES
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS einstand_claim_codes (
+  code_hash TEXT PRIMARY KEY,
+  entry_id UUID NOT NULL REFERENCES einstand_entries(id) ON DELETE CASCADE,
+  session_id UUID NOT NULL REFERENCES einstand_sessions(id) ON DELETE CASCADE,
+  expires_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_claim_codes_entry_id ON einstand_claim_codes(entry_id);
+
+-- ============================================================
+-- INTERNAL HELPERS (not callable by clients)
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION claim_code_minutes()
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT 10;
+$$;
+
+-- Uppercase, without spaces and dashes ("abcd-efgh" = "ABCDEFGH")
+CREATE OR REPLACE FUNCTION normalize_claim_code(p_code TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT upper(regexp_replace(COALESCE(p_code, ''), '[\s-]', '', 'g'));
+$$;
+
+-- ============================================================
+-- RPC FUNCTIONS
+-- ============================================================
+
+-- New one-time code for the own entry (replaces an older one)
+CREATE OR REPLACE FUNCTION create_claim_code(
+  p_entry_id UUID,
+  p_edit_token TEXT
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  -- 32 characters without 0/O and 1/I, so a random byte maps without bias
+  v_alphabet CONSTANT TEXT := 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+  v_bytes BYTEA;
+  v_code TEXT;
+  v_session_id UUID;
+BEGIN
+  SELECT session_id INTO v_session_id
+  FROM einstand_entries
+  WHERE id = p_entry_id;
+
+  IF v_session_id IS NULL
+    OR NOT is_session_active(v_session_id)
+    OR NOT entry_has_token(p_entry_id, p_edit_token) THEN
+    RAISE EXCEPTION 'Not allowed to change this entry' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  v_bytes := gen_random_bytes(8);
+  SELECT string_agg(substr(v_alphabet, get_byte(v_bytes, i) % 32 + 1, 1), '' ORDER BY i)
+  INTO v_code
+  FROM generate_series(0, 7) AS i;
+
+  DELETE FROM einstand_claim_codes WHERE entry_id = p_entry_id;
+
+  INSERT INTO einstand_claim_codes (code_hash, entry_id, session_id, expires_at)
+  VALUES (
+    hash_edit_token(v_code),
+    p_entry_id,
+    v_session_id,
+    now() + make_interval(mins => claim_code_minutes())
+  );
+
+  RETURN v_code;
+END;
+$$;
+
+-- Move the identity to this device (the code can only be used once)
+CREATE OR REPLACE FUNCTION redeem_claim_code(
+  p_session_id UUID,
+  p_code TEXT,
+  p_edit_token TEXT
+)
+RETURNS einstand_entries
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_code einstand_claim_codes;
+  v_entry einstand_entries;
+BEGIN
+  IF p_edit_token IS NULL OR length(p_edit_token) < 16 THEN
+    RAISE EXCEPTION 'Edit token too short';
+  END IF;
+
+  DELETE FROM einstand_claim_codes
+  WHERE session_id = p_session_id
+    AND code_hash = hash_edit_token(normalize_claim_code(p_code))
+    AND expires_at > now()
+  RETURNING * INTO v_code;
+
+  IF v_code.entry_id IS NULL OR NOT is_session_active(p_session_id) THEN
+    RAISE EXCEPTION 'Invalid or expired claim code';
+  END IF;
+
+  SELECT * INTO v_entry FROM einstand_entries WHERE id = v_code.entry_id;
+
+  DELETE FROM einstand_entry_tokens WHERE entry_id = v_entry.id;
+
+  INSERT INTO einstand_entry_tokens (entry_id, session_id, token_hash)
+  VALUES (v_entry.id, p_session_id, hash_edit_token(p_edit_token));
+
+  PERFORM realtime.send(
+    jsonb_build_object('entry_id', v_entry.id),
+    'identity_moved',
+    'session:' || p_session_id::TEXT,
+    false
+  );
+
+  RETURN v_entry;
+END;
+$$;
+
+-- ============================================================
+-- ROW LEVEL SECURITY / GRANTS
+-- ============================================================
+
+-- No policies: codes are only read through the functions above
+ALTER TABLE einstand_claim_codes ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON einstand_claim_codes FROM anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION create_claim_code TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION redeem_claim_code TO anon, authenticated;
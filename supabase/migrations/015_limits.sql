@@ -0,0 +1,349 @@
+-- ============================================================
+-- Weißwurst Einstand - Server-Enforced Limits
+-- ============================================================
+--
+-- The participant link is public, so limits can't live in the
+-- client alone. Enforced here:
+--
+-- - CHECK constraints: name 1-50 characters, title up to 100,
+--   item name up to 30 and unit up to 15, count 0-999 per item
+-- - Triggers: at most max_entries_per_session() participants and
+--   max_items_per_session() items, at most join_rate_per_minute()
+--   new participants per session and minute, and at most
+--   session_rate_per_minute() new sessions per client IP and minute
+-- - request_entry_claim(): at most claim_rate_per_minute() requests
+--   per entry and minute
+--
+-- Limit violations use their own SQLSTATEs so the client can map
+-- them to messages (src/utils/dbErrors.ts):
+--   WW001 session full, WW002 too many items, WW003 rate limited
+-- CHECK violations keep 23514 and are told apart by constraint name.
+--
+-- Existing rows are trimmed to the new limits first. Expired rate
+-- limit hits of all buckets go with the daily purge_deleted_sessions().
+--
+-- ============================================================
+
+-- ============================================================
+-- EXISTING DATA
+-- ============================================================
+
+UPDATE einstand_entries
+SET display_name = 'Unbekannt ' || left(id::TEXT, 8)
+WHERE btrim(display_name) = '';
+
+UPDATE einstand_entries
+SET display_name = left(display_name, 50)
+WHERE char_length(display_name) > 50;
+
+UPDATE einstand_sessions
+SET title = left(title, 100)
+WHERE char_length(title) > 100;
+
+UPDATE einstand_items
+SET name = left(name, 30)
+WHERE char_length(name) > 30;
+
+UPDATE einstand_items
+SET unit = left(unit, 15)
+WHERE char_length(unit) > 15;
+
+UPDATE einstand_entry_items
+SET count = 999
+WHERE count > 999;
+
+-- ============================================================
+-- CHECK CONSTRAINTS
+-- ============================================================
+
+ALTER TABLE einstand_entries DROP CONSTRAINT IF EXISTS einstand_entries_display_name_length;
+ALTER TABLE einstand_entries ADD CONSTRAINT einstand_entries_display_name_length
+  CHECK (char_length(btrim(display_name)) BETWEEN 1 AND 50);
+
+ALTER TABLE einstand_sessions DROP CONSTRAINT IF EXISTS einstand_sessions_title_length;
+ALTER TABLE einstand_sessions ADD CONSTRAINT einstand_sessions_title_length
+  CHECK (title IS NULL OR char_length(title) <= 100);
+
+ALTER TABLE einstand_items DROP CONSTRAINT IF EXISTS einstand_items_name_length;
+ALTER TABLE einstand_items ADD CONSTRAINT einstand_items_name_length
+  CHECK (char_length(btrim(name)) BETWEEN 1 AND 30);
+
+ALTER TABLE einstand_items DROP CONSTRAINT IF EXISTS einstand_items_unit_length;
+ALTER TABLE einstand_items ADD CONSTRAINT einstand_items_unit_length
+  CHECK (char_length(unit) <= 15);
+
+ALTER TABLE einstand_entry_items DROP CONSTRAINT IF EXISTS einstand_entry_items_count_range;
+ALTER TABLE einstand_entry_items ADD CONSTRAINT einstand_entry_items_count_range
+  CHECK (count BETWEEN 0 AND 999);
+
+-- ============================================================
+-- TABLES
+-- ============================================================
+
+-- Hits per rate limit bucket, pruned on every check (that bucket)
+-- and by purge_deleted_sessions() (all of them)
+CREATE TABLE IF NOT EXISTS einstand_rate_limits (
+  bucket TEXT NOT NULL,
+  hit_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limits_bucket ON einstand_rate_limits(bucket, hit_at);
+
+-- ============================================================
+-- INTERNAL HELPERS (not callable by clients)
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION max_entries_per_session()
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT 100;
+$$;
+
+-- Same as MAX_ITEMS in src/utils/items.ts
+CREATE OR REPLACE FUNCTION max_items_per_session()
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT 12;
+$$;
+
+CREATE OR REPLACE FUNCTION join_rate_per_minute()
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT 20;
+$$;
+
+CREATE OR REPLACE FUNCTION session_rate_per_minute()
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT 5;
+$$;
+
+CREATE OR REPLACE FUNCTION claim_rate_per_minute()
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT 5;
+$$;
+
+-- Hashed client IP from the PostgREST request headers ('unknown' outside of requests).
+-- The last X-Forwarded-For hop is the one the proxy appended - the ones
+-- before it are sent by the client and could be anything.
+CREATE OR REPLACE FUNCTION request_client_key()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT hash_edit_token(COALESCE(
+    NULLIF(btrim(regexp_replace(
+      current_setting('request.headers', true)::JSON->>'x-forwarded-for', '^.*,', ''
+    )), ''),
+    'unknown'
+  ));
+$$;
+
+CREATE OR REPLACE FUNCTION check_rate_limit(
+  p_bucket TEXT,
+  p_max INTEGER,
+  p_window INTERVAL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM einstand_rate_limits
+  WHERE bucket = p_bucket
+    AND hit_at <= now() - p_window;
+
+  IF (SELECT count(*) FROM einstand_rate_limits WHERE bucket = p_bucket) >= p_max THEN
+    RAISE EXCEPTION 'Rate limit exceeded' USING ERRCODE = 'WW003';
+  END IF;
+
+  INSERT INTO einstand_rate_limits (bucket) VALUES (p_bucket);
+END;
+$$;
+
+-- Same as in 010_restore_and_purge.sql, plus the rate limit hits
+-- of buckets that are never checked again. No window is longer
+-- than a minute, so an hour is safe.
+CREATE OR REPLACE FUNCTION purge_deleted_sessions()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  DELETE FROM einstand_rate_limits
+  WHERE hit_at <= now() - INTERVAL '1 hour';
+
+  DELETE FROM einstand_sessions
+  WHERE deleted_at IS NOT NULL
+    AND deleted_at <= now() - make_interval(days => session_retention_days());
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+-- ============================================================
+-- RPC FUNCTIONS
+-- ============================================================
+
+-- Same as in 013_unique_names_and_claims.sql, plus at most
+-- claim_rate_per_minute() requests per entry and minute, so the
+-- participant link can't be used to flood an entry's owner
+CREATE OR REPLACE FUNCTION request_entry_claim(
+  p_entry_id UUID,
+  p_edit_token TEXT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry einstand_entries;
+  v_request_id UUID;
+BEGIN
+  IF p_edit_token IS NULL OR length(p_edit_token) < 16 THEN
+    RAISE EXCEPTION 'Edit token too short';
+  END IF;
+
+  v_entry := get_open_entry(p_entry_id);
+
+  PERFORM check_rate_limit(
+    'claim:' || p_entry_id::TEXT,
+    claim_rate_per_minute(),
+    INTERVAL '1 minute'
+  );
+
+  -- One open request per entry: a new one replaces it
+  DELETE FROM einstand_claim_requests
+  WHERE entry_id = p_entry_id
+    AND token_hash <> hash_edit_token(p_edit_token);
+
+  INSERT INTO einstand_claim_requests (entry_id, session_id, token_hash)
+  VALUES (p_entry_id, v_entry.session_id, hash_edit_token(p_edit_token))
+  ON CONFLICT (entry_id, token_hash) DO UPDATE SET created_at = now()
+  RETURNING id INTO v_request_id;
+
+  PERFORM realtime.send(
+    jsonb_build_object('entry_id', p_entry_id),
+    'claim_requested',
+    'session:' || v_entry.session_id::TEXT,
+    false
+  );
+
+  RETURN v_request_id;
+END;
+$$;
+
+-- ============================================================
+-- TRIGGERS
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION enforce_entry_limits()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF (SELECT count(*) FROM einstand_entries WHERE session_id = NEW.session_id)
+    >= max_entries_per_session() THEN
+    RAISE EXCEPTION 'Session is full' USING ERRCODE = 'WW001';
+  END IF;
+
+  -- Rows of the current transaction share now() and don't count,
+  -- so clone_session can copy all participants at once
+  IF (
+    SELECT count(*) FROM einstand_entries
+    WHERE session_id = NEW.session_id
+      AND created_at > now() - INTERVAL '1 minute'
+      AND created_at < now()
+  ) >= join_rate_per_minute() THEN
+    RAISE EXCEPTION 'Too many participants joined, try again in a minute' USING ERRCODE = 'WW003';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS entries_limits ON einstand_entries;
+CREATE TRIGGER entries_limits
+  BEFORE INSERT ON einstand_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_entry_limits();
+
+CREATE OR REPLACE FUNCTION enforce_item_limits()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF (SELECT count(*) FROM einstand_items WHERE session_id = NEW.session_id)
+    >= max_items_per_session() THEN
+    RAISE EXCEPTION 'Too many items' USING ERRCODE = 'WW002';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS items_limits ON einstand_items;
+CREATE TRIGGER items_limits
+  BEFORE INSERT ON einstand_items
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_item_limits();
+
+-- Applies to create_session and clone_session alike
+CREATE OR REPLACE FUNCTION enforce_session_rate_limit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM check_rate_limit(
+    'create_session:' || request_client_key(),
+    session_rate_per_minute(),
+    INTERVAL '1 minute'
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sessions_rate_limit ON einstand_sessions;
+CREATE TRIGGER sessions_rate_limit
+  BEFORE INSERT ON einstand_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_session_rate_limit();
+
+-- ============================================================
+-- ROW LEVEL SECURITY / GRANTS
+-- ============================================================
+
+ALTER TABLE einstand_rate_limits ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON einstand_rate_limits FROM anon, authenticated;
+
+REVOKE EXECUTE ON FUNCTION request_client_key FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION check_rate_limit FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION purge_deleted_sessions FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION enforce_entry_limits FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION enforce_item_limits FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION enforce_session_rate_limit FROM PUBLIC, anon, authenticated;
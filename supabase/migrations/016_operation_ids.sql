@@ -0,0 +1,118 @@
+-- ============================================================
+-- Weißwurst Einstand - Idempotent Clicks
+-- ============================================================
+--
+-- Clicks made on a bad connection are queued on the device and
+-- replayed later (src/hooks/useWriteQueue.ts). A request can reach
+-- the server while its answer gets lost, so a replay must not count
+-- twice: increment_entry() takes an optional client-generated
+-- p_op_id and applies every id only once. A repeated id returns the
+-- current row without changing it.
+--
+-- Applied ids go away with their entry (or session).
+--
+-- ============================================================
+
+-- ============================================================
+-- TABLES
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS einstand_applied_operations (
+  op_id UUID PRIMARY KEY,
+  entry_id UUID NOT NULL REFERENCES einstand_entries(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_applied_operations_entry ON einstand_applied_operations(entry_id);
+
+-- ============================================================
+-- RPC FUNCTIONS
+-- ============================================================
+
+DROP FUNCTION IF EXISTS increment_entry(UUID, UUID, INTEGER, TEXT, TEXT, TEXT, UUID);
+
+CREATE OR REPLACE FUNCTION increment_entry(
+  p_entry_id UUID,
+  p_item UUID,
+  p_delta INTEGER,
+  p_edit_token TEXT DEFAULT NULL,
+  p_admin_secret TEXT DEFAULT NULL,
+  p_actor TEXT DEFAULT NULL,
+  p_actor_entry_id UUID DEFAULT NULL,
+  p_op_id UUID DEFAULT NULL
+)
+RETURNS einstand_entry_items
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry einstand_entries;
+  v_old_count INTEGER;
+  v_row einstand_entry_items;
+BEGIN
+  IF p_delta IS NULL OR p_delta = 0 THEN
+    RAISE EXCEPTION 'Delta must not be zero';
+  END IF;
+
+  v_entry := get_writable_entry(p_entry_id, p_edit_token, p_admin_secret);
+
+  IF NOT EXISTS (
+    SELECT 1 FROM einstand_items
+    WHERE id = p_item AND session_id = v_entry.session_id
+  ) THEN
+    RAISE EXCEPTION 'Item not found';
+  END IF;
+
+  -- Replayed operation: already counted, just report the current state
+  IF p_op_id IS NOT NULL THEN
+    INSERT INTO einstand_applied_operations (op_id, entry_id)
+    VALUES (p_op_id, p_entry_id)
+    ON CONFLICT (op_id) DO NOTHING;
+
+    IF NOT FOUND THEN
+      SELECT * INTO v_row
+      FROM einstand_entry_items
+      WHERE entry_id = p_entry_id AND item_id = p_item;
+
+      IF NOT FOUND THEN
+        v_row := ROW(p_entry_id, p_item, v_entry.session_id, 0, now())::einstand_entry_items;
+      END IF;
+      RETURN v_row;
+    END IF;
+  END IF;
+
+  SELECT count INTO v_old_count
+  FROM einstand_entry_items
+  WHERE entry_id = p_entry_id AND item_id = p_item
+  FOR UPDATE;
+
+  INSERT INTO einstand_entry_items (entry_id, item_id, session_id, count)
+  VALUES (p_entry_id, p_item, v_entry.session_id, GREATEST(p_delta, 0))
+  ON CONFLICT (entry_id, item_id)
+  DO UPDATE SET count = GREATEST(einstand_entry_items.count + p_delta, 0)
+  RETURNING * INTO v_row;
+
+  -- Log the delta that was actually applied (clamping may swallow it)
+  IF v_row.count <> COALESCE(v_old_count, 0) THEN
+    PERFORM log_event(
+      v_entry.session_id, p_entry_id,
+      CASE WHEN p_delta > 0 THEN 'INCREMENT' ELSE 'DECREMENT' END,
+      p_item, v_row.count - COALESCE(v_old_count, 0),
+      jsonb_build_object('display_name', v_entry.display_name),
+      p_actor, p_actor_entry_id
+    );
+  END IF;
+
+  RETURN v_row;
+END;
+$$;
+
+-- ============================================================
+-- ROW LEVEL SECURITY / GRANTS
+-- ============================================================
+
+ALTER TABLE einstand_applied_operations ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON einstand_applied_operations FROM anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION increment_entry TO anon, authenticated;